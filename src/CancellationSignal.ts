@@ -0,0 +1,82 @@
+/**
+ * Cooperative cancellation, for abandoning work nothing is waiting for anymore
+ *
+ * Like the DOM's AbortController and AbortSignal in one, which our Node typings lack.
+ */
+
+/**
+ * An error thrown by work that stopped because it was cancelled
+ */
+export class TaskCancelledError extends Error {}
+
+/**
+ * Called once when a signal is cancelled, with the reason
+ */
+export type CancellationListener = (reason: string) => void;
+
+/**
+ * Signals cancellation to whatever was handed it
+ *
+ * Owners call cancel(); work checks isCancelled() between steps, or subscribes with onCancel() to
+ * stop in-flight I/O (e.g. destroy sockets). Cancelling is only a request: work may still finish.
+ */
+export default class CancellationSignal {
+  /**
+   * Why the signal was cancelled, or null if it hasn't been
+   */
+  #reason: string | null = null;
+
+  readonly #listeners: CancellationListener[] = [];
+
+  /**
+   * Whether the signal has been cancelled
+   */
+  isCancelled = (): boolean => this.#reason !== null;
+
+  /**
+   * Why the signal was cancelled, or null if it hasn't been
+   */
+  getReason = (): string | null => this.#reason;
+
+  /**
+   * Cancel, calling listeners; calling more than once has no further effect
+   */
+  cancel = (reason: string = 'Cancelled'): void => {
+    if (this.#reason !== null) {
+      return;
+    }
+
+    this.#reason = reason;
+    this.#listeners.splice(0).forEach(listener => listener(reason));
+  };
+
+  /**
+   * Subscribe to cancellation, returning a function that unsubscribes
+   *
+   * Listeners subscribing after cancellation are called immediately.
+   */
+  onCancel = (listener: CancellationListener): (() => void) => {
+    if (this.#reason !== null) {
+      listener(this.#reason);
+      return () => undefined;
+    }
+
+    this.#listeners.push(listener);
+
+    return () => {
+      const index = this.#listeners.indexOf(listener);
+      if (index !== -1) {
+        this.#listeners.splice(index, 1);
+      }
+    };
+  };
+
+  /**
+   * Throw a TaskCancelledError if cancelled, e.g. before starting each step of a longer task
+   */
+  throwIfCancelled = (): void => {
+    if (this.#reason !== null) {
+      throw new TaskCancelledError(this.#reason);
+    }
+  };
+}
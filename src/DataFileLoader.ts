@@ -0,0 +1,116 @@
+/**
+ * Utility that loads a local data file once, and reloads it whenever it changes
+ */
+import { readFileSync, Stats, unwatchFile, watchFile } from 'fs';
+
+import Debug from './debug';
+
+const debug = Debug.extend('data-file-loader');
+
+// Milliseconds between checks for changes to watched data files
+const DATA_FILE_WATCH_INTERVAL_MS = Number(process.env.DATA_FILE_WATCH_INTERVAL_MS) || 5000;
+
+/**
+ * Parse a data file's raw contents, throwing if they're invalid
+ */
+export type DataFileParser<T> = (contents: Buffer, path: string) => T;
+
+/**
+ * Holds the parsed contents of a data file, for services that look things up in local databases
+ *
+ * Loads synchronously on construction, then polls the file for changes and hot-swaps in the
+ * re-parsed contents. If a reload fails (e.g. the file is mid-write, or was deleted), the last
+ * good contents stay in use until the next successful load.
+ *
+ * Never throws; check `get()` for null and `getError()` for why.
+ */
+export default class DataFileLoader<T> {
+  readonly #path: string;
+
+  readonly #parse: DataFileParser<T>;
+
+  /**
+   * Parsed contents of the last successful load
+   */
+  #data: T | null = null;
+
+  /**
+   * When the last successful load happened
+   */
+  #loadedAt: Date | null = null;
+
+  /**
+   * Why the last load failed, if it did
+   */
+  #error: string | null = null;
+
+  /**
+   * @param path {string} Path of the data file
+   * @param parse {DataFileParser} Parses the file's raw contents
+   */
+  constructor(path: string, parse: DataFileParser<T>) {
+    this.#path = path;
+    this.#parse = parse;
+
+    this.#load();
+
+    // Non-persistent, so watching never keeps a process alive
+    watchFile(path, { persistent: false, interval: DATA_FILE_WATCH_INTERVAL_MS }, this.#onChange);
+  }
+
+  /**
+   * Get the parsed data, or null if never successfully loaded
+   */
+  get = (): T | null => this.#data;
+
+  /**
+   * Get why the most recent load failed, or null if it succeeded
+   */
+  getError = (): string | null => this.#error;
+
+  /**
+   * Get when the data in use was loaded, or null if never successfully loaded
+   */
+  getLoadedAt = (): Date | null => this.#loadedAt;
+
+  /**
+   * Get the data file's path
+   */
+  getPath = (): string => this.#path;
+
+  /**
+   * Stop watching the file for changes
+   */
+  close = (): void => {
+    unwatchFile(this.#path, this.#onChange);
+  };
+
+  /**
+   * Reload the file when its modification time changes
+   */
+  #onChange = (current: Stats, previous: Stats): void => {
+    if (current.mtimeMs === previous.mtimeMs) {
+      return;
+    }
+
+    debug(`${this.#path} changed; reloading`);
+    this.#load();
+  };
+
+  /**
+   * Read and parse the file, keeping the previous data if that fails
+   */
+  #load = (): void => {
+    try {
+      this.#data = this.#parse(readFileSync(this.#path), this.#path);
+      this.#loadedAt = new Date();
+      this.#error = null;
+
+      debug(`loaded ${this.#path}`);
+    } catch (e) {
+      this.#error = e instanceof Error ? e.message : String(e);
+
+      debug(`failed to load ${this.#path}: ${this.#error}`);
+    }
+  };
+}
@@ -0,0 +1,57 @@
+import { strict as assert } from 'assert';
+
+import { parseCIDR, parseIP, ParsedCIDR } from './ipAddress';
+import PrefixTrie from './PrefixTrie';
+
+const cidr = (block: string): ParsedCIDR => parseCIDR(block) as ParsedCIDR;
+const bytes = (address: string): number[] => (parseIP(address) || { bytes: [] }).bytes;
+
+describe('PrefixTrie', () => {
+  const trie = new PrefixTrie<string>();
+
+  trie.insert(cidr('0.0.0.0/0'), 'default');
+  trie.insert(cidr('10.0.0.0/8'), 'ten');
+  trie.insert(cidr('10.1.0.0/16'), 'ten-one');
+  trie.insert(cidr('2001:db8::/32'), 'documentation');
+
+  it('counts distinct prefixes, replacing values of prefixes inserted again', () => {
+    const counted = new PrefixTrie<number>();
+    counted.insert(cidr('192.0.2.0/24'), 1);
+    counted.insert(cidr('192.0.2.0/24'), 2);
+    counted.insert(cidr('198.51.100.0/24'), 3);
+
+    assert.equal(counted.size, 2);
+    assert.equal(counted.get(cidr('192.0.2.0/24')), 2);
+  });
+
+  it('gets values of exact prefixes only', () => {
+    assert.equal(trie.get(cidr('10.0.0.0/8')), 'ten');
+    assert.equal(trie.get(cidr('10.0.0.0/9')), undefined);
+  });
+
+  it('finds the most specific prefix containing an address', () => {
+    assert.equal((trie.lookup(bytes('10.1.2.3')) || { value: null }).value, 'ten-one');
+    assert.equal((trie.lookup(bytes('10.2.0.1')) || { value: null }).value, 'ten');
+    assert.equal((trie.lookup(bytes('192.0.2.1')) || { value: null }).value, 'default');
+  });
+
+  it('keeps families apart', () => {
+    assert.equal((trie.lookup(bytes('2001:db8::1')) || { value: null }).value, 'documentation');
+    assert.equal(trie.lookup(bytes('2001:db9::1')), null);
+  });
+
+  it('finds every prefix containing an address, most specific first', () => {
+    assert.deepEqual(
+      trie.lookupAll(bytes('10.1.2.3')).map(({ value }) => value),
+      ['ten-one', 'ten', 'default']
+    );
+  });
+
+  it('matches host prefixes', () => {
+    const hosts = new PrefixTrie<string>();
+    hosts.insert(cidr('192.0.2.1/32'), 'host');
+
+    assert.equal((hosts.lookup(bytes('192.0.2.1')) || { value: null }).value, 'host');
+    assert.equal(hosts.lookup(bytes('192.0.2.2')), null);
+  });
+});
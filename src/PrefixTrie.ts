@@ -0,0 +1,124 @@
+/**
+ * Longest-prefix-match lookup table for IPv4 and IPv6 CIDR blocks
+ */
+import { ParsedCIDR } from './ipAddress';
+
+/**
+ * A binary trie node, branching on one address bit per level
+ */
+interface PrefixTrieNode<T> {
+  children: [PrefixTrieNode<T> | undefined, PrefixTrieNode<T> | undefined];
+  // Set on nodes at the end of an inserted prefix
+  entry?: PrefixTrieMatch<T>;
+}
+
+/**
+ * A prefix in the table, and the value stored for it
+ */
+export interface PrefixTrieMatch<T> {
+  cidr: ParsedCIDR;
+  value: T;
+}
+
+const createNode = <T>(): PrefixTrieNode<T> => ({ children: [undefined, undefined] });
+
+/**
+ * Get the bit of address bytes at a given position, most significant first
+ */
+const bitAt = (bytes: number[], position: number): 0 | 1 =>
+  ((bytes[position >> 3] >> (7 - (position & 7))) & 1) as 0 | 1;
+
+/**
+ * Maps CIDR blocks to values, and finds the most specific block containing an address
+ *
+ * Lookups walk at most one node per address bit (32 for IPv4, 128 for IPv6), regardless of how
+ * many prefixes are stored, so stay fast even with a full routing table loaded.
+ */
+export default class PrefixTrie<T> {
+  readonly #roots = { 4: createNode<T>(), 6: createNode<T>() };
+
+  #size = 0;
+
+  /**
+   * Number of prefixes stored
+   */
+  get size(): number {
+    return this.#size;
+  }
+
+  /**
+   * Store a value for a prefix, replacing any value already stored for the same prefix
+   */
+  insert = (cidr: ParsedCIDR, value: T): void => {
+    let node = this.#roots[cidr.family];
+
+    for (let i = 0; i < cidr.prefixLength; i++) {
+      const bit = bitAt(cidr.bytes, i);
+      let child = node.children[bit];
+      if (!child) {
+        child = createNode<T>();
+        node.children[bit] = child;
+      }
+      node = child;
+    }
+
+    if (!node.entry) {
+      this.#size++;
+    }
+
+    node.entry = { cidr, value };
+  };
+
+  /**
+   * Get the value stored for exactly this prefix, if any
+   */
+  get = (cidr: ParsedCIDR): T | undefined => {
+    let node: PrefixTrieNode<T> | undefined = this.#roots[cidr.family];
+
+    for (let i = 0; node && i < cidr.prefixLength; i++) {
+      node = node.children[bitAt(cidr.bytes, i)];
+    }
+
+    return node && node.entry ? node.entry.value : undefined;
+  };
+
+  /**
+   * Find the most specific stored prefix containing address bytes (4 for IPv4, 16 for IPv6)
+   */
+  lookup = (bytes: number[]): PrefixTrieMatch<T> | null => {
+    let node: PrefixTrieNode<T> | undefined = this.#roots[bytes.length === 4 ? 4 : 6];
+    let match: PrefixTrieMatch<T> | null = null;
+
+    for (let i = 0; node; i++) {
+      if (node.entry) {
+        match = node.entry;
+      }
+      if (i === bytes.length * 8) {
+        break;
+      }
+      node = node.children[bitAt(bytes, i)];
+    }
+
+    return match;
+  };
+
+  /**
+   * Find every stored prefix containing address bytes, most specific first
+   */
+  lookupAll = (bytes: number[]): PrefixTrieMatch<T>[] => {
+    let node: PrefixTrieNode<T> | undefined = this.#roots[bytes.length === 4 ? 4 : 6];
+    const matches: PrefixTrieMatch<T>[] = [];
+
+    for (let i = 0; node; i++) {
+      if (node.entry) {
+        matches.unshift(node.entry);
+      }
+      if (i === bytes.length * 8) {
+        break;
+      }
+      node = node.children[bitAt(bytes, i)];
+    }
+
+    return matches;
+  };
+}
@@ -0,0 +1,82 @@
+/**
+ * Counting semaphore, for capping concurrent use of a limited resource within a process
+ */
+
+/**
+ * Releases a semaphore slot; calling more than once has no further effect
+ */
+export type SemaphoreRelease = () => void;
+
+/**
+ * Hands out up to a fixed number of slots at a time, queueing further requests first-come
+ * first-served until slots are released
+ */
+export default class Semaphore {
+  readonly #capacity: number;
+
+  #inUse = 0;
+
+  readonly #waiting: Array<(release: SemaphoreRelease) => void> = [];
+
+  /**
+   * @param capacity {number} Most slots in use at once
+   */
+  constructor(capacity: number) {
+    if (!(capacity >= 1)) {
+      throw new Error(`Semaphore capacity must be at least 1; got ${capacity}`);
+    }
+
+    this.#capacity = capacity;
+  }
+
+  /**
+   * Wait for a slot, resolving with a function that releases it
+   */
+  acquire = (): Promise<SemaphoreRelease> =>
+    new Promise(resolve => {
+      if (this.#inUse < this.#capacity) {
+        this.#inUse++;
+        resolve(this.#createRelease());
+      } else {
+        this.#waiting.push(resolve);
+      }
+    });
+
+  /**
+   * Run a function while holding a slot, releasing it when the function's promise settles
+   */
+  use = <T>(fn: () => Promise<T>): Promise<T> =>
+    this.acquire().then(release =>
+      fn().then(
+        value => {
+          release();
+          return value;
+        },
+        error => {
+          release();
+          throw error;
+        }
+      )
+    );
+
+  /**
+   * Create a release function for a slot, which hands the slot to the next waiter, if any
+   */
+  #createRelease = (): SemaphoreRelease => {
+    let released = false;
+
+    return () => {
+      if (released) {
+        return;
+      }
+      released = true;
+
+      const next = this.#waiting.shift();
+      if (next) {
+        next(this.#createRelease());
+      } else {
+        this.#inUse--;
+      }
+    };
+  };
+}
@@ -0,0 +1,80 @@
+/**
+ * Types and registry for the kinds of address services can be requested for
+ *
+ * An address type recognizes its kind of `/ip/:address` param (e.g. an IP, a URL), and extracts
+ * the data services need from it. Services declare which address types they accept with
+ * `@Service({ addressTypes })`.
+ */
+
+/**
+ * Data extracted from an address, merged into the request data passed to services
+ */
+export type AddressData = { [x: string]: any };
+
+// address type configuration
+export type AddressTypeConfig = {
+  name: string; // Unique name of the address type, e.g. 'ip'
+  description: string; // API user-facing description of addresses of this type
+  example: string; // Example address, for API user-facing documentation
+  dataKeys: string[]; // Request data keys `parse` may populate
+  parse: (address: string) => AddressData | false; // Extract data from an address, or false if not of this type
+};
+
+/**
+ * An address recognized as one of the registered types
+ */
+export interface ParsedAddress {
+  type: string;
+  data: AddressData;
+}
+
+/**
+ * Address types services accept, if their @Service config doesn't say; the original kinds
+ */
+export const DEFAULT_ADDRESS_TYPES = ['ip', 'domain'];
+
+/**
+ * Registered address types, in order of precedence
+ */
+export const registeredAddressTypes: AddressTypeConfig[] = [];
+
+/**
+ * Register an address type
+ *
+ * Addresses are recognized as the first registered type whose parser accepts them, so register
+ * more specific types (e.g. email) before more general ones (e.g. domain).
+ */
+export const registerAddressType = (config: AddressTypeConfig): void => {
+  if (!config.name || !config.description || !config.parse) {
+    throw new Error(`Address type '${config.name}' passed invalid configuration.`);
+  }
+
+  if (registeredAddressTypes.some(({ name }) => name === config.name)) {
+    throw new Error(`Address type '${config.name}' is already registered.`);
+  }
+
+  registeredAddressTypes.push(config);
+};
+
+/**
+ * Recognize an address as a registered type, or return false if it's none of them
+ */
+export const parseAddress = (address: string): ParsedAddress | false => {
+  for (const { name, parse } of registeredAddressTypes) {
+    const data = parse(address);
+    if (data) {
+      return { type: name, data };
+    }
+  }
+
+  return false;
+};
+
+/**
+ * Get request data keys populated from addresses of any registered type
+ */
+export const getAddressDataKeys = (): string[] =>
+  registeredAddressTypes.reduce(
+    (keys: string[], { dataKeys }) => keys.concat(dataKeys.filter(key => !keys.includes(key))),
+    []
+  );
@@ -0,0 +1,24 @@
+/**
+ * Autonomous System Number address type, e.g. `AS13335`
+ */
+import { AddressTypeConfig } from '../addressTypes';
+
+// Largest 4-byte ASN
+const MAX_ASN = 4294967295;
+
+const ASNAddressType: AddressTypeConfig = {
+  name: 'asn',
+  description: 'An Autonomous System Number, prefixed with `AS`',
+  example: 'AS13335',
+  dataKeys: ['asn'],
+  parse: address => {
+    const match = /^AS([0-9]{1,10})$/i.exec(address);
+    if (!match || Number(match[1]) > MAX_ASN) {
+      return false;
+    }
+
+    return { asn: Number(match[1]) };
+  }
+};
+
+export default ASNAddressType;
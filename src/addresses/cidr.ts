@@ -0,0 +1,35 @@
+/**
+ * CIDR block address type, e.g. `192.0.2.0/24` (URL-encoded as `192.0.2.0%2F24` in paths)
+ */
+import { AddressTypeConfig } from '../addressTypes';
+import { formatIP, getCIDRLastAddress, getCIDRSize, parseCIDR } from '../ipAddress';
+
+const CIDRAddressType: AddressTypeConfig = {
+  name: 'cidr',
+  description: 'An IPv4 or IPv6 CIDR block, URL-encoded (e.g. `192.0.2.0%2F24`)',
+  example: '192.0.2.0/24',
+  dataKeys: ['cidr'],
+  parse: address => {
+    const cidr = parseCIDR(address);
+    if (!cidr) {
+      return false;
+    }
+
+    const last = formatIP(getCIDRLastAddress(cidr));
+
+    return {
+      cidr: {
+        canonical: cidr.canonical,
+        family: cidr.family,
+        prefixLength: cidr.prefixLength,
+        network: formatIP(cidr.bytes),
+        // IPv6 has no broadcast addresses
+        broadcast: cidr.family === 4 ? last : null,
+        last,
+        size: getCIDRSize(cidr)
+      }
+    };
+  }
+};
+
+export default CIDRAddressType;
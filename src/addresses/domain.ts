@@ -0,0 +1,19 @@
+/**
+ * Domain name address type, e.g. `example.com` or `bücher.example`
+ */
+import { AddressTypeConfig } from '../addressTypes';
+import { parseDomain } from '../domainName';
+
+const DomainAddressType: AddressTypeConfig = {
+  name: 'domain',
+  description: 'A domain name, which may be internationalized',
+  example: 'example.com',
+  dataKeys: ['domain'],
+  // Passed to services in ASCII form
+  parse: address => {
+    const parsed = parseDomain(address);
+    return parsed ? { domain: parsed.ascii } : false;
+  }
+};
+
+export default DomainAddressType;
@@ -0,0 +1,36 @@
+/**
+ * Email address type, e.g. `postmaster@example.com`
+ */
+import { AddressTypeConfig } from '../addressTypes';
+import { parseDomain } from '../domainName';
+
+// Longest local part (RFC 5321)
+const MAX_LOCAL_PART_LENGTH = 64;
+
+const EmailAddressType: AddressTypeConfig = {
+  name: 'email',
+  description: 'An email address; services look up its domain',
+  example: 'postmaster@example.com',
+  dataKeys: ['email', 'domain'],
+  parse: address => {
+    const at = address.lastIndexOf('@');
+    if (at < 1) {
+      return false;
+    }
+
+    const localPart = address.slice(0, at);
+    const domain = parseDomain(address.slice(at + 1));
+
+    // Loosely validate the local part, whose full grammar (e.g. quoted strings) is rarely used
+    if (!domain || localPart.length > MAX_LOCAL_PART_LENGTH || /[\s@<>()[\]\\,;:]/.test(localPart)) {
+      return false;
+    }
+
+    return {
+      email: { address: `${localPart}@${domain.ascii}`, localPart, domain: domain.ascii },
+      domain: domain.ascii
+    };
+  }
+};
+
+export default EmailAddressType;
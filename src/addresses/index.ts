@@ -0,0 +1,35 @@
+/**
+ * Available address types
+ *
+ * To add an address type:
+ *
+ * 1. Add a new AddressTypeConfig in this directory
+ * 2. import it here, and add it to `AvailableAddressTypes` below, before any more general types
+ *    that would also accept its addresses
+ * 3. Add its name to the `addressTypes` of services that accept it
+ */
+import { registerAddressType } from '../addressTypes';
+import ASNAddressType from './asn';
+import CIDRAddressType from './cidr';
+import DomainAddressType from './domain';
+import EmailAddressType from './email';
+import IPAddressType from './ip';
+import URLAddressType from './url';
+
+/**
+ * Available Address Types, in order of precedence
+ *
+ * e.g. an email address's domain part is a valid domain, but the whole is an email address
+ */
+export const AvailableAddressTypes = [
+  IPAddressType,
+  CIDRAddressType,
+  ASNAddressType,
+  EmailAddressType,
+  URLAddressType,
+  DomainAddressType
+];
+
+AvailableAddressTypes.forEach(registerAddressType);
+
+export { ASNAddressType, CIDRAddressType, DomainAddressType, EmailAddressType, IPAddressType, URLAddressType };
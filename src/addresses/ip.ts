@@ -0,0 +1,19 @@
+/**
+ * IP address type, e.g. `192.0.2.1` or `2001:db8::1`
+ */
+import { AddressTypeConfig } from '../addressTypes';
+import { parseIP } from '../ipAddress';
+
+const IPAddressType: AddressTypeConfig = {
+  name: 'ip',
+  description: 'An IPv4 or IPv6 address',
+  example: '8.8.8.8',
+  dataKeys: ['ip'],
+  // Passed to services in canonical form
+  parse: address => {
+    const parsed = parseIP(address);
+    return parsed ? { ip: parsed.canonical } : false;
+  }
+};
+
+export default IPAddressType;
@@ -0,0 +1,74 @@
+/**
+ * URL address type, e.g. `https://example.com:8443/path` (URL-encoded in paths)
+ *
+ * Any `user:password@` credentials are dropped.
+ */
+import { URL } from 'url';
+
+import { AddressData, AddressTypeConfig } from '../addressTypes';
+import { parseDomain } from '../domainName';
+import { parseIP } from '../ipAddress';
+
+/**
+ * Ports used by URL schemes when URLs don't specify one
+ */
+const DEFAULT_PORTS: { [x: string]: number } = {
+  'ftp:': 21,
+  'http:': 80,
+  'https:': 443,
+  'ws:': 80,
+  'wss:': 443
+};
+
+const URLAddressType: AddressTypeConfig = {
+  name: 'url',
+  description: 'An absolute URL, URL-encoded; services look up its host',
+  example: 'https://example.com/',
+  dataKeys: ['url', 'ip', 'domain'],
+  parse: address => {
+    // Require an authority, so e.g. `mailto:` URIs and `host:port` strings don't pass
+    if (!/^[a-z][a-z0-9+.-]*:\/\//i.test(address)) {
+      return false;
+    }
+
+    let url: URL;
+    try {
+      url = new URL(address);
+    } catch (e) {
+      return false;
+    }
+
+    const { hostname, protocol } = url;
+    const ip = parseIP(hostname);
+    const domain = ip ? false : parseDomain(hostname);
+
+    if (!ip && !domain) {
+      return false;
+    }
+
+    // Credentials aren't needed to look up the host, and mustn't end up in results, caches, or logs
+    url.username = '';
+    url.password = '';
+
+    const data: AddressData = {
+      url: {
+        href: url.href,
+        scheme: protocol.slice(0, -1),
+        host: ip ? ip.canonical : domain && domain.ascii,
+        port: url.port ? Number(url.port) : DEFAULT_PORTS[protocol] || null,
+        path: url.pathname
+      }
+    };
+
+    // The host, as it would be if it were the address
+    if (ip) {
+      data.ip = ip.canonical;
+    } else if (domain) {
+      data.domain = domain.ascii;
+    }
+
+    return data;
+  }
+};
+
+export default URLAddressType;
@@ -14,10 +14,42 @@ import construct = Reflect.construct;
  */
 type PrefixMetaData = string;
 
+/**
+ * API user-facing documentation of a route, for generated OpenAPI documents
+ *
+ * Schemas are JSON Schema (OpenAPI 3 flavor) objects.
+ */
+export type RouteDocs = {
+  summary?: string;
+  description?: string;
+  // Schema of the JSON request body, if the route accepts one
+  requestBody?: { [x: string]: any };
+  // Responses keyed by HTTP status code
+  responses?: {
+    [statusCode: number]: {
+      description: string;
+      schema?: { [x: string]: any };
+      // Defaults to 'application/json'
+      contentType?: string;
+    };
+  };
+};
+
+/**
+ * Route documentation, or a function returning it for docs that depend on runtime state (e.g.
+ * registered services), which is called each time documentation is generated
+ */
+export type RouteDocsConfig = RouteDocs | (() => RouteDocs);
+
 /**
  * Type of endpoint controllers' `routes` metadata
  */
-type RoutesMetaData = Array<{ path: string; requestType: SupportedRequestTypes; methodName: string }>;
+type RoutesMetaData = Array<{
+  path: string;
+  requestType: SupportedRequestTypes;
+  methodName: string;
+  docs?: RouteDocsConfig;
+}>;
 
 /**
  * Type of endpoint controller's combined metadata
@@ -113,12 +145,16 @@ type RouteDecorator = (target: any, methodName: string) => void;
 /**
  * Type of Route decorator factory
  */
-type RouteDecoratorFactory = (path: string, requestType: SupportedRequestTypes) => RouteDecorator;
+type RouteDecoratorFactory = (
+  path: string,
+  requestType: SupportedRequestTypes,
+  docs?: RouteDocsConfig
+) => RouteDecorator;
 
 /**
  * Type of Type of method-specific route decorator factory
  */
-type RouteMethodDecoratorFactory = (path: string) => RouteDecorator;
+type RouteMethodDecoratorFactory = (path: string, docs?: RouteDocsConfig) => RouteDecorator;
 
 // ================================
 // Validate how decorators are used
@@ -172,9 +208,16 @@ const ensureRoutesMetadataInitialized = (target: any): void => {
   }
 };
 
+/**
+ * Endpoint controller classes, registered by the Endpoint decorator
+ */
+export const registeredControllers: ControllerConstructor[] = [];
+
 /**
  * Get reflection metadata for a decorated endpoint controller
  *
+ * Also accepts a controller class's prototype, to get metadata without instantiating it.
+ *
  * @param target {EndpointController} The decorated endpoint controller
  */
 export const getControllerMetadata = (target: EndpointController): ControllerMetaData => {
@@ -199,6 +242,8 @@ export const Endpoint: EndpointDecoratorFactory = (prefix: string = ''): Endpoin
     Reflect.defineMetadata('prefix', prefix, target);
 
     ensureRoutesMetadataInitialized(target);
+
+    registeredControllers.push(target);
   };
 };
 
@@ -210,8 +255,13 @@ export const Endpoint: EndpointDecoratorFactory = (prefix: string = ''): Endpoin
  *
  * @param path {string} - The endpoint path to serve (e.g. `/<prefix>/<path>`)
  * @param requestType {SupportedRequestTypes} - HTTP request type to handle, lowercase
+ * @param docs {RouteDocsConfig} - Optional documentation of the route
  */
-const Route: RouteDecoratorFactory = (path: string, requestType: SupportedRequestTypes): RouteDecorator => {
+const Route: RouteDecoratorFactory = (
+  path: string,
+  requestType: SupportedRequestTypes,
+  docs?: RouteDocsConfig
+): RouteDecorator => {
   validateDecoratorPath(path, requestType.toUpperCase());
   // validate path
   return (target: any, methodName: string): void => {
@@ -219,7 +269,7 @@ const Route: RouteDecoratorFactory = (path: string, requestType: SupportedReques
 
     const routes: RoutesMetaData = Reflect.getMetadata('routes', target.constructor);
 
-    routes.push({ path, requestType, methodName });
+    routes.push({ path, requestType, methodName, docs });
 
     Reflect.defineMetadata('routes', routes, target.constructor);
   };
@@ -228,21 +278,23 @@ const Route: RouteDecoratorFactory = (path: string, requestType: SupportedReques
 /**
  * Decorator factory to make a controller method a GET request route handler
  * @param path
+ * @param docs
  * @constructor
  */
-export const GET: RouteMethodDecoratorFactory = (path: string = '/'): RouteDecorator => {
+export const GET: RouteMethodDecoratorFactory = (path: string = '/', docs?: RouteDocsConfig): RouteDecorator => {
   return (target, methodName: string): void => {
-    Route(path, 'get')(target, methodName);
+    Route(path, 'get', docs)(target, methodName);
   };
 };
 
 /**
  * Decorator factory to make a controller method a POST request route handler
  * @param path
+ * @param docs
  * @constructor
  */
-export const POST: RouteMethodDecoratorFactory = (path: string = '/'): RouteDecorator => {
+export const POST: RouteMethodDecoratorFactory = (path: string = '/', docs?: RouteDocsConfig): RouteDecorator => {
   return (target, methodName: string): void => {
-    Route(path, 'post')(target, methodName);
+    Route(path, 'post', docs)(target, methodName);
   };
 };
@@ -0,0 +1,143 @@
+import { strict as assert } from 'assert';
+
+import {
+  DataSchema,
+  describeDataSchema,
+  findDataSchemaConflict,
+  findDataSchemaIssues,
+  isOptionalDataSchema,
+  normalizeDataSchema,
+  validateData,
+  validateDataValue
+} from './dataSchema';
+
+describe('dataSchema', () => {
+  describe('normalizeDataSchema', () => {
+    it('expands types to schemas, including nested ones', () => {
+      assert.deepEqual(normalizeDataSchema('string'), { type: 'string' });
+      assert.deepEqual(normalizeDataSchema({ type: 'array', items: 'integer' }), {
+        type: 'array',
+        items: { type: 'integer' }
+      });
+      assert.deepEqual(normalizeDataSchema({ type: 'object', properties: { name: 'string' } }), {
+        type: 'object',
+        properties: { name: { type: 'string' } }
+      });
+    });
+  });
+
+  describe('isOptionalDataSchema', () => {
+    it('treats schemas as required unless marked optional', () => {
+      assert.equal(isOptionalDataSchema('string'), false);
+      assert.equal(isOptionalDataSchema({ type: 'string' }), false);
+      assert.equal(isOptionalDataSchema({ type: 'string', optional: true }), true);
+    });
+  });
+
+  describe('findDataSchemaIssues', () => {
+    it('accepts valid schemas', () => {
+      assert.deepEqual(
+        findDataSchemaIssues({ type: 'array', items: { type: 'integer', minimum: 1, maximum: 65535 } }, 'ports'),
+        []
+      );
+    });
+
+    it('reports unknown types, empty enums, and impossible ranges, nested or not', () => {
+      // Not a DataSchema by its type, but decorators in plain JavaScript services can pass anything
+      const unknownType = ({ type: 'date' } as unknown) as DataSchema;
+
+      assert.deepEqual(findDataSchemaIssues(unknownType, 'when'), [
+        "`when` has unknown type 'date'; expected one of string, number, integer, boolean, object, array, any"
+      ]);
+      assert.deepEqual(findDataSchemaIssues({ type: 'string', enum: [] }, 'mode'), [
+        '`mode` has an empty or invalid enum'
+      ]);
+      assert.deepEqual(
+        findDataSchemaIssues({ type: 'array', items: { type: 'number', minimum: 5, maximum: 1 } }, 'x'),
+        ['`x[]` has minimum 5 greater than maximum 1']
+      );
+    });
+  });
+
+  describe('describeDataSchema', () => {
+    it('describes types, ranges, enums, and items', () => {
+      assert.equal(describeDataSchema('string'), 'a string');
+      assert.equal(describeDataSchema({ type: 'integer', minimum: 1, maximum: 65535 }), 'an integer from 1 to 65535');
+      assert.equal(describeDataSchema({ type: 'number', minimum: 0 }), 'a number of at least 0');
+      assert.equal(describeDataSchema({ type: 'string', enum: ['a', 'b'] }), 'one of "a", "b"');
+      assert.equal(
+        describeDataSchema({ type: 'array', minItems: 1, items: 'integer' }),
+        'an array of at least 1 item, each an integer'
+      );
+    });
+  });
+
+  describe('validateDataValue', () => {
+    const ports = {
+      type: 'array' as const,
+      items: { type: 'integer' as const, minimum: 1, maximum: 65535 },
+      minItems: 1
+    };
+
+    it('accepts valid values', () => {
+      assert.deepEqual(validateDataValue([80, 443], ports, 'ports'), []);
+    });
+
+    it('reports each invalid item by path', () => {
+      assert.deepEqual(validateDataValue([80, 70000, 1.5], ports, 'ports'), [
+        '`ports[1]` must be from 1 to 65535, got 70000',
+        '`ports[2]` must be an integer, got 1.5'
+      ]);
+    });
+
+    it('reports missing, mistyped, and out of range values', () => {
+      assert.deepEqual(validateDataValue(undefined, 'string', 'x'), ['`x` is required']);
+      assert.deepEqual(validateDataValue(undefined, { type: 'string', optional: true }, 'x'), []);
+      assert.deepEqual(validateDataValue(null, 'object', 'x'), ['`x` must be an object, got null']);
+      assert.deepEqual(validateDataValue([], ports, 'ports'), ['`ports` must have at least 1 item, got 0']);
+      assert.deepEqual(validateDataValue('abc', { type: 'string', minLength: 5 }, 's'), [
+        '`s` must be at least 5 characters long, got 3'
+      ]);
+      assert.deepEqual(validateDataValue('c', { type: 'string', enum: ['a', 'b'] }, 'mode'), [
+        '`mode` must be one of "a", "b", got "c"'
+      ]);
+    });
+
+    it('validates object properties', () => {
+      const schema = { type: 'object' as const, properties: { name: 'string' as const } };
+
+      assert.deepEqual(validateDataValue({ name: 'a', other: 1 }, schema, 'o'), []);
+      assert.deepEqual(validateDataValue({}, schema, 'o'), ['`o.name` is required']);
+    });
+  });
+
+  describe('validateData', () => {
+    it('validates each key against its schema', () => {
+      assert.deepEqual(validateData({ ip: '192.0.2.1', port: 443 }, { ip: 'string', port: 'integer' }), []);
+      assert.deepEqual(validateData({ port: '443' }, { ip: 'string', port: 'integer' }), [
+        '`ip` is required',
+        '`port` must be an integer, got string'
+      ]);
+    });
+  });
+
+  describe('findDataSchemaConflict', () => {
+    it('finds schemas no value could meet', () => {
+      assert.equal(findDataSchemaConflict('string', 'integer'), 'different types');
+      assert.equal(
+        findDataSchemaConflict({ type: 'string', enum: ['a'] }, { type: 'string', enum: ['b'] }),
+        'no allowed values in common'
+      );
+      assert.equal(
+        findDataSchemaConflict({ type: 'integer', maximum: 10 }, { type: 'number', minimum: 11 }),
+        "ranges that don't overlap"
+      );
+    });
+
+    it('accepts compatible schemas', () => {
+      assert.equal(findDataSchemaConflict('number', 'integer'), null);
+      assert.equal(findDataSchemaConflict('any', 'string'), null);
+      assert.equal(findDataSchemaConflict({ type: 'integer', maximum: 10 }, { type: 'integer', minimum: 10 }), null);
+    });
+  });
+});
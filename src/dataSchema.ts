@@ -0,0 +1,329 @@
+/**
+ * Schemas describing data services require (see `requiredData` in @Service config)
+ *
+ * Used by the server to validate request data before queueing tasks, and by queue workers to
+ * validate tasks before processing them, so both report the same issues.
+ */
+
+/**
+ * Data types a schema can require
+ *
+ * As JSON has them, plus 'integer' for whole numbers, and 'any' for anything but undefined.
+ */
+export type DataType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'any';
+
+const DATA_TYPES: DataType[] = ['string', 'number', 'integer', 'boolean', 'object', 'array', 'any'];
+
+/**
+ * Pairs of schema constraints bounding a number, or a string's or array's length
+ */
+const BOUNDS: Array<['minimum' | 'minLength' | 'minItems', 'maximum' | 'maxLength' | 'maxItems']> = [
+  ['minimum', 'maximum'],
+  ['minLength', 'maxLength'],
+  ['minItems', 'maxItems']
+];
+
+/**
+ * A schema for one data value
+ *
+ * Constraints apply only to values of the type they're for, e.g. `minimum` to numbers.
+ */
+export type DataFieldSchema = {
+  type: DataType;
+  optional?: boolean; // Whether the value may be left out; required by default
+  description?: string; // API user-facing description
+  enum?: Array<string | number | boolean>; // Allowed values, if only some
+  minimum?: number; // numbers
+  maximum?: number;
+  minLength?: number; // strings
+  maxLength?: number;
+  properties?: DataSchemaMap; // objects; other properties are allowed too
+  items?: DataSchema; // arrays
+  minItems?: number;
+  maxItems?: number;
+};
+
+/**
+ * A schema for one data value, or just its type, e.g. 'string', for a required value of that type
+ */
+export type DataSchema = DataType | DataFieldSchema;
+
+/**
+ * Schemas for data keys, e.g. a service's `requiredData`
+ */
+export type DataSchemaMap = { [x: string]: DataSchema };
+
+/**
+ * Expand a schema given as a type to its full form, including nested schemas
+ */
+export const normalizeDataSchema = (schema: DataSchema): DataFieldSchema => {
+  if (typeof schema === 'string') {
+    return { type: schema };
+  }
+
+  const normalized: DataFieldSchema = { ...schema };
+
+  if (schema.properties) {
+    const properties: { [x: string]: DataFieldSchema } = {};
+    Object.keys(schema.properties).forEach(key => {
+      properties[key] = normalizeDataSchema((schema.properties as DataSchemaMap)[key]);
+    });
+    normalized.properties = properties;
+  }
+
+  if (schema.items) {
+    normalized.items = normalizeDataSchema(schema.items);
+  }
+
+  return normalized;
+};
+
+/**
+ * Whether a schema's value may be left out
+ */
+export const isOptionalDataSchema = (schema: DataSchema): boolean => typeof schema !== 'string' && !!schema.optional;
+
+/**
+ * Find any mistakes in a schema, e.g. unknown types or impossible ranges, for @Service config validation
+ *
+ * @param schema {DataSchema} The schema
+ * @param path {string} Where the schema is, for issues, e.g. `ports.items`
+ */
+export const findDataSchemaIssues = (schema: DataSchema, path: string): string[] => {
+  const normalized = normalizeDataSchema(schema);
+  const { type, enum: allowed, properties, items } = normalized;
+  const issues: string[] = [];
+
+  if (!DATA_TYPES.includes(type)) {
+    return [`\`${path}\` has unknown type '${type}'; expected one of ${DATA_TYPES.join(', ')}`];
+  }
+
+  if (allowed && (!Array.isArray(allowed) || !allowed.length)) {
+    issues.push(`\`${path}\` has an empty or invalid enum`);
+  }
+
+  BOUNDS.forEach(([min, max]) => {
+    const low = normalized[min];
+    const high = normalized[max];
+
+    if ((low !== undefined && typeof low !== 'number') || (high !== undefined && typeof high !== 'number')) {
+      issues.push(`\`${path}\` has a non-numeric ${min} or ${max}`);
+    } else if (low !== undefined && high !== undefined && low > high) {
+      issues.push(`\`${path}\` has ${min} ${low} greater than ${max} ${high}`);
+    }
+  });
+
+  if (properties) {
+    Object.keys(properties).forEach(key => issues.push(...findDataSchemaIssues(properties[key], `${path}.${key}`)));
+  }
+
+  if (items) {
+    issues.push(...findDataSchemaIssues(items, `${path}[]`));
+  }
+
+  return issues;
+};
+
+/**
+ * Describe a value's type as a schema would, e.g. 'null' or 'array' rather than 'object'
+ */
+const describeValueType = (value: any): string => {
+  if (value === null) {
+    return 'null';
+  }
+
+  return Array.isArray(value) ? 'array' : typeof value;
+};
+
+/**
+ * Whether a value is of a type
+ */
+const isOfType = (value: any, type: DataType): boolean => {
+  switch (type) {
+    case 'any':
+      return true;
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && isFinite(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return describeValueType(value) === 'object';
+    default:
+      return typeof value === type;
+  }
+};
+
+/**
+ * Prefix a noun with its indefinite article, e.g. 'an integer'
+ */
+const withArticle = (noun: string): string => `${/^[aeiou]/.test(noun) ? 'an' : 'a'} ${noun}`;
+
+/**
+ * Describe a range, e.g. 'from 1 to 10', 'at least 1 item'
+ *
+ * @param unit {string} What's counted, e.g. 'item', pluralized as needed; none for plain numbers
+ */
+const describeRange = (min: number | undefined, max: number | undefined, unit: string = ''): string => {
+  const count = (value: number | undefined) => (unit ? `${value} ${unit}${value === 1 ? '' : 's'}` : `${value}`);
+
+  if (min !== undefined && max !== undefined) {
+    return unit ? `${min} to ${count(max)}` : `from ${min} to ${max}`;
+  }
+
+  return min !== undefined ? `at least ${count(min)}` : `at most ${count(max)}`;
+};
+
+/**
+ * Describe values a schema allows, e.g. 'an integer from 1 to 65535', for API user-facing messages
+ */
+export const describeDataSchema = (schema: DataSchema): string => {
+  const {
+    type,
+    enum: allowed,
+    properties,
+    items,
+    minimum,
+    maximum,
+    minLength,
+    maxLength,
+    minItems,
+    maxItems
+  } = normalizeDataSchema(schema);
+
+  if (allowed) {
+    return `one of ${allowed.map(value => JSON.stringify(value)).join(', ')}`;
+  }
+
+  const descriptions: string[] = [type === 'any' ? 'any value' : withArticle(type)];
+
+  if ((type === 'number' || type === 'integer') && (minimum !== undefined || maximum !== undefined)) {
+    const range = describeRange(minimum, maximum);
+    descriptions.push(minimum !== undefined && maximum !== undefined ? range : `of ${range}`);
+  }
+
+  if (type === 'string' && (minLength !== undefined || maxLength !== undefined)) {
+    descriptions.push(`of ${describeRange(minLength, maxLength, 'character')}`);
+  }
+
+  if (type === 'array' && (minItems !== undefined || maxItems !== undefined)) {
+    descriptions.push(`of ${describeRange(minItems, maxItems, 'item')}`);
+  }
+
+  if (type === 'object' && properties) {
+    descriptions.push(
+      `with ${Object.keys(properties)
+        .map(key => `\`${key}\``)
+        .join(', ')}`
+    );
+  }
+
+  const description = descriptions.join(' ');
+
+  return type === 'array' && items ? `${description}, each ${describeDataSchema(items)}` : description;
+};
+
+/**
+ * Validate a value against a schema, returning issues describing each problem, if any
+ *
+ * @param value {any} The value; undefined if left out
+ * @param schema {DataSchema} The schema
+ * @param path {string} Where the value is, for issues, e.g. `ports[2]`
+ */
+export const validateDataValue = (value: any, schema: DataSchema, path: string): string[] => {
+  const normalized = normalizeDataSchema(schema);
+  const { type, optional, enum: allowed, properties, items } = normalized;
+  const { minimum, maximum, minLength, maxLength, minItems, maxItems } = normalized;
+
+  if (value === undefined) {
+    return optional ? [] : [`\`${path}\` is required`];
+  }
+
+  if (!isOfType(value, type)) {
+    // e.g. 'got 1.5' rather than 'got number' for integers
+    const actual = type === 'integer' && typeof value === 'number' ? value : describeValueType(value);
+    return [`\`${path}\` must be ${withArticle(type)}, got ${actual}`];
+  }
+
+  if (allowed && !allowed.includes(value)) {
+    return [`\`${path}\` must be ${describeDataSchema(schema)}, got ${JSON.stringify(value)}`];
+  }
+
+  const issues: string[] = [];
+  const isOutOfRange = (actual: number, min: number | undefined, max: number | undefined): boolean =>
+    (min !== undefined && actual < min) || (max !== undefined && actual > max);
+
+  if (typeof value === 'number' && isOutOfRange(value, minimum, maximum)) {
+    issues.push(`\`${path}\` must be ${describeRange(minimum, maximum)}, got ${value}`);
+  }
+
+  if (typeof value === 'string' && isOutOfRange(value.length, minLength, maxLength)) {
+    issues.push(`\`${path}\` must be ${describeRange(minLength, maxLength, 'character')} long, got ${value.length}`);
+  }
+
+  if (Array.isArray(value)) {
+    if (isOutOfRange(value.length, minItems, maxItems)) {
+      issues.push(`\`${path}\` must have ${describeRange(minItems, maxItems, 'item')}, got ${value.length}`);
+    }
+
+    if (items) {
+      value.forEach((item, index) => issues.push(...validateDataValue(item, items, `${path}[${index}]`)));
+    }
+  }
+
+  if (properties && describeValueType(value) === 'object') {
+    Object.keys(properties).forEach(key =>
+      issues.push(...validateDataValue(value[key], properties[key], `${path}.${key}`))
+    );
+  }
+
+  return issues;
+};
+
+/**
+ * Validate data against schemas for its keys, returning issues describing each problem, if any
+ */
+export const validateData = (data: { [x: string]: any }, schemas: DataSchemaMap): string[] =>
+  Object.keys(schemas).reduce(
+    (issues: string[], key) => issues.concat(validateDataValue(data[key], schemas[key], key)),
+    []
+  );
+
+/**
+ * Explain why no value could meet two schemas, if that's so, e.g. 'different types'
+ *
+ * Only types, enums, and number ranges are compared, so some conflicts are left for validation to find.
+ */
+export const findDataSchemaConflict = (schema: DataSchema, otherSchema: DataSchema): string | null => {
+  const first = normalizeDataSchema(schema);
+  const second = normalizeDataSchema(otherSchema);
+  const numeric = ['number', 'integer'];
+
+  if (
+    first.type !== second.type &&
+    first.type !== 'any' &&
+    second.type !== 'any' &&
+    !(numeric.includes(first.type) && numeric.includes(second.type))
+  ) {
+    return 'different types';
+  }
+
+  if (first.enum && second.enum && !first.enum.some(value => (second.enum || []).includes(value))) {
+    return 'no allowed values in common';
+  }
+
+  const lowest = Math.max(
+    first.minimum === undefined ? -Infinity : first.minimum,
+    second.minimum === undefined ? -Infinity : second.minimum
+  );
+  const highest = Math.min(
+    first.maximum === undefined ? Infinity : first.maximum,
+    second.maximum === undefined ? Infinity : second.maximum
+  );
+  if (lowest > highest) {
+    return "ranges that don't overlap";
+  }
+
+  return null;
+};
@@ -0,0 +1,111 @@
+/**
+ * DNS resolution helpers shared by DNS-based services
+ */
+import { promises as dnsPromises } from 'dns';
+
+import CancellationSignal from './CancellationSignal';
+
+// Comma-separated DNS servers to query instead of the system's, e.g. `127.0.0.1:5353,[::1]:53`
+const DNS_RESOLVER_SERVERS = process.env.DNS_RESOLVER_SERVERS || '';
+// Milliseconds to wait for each DNS query
+export const DNS_TIMEOUT_MS = Number(process.env.DNS_TIMEOUT_MS) || 3000;
+
+/**
+ * A promise-based Resolver
+ *
+ * `cancel()` exists at runtime but is missing from @types/node's promises.Resolver.
+ */
+export type DNSResolver = dnsPromises.Resolver & { cancel?: () => void };
+
+/**
+ * Classification of a DNS query's outcome when it returns no records
+ */
+export type DNSErrorCode = 'NXDOMAIN' | 'NODATA' | 'SERVFAIL' | 'REFUSED' | 'TIMEOUT' | 'ERROR';
+
+/**
+ * Create a resolver using given or configured DNS servers, or the system's if none configured
+ *
+ * @param servers {string} Comma-separated DNS servers, formatted as for DNS_RESOLVER_SERVERS
+ */
+export const createResolver = (servers: string = DNS_RESOLVER_SERVERS): DNSResolver => {
+  const resolver: DNSResolver = new dnsPromises.Resolver();
+
+  if (servers) {
+    resolver.setServers(servers.split(',').map(server => server.trim()));
+  }
+
+  return resolver;
+};
+
+/**
+ * Cancel a resolver's outstanding queries if a task's signal is cancelled; they reject with ECANCELLED
+ */
+export const cancelOnSignal = (resolver: DNSResolver, signal: CancellationSignal): void => {
+  signal.onCancel(() => {
+    if (resolver.cancel) {
+      resolver.cancel();
+    }
+  });
+};
+
+/**
+ * Error thrown when a query doesn't resolve in time
+ */
+export class DNSTimeoutError extends Error {
+  readonly code = 'ETIMEOUT';
+}
+
+/**
+ * Reject a DNS query's promise if it doesn't settle within a timeout
+ */
+export const withTimeout = <T>(query: Promise<T>, timeout: number = DNS_TIMEOUT_MS): Promise<T> =>
+  new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new DNSTimeoutError(`DNS query timed out after ${timeout}ms`)), timeout);
+
+    query.then(
+      value => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      error => {
+        clearTimeout(timer);
+        reject(error);
+      }
+    );
+  });
+
+/**
+ * Build the PTR query name for address bytes, e.g. `4.3.2.1.in-addr.arpa` for `1.2.3.4`
+ */
+export const reverseLookupName = (bytes: number[]): string => {
+  if (bytes.length === 4) {
+    return `${bytes.slice().reverse().join('.')}.in-addr.arpa`;
+  }
+
+  const nibbles: string[] = [];
+  bytes.forEach(byte => nibbles.push((byte >> 4).toString(16), (byte & 0xf).toString(16)));
+
+  return `${nibbles.reverse().join('.')}.ip6.arpa`;
+};
+
+/**
+ * Classify a DNS query error by its Node.js error code
+ */
+export const classifyDNSError = (error: { code?: string }): DNSErrorCode => {
+  switch (error.code) {
+    case 'ENOTFOUND':
+      return 'NXDOMAIN';
+    case 'ENODATA':
+      return 'NODATA';
+    case 'ESERVFAIL':
+      return 'SERVFAIL';
+    case 'EREFUSED':
+    case 'ECONNREFUSED':
+      return 'REFUSED';
+    case 'ETIMEOUT':
+    case 'ECANCELLED':
+      return 'TIMEOUT';
+    default:
+      return 'ERROR';
+  }
+};
@@ -0,0 +1,65 @@
+/**
+ * Domain name validation and IDN (internationalized domain name) conversion
+ */
+import { domainToASCII, domainToUnicode } from 'url';
+
+// Longest domain name, in ASCII, without a trailing dot (RFC 1035)
+const MAX_DOMAIN_LENGTH = 253;
+// Longest label, in ASCII (RFC 1035)
+const MAX_LABEL_LENGTH = 63;
+
+/**
+ * A parsed domain name
+ */
+export interface ParsedDomain {
+  // Lowercase ASCII form, with internationalized labels as punycode A-labels (e.g. `xn--bcher-kva.example`)
+  ascii: string;
+  // Unicode form (e.g. `bücher.example`)
+  unicode: string;
+  // ASCII labels, most specific first
+  labels: string[];
+  // Whether any label is internationalized
+  isIDN: boolean;
+}
+
+/**
+ * Whether an ASCII label is a valid hostname label: letters, digits, and hyphens, not starting or
+ * ending with a hyphen (RFC 1123)
+ */
+const isValidLabel = (label: string): boolean =>
+  label.length >= 1 && label.length <= MAX_LABEL_LENGTH && /^[a-z0-9]([a-z0-9-]*[a-z0-9])?$/.test(label);
+
+/**
+ * Parse a hostname-style domain name, or return false if invalid
+ *
+ * Unicode names are converted to ASCII per UTS #46, as browsers do, so `Bücher.example` and
+ * `xn--bcher-kva.example` parse the same. A single trailing dot (the DNS root) is allowed and
+ * dropped. The top-level label can't be all digits, so dotted numbers never pass as domains.
+ */
+export const parseDomain = (domain: string): ParsedDomain | false => {
+  if (!domain || typeof domain !== 'string') {
+    return false;
+  }
+
+  const name = domain.endsWith('.') ? domain.slice(0, -1) : domain;
+
+  // Empty if conversion fails, e.g. for invalid punycode or forbidden characters
+  const ascii = domainToASCII(name);
+
+  if (!ascii || ascii.length > MAX_DOMAIN_LENGTH) {
+    return false;
+  }
+
+  const labels = ascii.split('.');
+
+  if (!labels.every(isValidLabel) || /^[0-9]+$/.test(labels[labels.length - 1])) {
+    return false;
+  }
+
+  return {
+    ascii,
+    unicode: domainToUnicode(ascii),
+    labels,
+    isIDN: labels.some(label => label.startsWith('xn--'))
+  };
+};
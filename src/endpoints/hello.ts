@@ -9,12 +9,21 @@ import { EndpointController, Endpoint, GET } from '../controllers';
  */
 @Endpoint('/hello')
 export default class HelloController extends EndpointController {
-  @GET('/')
+  @GET('/', {
+    summary: 'Say hello',
+    responses: { 200: { description: 'A greeting', schema: { type: 'string' }, contentType: 'text/html' } }
+  })
   hello = (_req: Request, response: Response): void => {
     response.send('Hello world');
   };
 
-  @GET('/:name')
+  @GET('/:name', {
+    summary: 'Say hello to someone by name',
+    responses: {
+      200: { description: 'A personal greeting', schema: { type: 'string' }, contentType: 'text/html' },
+      400: { description: 'Invalid name', schema: { type: 'string' }, contentType: 'text/html' }
+    }
+  })
   helloName = (request: Request, response: Response): void => {
     const { name } = request.params;
 
@@ -1,4 +1,12 @@
 import HelloController from './hello';
 import IPServicesController from './ip';
+import OpenAPIController from './openapi';
+import { EndpointController } from '../controllers';
+import { Concrete } from '../utils';
 
-export { HelloController, IPServicesController };
+/**
+ * Endpoint controllers to serve
+ */
+export const Endpoints: Concrete<EndpointController>[] = [HelloController, IPServicesController, OpenAPIController];
+
+export { HelloController, IPServicesController, OpenAPIController };
@@ -0,0 +1,485 @@
+import 'reflect-metadata';
+import { strict as assert } from 'assert';
+import * as bullmq from 'bullmq';
+import { EventEmitter } from 'events';
+import express, { Request, Response } from 'express';
+import { IncomingHttpHeaders, request as httpRequest, Server } from 'http';
+import { AddressInfo } from 'net';
+
+import { getControllerMetadata, RouteHandlerResponse } from '../controllers';
+import { IPValidationService, JobWorkerMock } from '../services';
+import * as shared from '../shared';
+import { Task, TaskResult, TaskService } from '../taskServices';
+import IPServicesController from './ip';
+
+/**
+ * A response received by the test client
+ */
+interface ReceivedResponse {
+  status: number;
+  headers: IncomingHttpHeaders;
+  body: any;
+}
+
+/**
+ * A job in the fake queue
+ */
+interface FakeJob {
+  id: string;
+  data: Task;
+  state: 'waiting' | 'active' | 'completed' | 'failed' | 'removed';
+  returnvalue?: TaskResult;
+  getState: () => Promise<string>;
+  remove: () => Promise<void>;
+}
+
+/**
+ * Services the fake worker runs, by name
+ */
+const workerServices: { [x: string]: TaskService } = {
+  'mock-worker': new JobWorkerMock(),
+  'ip-validation': new IPValidationService()
+};
+
+const queueEvents = new EventEmitter();
+
+/**
+ * Jobs queued, by ID
+ */
+let jobs: { [x: string]: FakeJob } = {};
+
+/**
+ * Services whose jobs the fake worker leaves waiting, until told to process them
+ */
+let heldServices: string[] = [];
+
+/**
+ * Process a job like a queue worker, publishing its result as a queue event
+ */
+const processJob = async (job: FakeJob): Promise<void> => {
+  const { data: task } = job;
+  job.state = 'active';
+
+  let result: TaskResult;
+  try {
+    result = await workerServices[task.serviceName].do(task);
+  } catch (e) {
+    result = new TaskResult(task.id, task.requestId, 'fail', { issues: [e.message] });
+  }
+
+  job.state = 'completed';
+  job.returnvalue = { ...result, attempts: 1 };
+  queueEvents.emit('completed', { event: 'completed', jobId: job.id, returnvalue: job.returnvalue });
+};
+
+/**
+ * Process jobs the fake worker held
+ */
+const processHeldJobs = (): Promise<void[]> => {
+  const held = Object.values(jobs).filter(job => job.state === 'waiting');
+  heldServices = [];
+  return Promise.all(held.map(processJob));
+};
+
+/**
+ * Stands in for BullMQ's Queue, processing jobs in this process
+ */
+class FakeQueue {
+  addBulk = (bulk: { name: string; data: Task }[]): Promise<void> => {
+    bulk.forEach(({ name, data }) => {
+      const job: FakeJob = {
+        id: name,
+        data,
+        state: 'waiting',
+        getState: () => Promise.resolve(job.state),
+        remove: () => {
+          job.state = 'removed';
+          return Promise.resolve();
+        }
+      };
+      jobs[name] = job;
+
+      if (!heldServices.includes(data.serviceName)) {
+        setImmediate(() => processJob(job));
+      }
+    });
+
+    return Promise.resolve();
+  };
+
+  getJob = (id: string): Promise<FakeJob | undefined> => Promise.resolve(jobs[id]);
+}
+
+/**
+ * Messages published to Redis, as [channel, message]
+ */
+let published: string[][] = [];
+
+/**
+ * Redis hashes, standing in for stored batches
+ */
+let hashes: { [key: string]: { [field: string]: string } } = {};
+
+const hset = (key: string, fields: { [field: string]: string } | string, value?: string): void => {
+  hashes[key] = { ...hashes[key], ...(typeof fields === 'string' ? { [fields]: value || '' } : fields) };
+};
+
+const fakeRedis = {
+  // Claims find no identical tasks in flight, and abandoning leaves no other request waiting
+  eval: (script: string, keyCount: number) =>
+    Promise.resolve(script.startsWith('local jobIds') ? new Array(keyCount).fill('') : 1),
+  multi: () => {
+    const chain = {
+      hset: (key: string, fields: { [field: string]: string }) => {
+        hset(key, fields);
+        return chain;
+      },
+      expire: () => chain,
+      exec: () => Promise.resolve([])
+    };
+    return chain;
+  },
+  hset: (key: string, field: string, value: string) => Promise.resolve(hset(key, field, value)),
+  hgetall: (key: string) => Promise.resolve(hashes[key] || {}),
+  mget: (...keys: string[]) => Promise.resolve(keys.map(() => null)),
+  set: () => Promise.resolve('OK'),
+  publish: (channel: string, message: string) => Promise.resolve(published.push([channel, message]))
+};
+
+/**
+ * Send a request to the test server, resolving with its response, parsed if JSON
+ */
+const send = (
+  port: number,
+  method: string,
+  path: string,
+  body?: object,
+  headers: { [x: string]: string } = {}
+): Promise<ReceivedResponse> =>
+  new Promise((resolve, reject) => {
+    const options = { port, method, path, headers: { 'Content-Type': 'application/json', ...headers } };
+
+    const request = httpRequest(options, response => {
+      let text = '';
+      response.on('data', chunk => (text += chunk));
+      response.on('end', () => {
+        const json = (response.headers['content-type'] || '').includes('json');
+        resolve({ status: response.statusCode || 0, headers: response.headers, body: json ? JSON.parse(text) : text });
+      });
+    });
+
+    request.on('error', reject);
+    request.end(body ? JSON.stringify(body) : undefined);
+  });
+
+/**
+ * Send a request to the test server, disconnecting once a check passes, e.g. once its jobs are queued
+ */
+const sendAndDisconnect = async (
+  port: number,
+  path: string,
+  body: object,
+  check: () => boolean,
+  headers: { [x: string]: string } = {}
+): Promise<void> => {
+  const options = { port, method: 'POST', path, headers: { 'Content-Type': 'application/json', ...headers } };
+  const request = httpRequest(options);
+
+  // The request fails as it's aborted
+  request.on('error', () => undefined);
+  request.end(JSON.stringify(body));
+
+  await waitUntil(check);
+  request.destroy();
+};
+
+/**
+ * Wait until a check passes, or a second passes
+ */
+const waitUntil = async (check: () => boolean): Promise<void> => {
+  const deadline = Date.now() + 1000;
+
+  while (!check() && Date.now() < deadline) {
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+};
+
+/**
+ * Parse a Server-Sent Events stream into its events
+ */
+const parseEvents = (stream: string): { event: string; data: any }[] =>
+  stream
+    .split('\n\n')
+    .filter(Boolean)
+    .map(message => {
+      const [, event, data] = message.match(/^event: (.*)\ndata: (.*)$/) || [];
+      return { event, data: JSON.parse(data) };
+    });
+
+describe('IPServicesController', () => {
+  const { getQueueEvents, getRedisClient } = shared;
+  const { Queue } = bullmq;
+
+  let server: Server;
+  let port: number;
+
+  /**
+   * Poll a path until its response passes a check, or a second passes
+   */
+  const pollUntil = async (path: string, check: (response: ReceivedResponse) => boolean): Promise<ReceivedResponse> => {
+    const deadline = Date.now() + 1000;
+
+    for (;;) {
+      const response = await send(port, 'GET', path);
+      if (check(response) || Date.now() > deadline) {
+        return response;
+      }
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+  };
+
+  before(done => {
+    Object.assign(shared, { getQueueEvents: () => queueEvents, getRedisClient: () => fakeRedis });
+    Object.assign(bullmq, { Queue: FakeQueue });
+
+    // Mount routes as the server does
+    const app = express();
+    app.use(express.json());
+
+    const controller = new IPServicesController();
+    const handlers = (controller as unknown) as {
+      [x: string]: (request: Request, response: Response) => Promise<RouteHandlerResponse | void>;
+    };
+    const { prefix, routes } = getControllerMetadata(controller);
+
+    routes.forEach(({ path, requestType, methodName }) => {
+      app[requestType](`${prefix}${path}`, async (request: Request, response: Response) => {
+        const result = await handlers[methodName](request, response);
+
+        if (result) {
+          response.status(result.statusCode).send(result.data);
+        }
+      });
+    });
+
+    server = app.listen(0, '127.0.0.1', () => {
+      port = (server.address() as AddressInfo).port;
+      done();
+    });
+  });
+
+  after(done => {
+    server.close(() => {
+      // Resolvers stop listening to queue events just after resolving, so restore once they have
+      setTimeout(() => {
+        Object.assign(shared, { getQueueEvents, getRedisClient });
+        Object.assign(bullmq, { Queue });
+        done();
+      }, 50);
+    });
+  });
+
+  beforeEach(() => {
+    jobs = {};
+    hashes = {};
+    published = [];
+    heldServices = [];
+  });
+
+  describe('requests waiting for results', () => {
+    const body = { services: ['mock-worker', 'ip-validation'], data: { mockResult: 'done' } };
+
+    it("responds with every service's result", async () => {
+      const response = await send(port, 'POST', '/ip/192.0.2.1', body);
+
+      assert.equal(response.status, 200);
+      assert.deepEqual(response.body.services['mock-worker'], { mockResult: 'done' });
+      assert.ok(response.body.services['ip-validation']);
+      assert.equal(response.body.timedOut, undefined);
+    });
+
+    it("responds with other services' results when some time out, cancelling their jobs", async () => {
+      heldServices = ['ip-validation'];
+
+      const response = await send(port, 'POST', '/ip/192.0.2.1', body);
+
+      assert.equal(response.status, 200);
+      assert.deepEqual(response.body.services, { 'mock-worker': { mockResult: 'done' } });
+      assert.deepEqual(response.body.timedOut.services, {
+        'ip-validation': { issues: ['ip-validation timed out while processing the request.'] }
+      });
+
+      const [held] = Object.values(jobs).filter(({ data }) => data.serviceName === 'ip-validation');
+      await waitUntil(() => held.state === 'removed');
+      assert.equal(held.state, 'removed');
+    });
+
+    it('responds 504 when services time out with failOnTimeout', async () => {
+      heldServices = ['ip-validation'];
+
+      const response = await send(port, 'POST', '/ip/192.0.2.1', { ...body, failOnTimeout: true });
+
+      assert.equal(response.status, 504);
+      assert.deepEqual(response.body, { message: 'ip-validation timed out while processing the request.' });
+    });
+  });
+
+  describe('requests started without waiting', () => {
+    const body = { services: ['mock-worker', 'ip-validation'], data: { mockResult: 'done' }, wait: false };
+
+    it('responds with a URL to poll for results', async () => {
+      const response = await send(port, 'POST', '/ip/192.0.2.1', body);
+      const { requestId } = response.body;
+
+      assert.equal(response.status, 202);
+      assert.deepEqual(response.body, { requestId, status: 'pending', poll: `/ip/jobs/${requestId}` });
+    });
+
+    it('provides results so far, then all results once done', async () => {
+      heldServices = ['ip-validation'];
+
+      const started = await send(port, 'POST', '/ip/192.0.2.1', body);
+      const { poll, requestId } = started.body;
+
+      const pending = await pollUntil(poll, ({ body: batch }) => batch.services['mock-worker'].status !== 'pending');
+
+      assert.equal(pending.status, 200);
+      assert.equal(pending.body.requestId, requestId);
+      assert.equal(pending.body.status, 'pending');
+      assert.deepEqual(pending.body.services, {
+        'mock-worker': {
+          status: 'done',
+          result: { data: { mockResult: 'done' } },
+          cache: { status: 'uncached' },
+          attempts: 1
+        },
+        'ip-validation': { status: 'pending' }
+      });
+
+      await processHeldJobs();
+
+      const done = await pollUntil(poll, ({ body: batch }) => batch.status !== 'pending');
+
+      assert.equal(done.body.status, 'done');
+      assert.ok(done.body.finishedAt);
+      assert.equal(done.body.services['ip-validation'].status, 'done');
+    });
+
+    it('reports batches failing on timeout as timed out', async () => {
+      heldServices = ['ip-validation'];
+
+      const started = await send(port, 'POST', '/ip/192.0.2.1', { ...body, failOnTimeout: true });
+      const done = await pollUntil(started.body.poll, ({ body: batch }) => batch.status !== 'pending');
+
+      assert.equal(done.body.status, 'timeout');
+      assert.equal(done.body.services['ip-validation'].status, 'pending');
+    });
+
+    it("responds 404 for batches that don't exist", async () => {
+      const response = await send(port, 'GET', '/ip/jobs/missing');
+
+      assert.equal(response.status, 404);
+    });
+  });
+
+  describe('streaming requests', () => {
+    const body = { services: ['mock-worker', 'ip-validation'], data: { mockResult: 'done' } };
+    const headers = { Accept: 'text/event-stream' };
+
+    it('sends an event per service as it resolves, then a summary', async () => {
+      heldServices = ['ip-validation'];
+
+      const streamed = send(port, 'POST', '/ip/192.0.2.1', body, headers);
+
+      // The held service resolves after the other has been sent
+      setTimeout(processHeldJobs, 50);
+
+      const response = await streamed;
+      const events = parseEvents(response.body);
+
+      assert.equal(response.status, 200);
+      assert.match(response.headers['content-type'] || '', /^text\/event-stream/);
+      assert.deepEqual(
+        events.map(({ event, data }) => `${event} ${data.service || ''}`),
+        ['service mock-worker', 'service ip-validation', 'summary ']
+      );
+      assert.deepEqual(events[0].data, {
+        service: 'mock-worker',
+        status: 'done',
+        cache: { status: 'uncached' },
+        attempts: 1,
+        data: { mockResult: 'done' }
+      });
+      assert.deepEqual(Object.keys(events[2].data.services), ['mock-worker', 'ip-validation']);
+    });
+
+    it('ends with an error event when failing on timeout', async () => {
+      heldServices = ['ip-validation'];
+
+      const response = await send(port, 'POST', '/ip/192.0.2.1', { ...body, failOnTimeout: true }, headers);
+      const events = parseEvents(response.body);
+
+      assert.deepEqual(
+        events.map(({ event }) => event),
+        ['service', 'error']
+      );
+      assert.deepEqual(events[1].data, { code: 504, message: 'ip-validation timed out while processing the request.' });
+    });
+  });
+
+  describe('clients disconnecting', () => {
+    const body = { services: ['mock-worker', 'ip-validation'], data: { mockResult: 'done' } };
+
+    /**
+     * Get the job of the service whose jobs are held
+     */
+    const heldJob = (): FakeJob | undefined => Object.values(jobs).find(({ state }) => state === 'waiting');
+
+    it('removes jobs still waiting when clients disconnect', async () => {
+      heldServices = ['ip-validation'];
+      const started = Date.now();
+
+      await sendAndDisconnect(port, '/ip/192.0.2.1', body, () => !!heldJob());
+      const held = heldJob() as FakeJob;
+      await waitUntil(() => held.state === 'removed');
+
+      assert.equal(held.state, 'removed');
+      // Before the request would have timed out, abandoning the job anyway
+      assert.ok(Date.now() - started < 300);
+      assert.deepEqual(published, []);
+    });
+
+    it('signals workers to abort active jobs when clients disconnect', async () => {
+      heldServices = ['ip-validation'];
+      const started = Date.now();
+
+      await sendAndDisconnect(port, '/ip/192.0.2.1', body, () => {
+        const held = heldJob();
+        if (held) {
+          held.state = 'active';
+        }
+        return !!held;
+      });
+      const [active] = Object.values(jobs).filter(({ state }) => state === 'active');
+      await waitUntil(() => published.length > 0);
+
+      assert.deepEqual(published, [[shared.JOB_CANCEL_CHANNEL, active.id]]);
+      assert.ok(Date.now() - started < 300);
+      assert.equal(active.state, 'active');
+    });
+
+    it('stops streaming requests when clients disconnect', async () => {
+      heldServices = ['ip-validation'];
+      const started = Date.now();
+
+      await sendAndDisconnect(port, '/ip/192.0.2.1', body, () => !!heldJob(), {
+        Accept: 'text/event-stream'
+      });
+      const held = heldJob() as FakeJob;
+      await waitUntil(() => held.state === 'removed');
+
+      assert.equal(held.state, 'removed');
+      assert.ok(Date.now() - started < 300);
+    });
+  });
+});
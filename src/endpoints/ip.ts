@@ -4,18 +4,83 @@
 import { Request, Response } from 'express';
 import { JobsOptions, Queue } from 'bullmq';
 
-import { QUEUE } from '../shared';
-import { EndpointController, Endpoint, GET, POST, RouteHandlerResponse } from '../controllers';
+import { getRedisClient, JOB_CANCEL_CHANNEL, QUEUE, REQUEST_TIMEOUT_MS } from '../shared';
+import { EndpointController, Endpoint, GET, getControllerMetadata, POST, RouteHandlerResponse } from '../controllers';
 import { AvailableServiceName, AvailableServiceNames, DefaultServices } from '../services/';
-import { registeredServices, RequestId, Task } from '../taskServices';
-import RequestTaskBatchResolver from './ip/RequestTaskBatchResolver';
+import {
+  getProvidedData,
+  getServiceDependencies,
+  hasRequiredData,
+  registeredServices,
+  RequestId,
+  Task,
+  TaskResult
+} from '../taskServices';
+import RequestTaskBatchResolver, { TaskBatchResult } from './ip/RequestTaskBatchResolver';
+import RequestBatchStore from './ip/RequestBatchStore';
+import CallbackDispatcher from './ip/CallbackDispatcher';
+import ResultCache, { ResultCacheLookup, ResultCacheOptions } from './ip/ResultCache';
+import InflightTasks from './ip/InflightTasks';
+import TaskDependencyGraph from './ip/TaskDependencyGraph';
+import formatTaskBatchResult from './ip/formatTaskBatchResult';
+import { buildAddressTypeCatalogue, buildServiceCatalogue } from './ip/serviceCatalogue';
+import { doBulkTasksDocs, doTasksDocs, getJobCallbacksDocs, getJobDocs, helpDocs } from './ip/routeDocs';
 import { hashHex } from '../utils';
+import { parseAddress, registeredAddressTypes } from '../addressTypes';
+import '../addresses';
+import { isHttpUrl } from '../httpClient';
+import { DataSchema, describeDataSchema, findDataSchemaConflict, validateDataValue } from '../dataSchema';
+import { getRetryJobOptions } from '../taskRetries';
 import Debug from '../debug';
 
-const REQUEST_TIMEOUT_MS = Number(process.env.REQUEST_TIMEOUT_MS) || 10000;
-
 const debug = Debug.extend('ip:endpoint');
 
+// Most addresses a bulk request may include
+const BULK_MAX_ADDRESSES = Number(process.env.BULK_MAX_ADDRESSES) || 10000;
+// Milliseconds the server waits for a bulk request's tasks to finish before failing those left
+const BULK_REQUEST_TIMEOUT_MS = Number(process.env.BULK_REQUEST_TIMEOUT_MS) || 60000;
+// Milliseconds the server waits for tasks of requests started with `wait: false` or a `callbackUrl`
+// before failing those left; nobody's kept waiting, so longer than REQUEST_TIMEOUT_MS
+const PENDING_REQUEST_TIMEOUT_MS = Number(process.env.PENDING_REQUEST_TIMEOUT_MS) || 60000;
+
+/**
+ * Services to request for an address, and the data to pass them
+ */
+interface AddressTaskPlan {
+  addressType: string;
+  serviceTasks: AvailableServiceName[];
+  requestData: { [x: string]: any };
+}
+
+/**
+ * Request options applying to a batch's tasks
+ */
+interface TaskBatchOptions extends ResultCacheOptions {
+  // Whether any task timing out fails the request, rather than it getting other tasks' results
+  failOnTimeout: boolean;
+}
+
+/**
+ * A task started by a batch, with the job resolving it
+ */
+interface DispatchedTask {
+  task: Task;
+  // The task's own ID if it was queued, or else the ID of the identical task's job it follows
+  jobId: string;
+}
+
+/**
+ * An address in a bulk request, with its tasks and their results so far
+ */
+interface BulkAddressEntry {
+  address: string;
+  addressType?: string;
+  tasks: Task[];
+  results: TaskBatchResult;
+  // Why the address can't be processed, if it can't
+  error?: string;
+}
+
 /**
  * Hello World endpoint controller
  */
@@ -23,14 +88,60 @@ const debug = Debug.extend('ip:endpoint');
 export default class IPServicesController extends EndpointController {
   readonly #workQueue = new Queue(QUEUE.NAME, QUEUE.CONFIG);
 
+  readonly #batchStore = new RequestBatchStore();
+
+  readonly #callbackDispatcher = new CallbackDispatcher();
+
+  readonly #resultCache = new ResultCache();
+
+  readonly #inflightTasks = new InflightTasks();
+
   /**
    * Respond with API services available and instructions for their use
    *
-   * @TODO implement
+   * The service catalogue is built from @Service registrations, so it is always current.
    */
-  @GET('/')
+  @GET('/', helpDocs)
+  @GET('/help', helpDocs)
   help = (_req: Request): RouteHandlerResponse => {
-    return new RouteHandlerResponse(501, `"ip/" and "ip/help/" routes are not yet implemented`);
+    const { prefix } = getControllerMetadata(this);
+
+    return new RouteHandlerResponse(200, {
+      description: `Look up information about an address (e.g. an IP address or domain name) from any of the services below.`,
+      usage: {
+        method: 'POST',
+        path: `${prefix}/:address`,
+        params: {
+          address: `An address of any of the \`addressTypes\`, URL-encoded. Services accept only some types, per their \`addressTypes\`.`
+        },
+        body: {
+          services: `Optional. A service name or array of service names. Defaults to \`defaultServices\`. Services' \`dependsOn\` services are added as needed.`,
+          data: `Optional. Object with any data required by requested services, per their \`requiredData\` schemas. Data not meeting them is rejected with \`issues\` describing each problem.`,
+          wait: `Optional. Boolean, defaults to true. Pass false to get a 202 response with a URL to poll for results.`,
+          callbackUrl: `Optional. URL to POST signed results to when finished. Implies \`wait: false\`.`,
+          cache: `Optional. Boolean, defaults to true. Pass false to skip cached results, per services' \`cacheTTL\`.`,
+          maxAge: `Optional. Number of seconds. Cached results older than this aren't used.`,
+          failOnTimeout: `Optional. Boolean, defaults to false. Services that don't finish in time are listed under \`timedOut\`, with other services' results. Pass true to get a 504 instead.`
+        },
+        streaming: `Send \`Accept: text/event-stream\` to get each service's result as a Server-Sent Event as it resolves.`
+      },
+      bulkUsage: {
+        method: 'POST',
+        path: prefix,
+        body: {
+          addresses: `Array of up to ${BULK_MAX_ADDRESSES} addresses. Results are keyed by address, with an \`error\` for any that can't be processed.`,
+          services: `Optional. As above, for every address.`,
+          data: `Optional. As above, for every address.`,
+          cache: `Optional. As above.`,
+          maxAge: `Optional. As above.`
+        },
+        unsupported: `\`wait\`, \`callbackUrl\`, and \`failOnTimeout\` aren't supported for bulk requests: they wait, and list services that don't finish in time under \`timedOut\`.`,
+        streaming: `Send \`Accept: application/x-ndjson\` to get each address's results as a line of JSON as they resolve.`
+      },
+      addressTypes: buildAddressTypeCatalogue(),
+      defaultServices: DefaultServices,
+      services: buildServiceCatalogue(prefix, DefaultServices)
+    });
   };
 
   /**
@@ -38,8 +149,8 @@ export default class IPServicesController extends EndpointController {
    *
    * @TODO review for proper input sanitization
    */
-  @POST('/:address')
-  doTasks = async (request: Request, response: Response): Promise<RouteHandlerResponse> => {
+  @POST('/:address', doTasksDocs)
+  doTasks = async (request: Request, response: Response): Promise<RouteHandlerResponse | void> => {
     const debugRoute = debug.extend('route-get-address');
 
     const { address } = request.params;
@@ -52,139 +163,458 @@ export default class IPServicesController extends EndpointController {
       );
     }
 
-    let addressType: 'ip' | 'domain' | false = false;
-    if (this.isIPValid(address)) {
-      debugRoute(`:address param validated as ip`);
-      addressType = 'ip';
-    } else if (this.isDomainValid(address)) {
-      debugRoute(`:address param validated as domain`);
-      addressType = 'domain';
+    const { services, data, wait = true, callbackUrl, cache = true, maxAge, failOnTimeout = false } = request.body;
+
+    // Validate wait type
+    if (typeof wait !== 'boolean') {
+      return new RouteHandlerResponse(400, `request.body.wait must be a boolean.`);
+    }
+
+    // Validate failOnTimeout type
+    if (typeof failOnTimeout !== 'boolean') {
+      return new RouteHandlerResponse(400, `request.body.failOnTimeout must be a boolean.`);
+    }
+
+    // Validate data type, as its keys are passed to services alongside the address's
+    if (data !== undefined && (typeof data !== 'object' || data === null || Array.isArray(data))) {
+      return new RouteHandlerResponse(400, `request.body.data must be an object.`);
+    }
+
+    // Validate cache options
+    const cacheValidation = this.#validateCacheOptions(cache, maxAge);
+    if (cacheValidation !== true) {
+      return cacheValidation;
+    }
+
+    // Validate callbackUrl
+    if (callbackUrl !== undefined) {
+      if (typeof callbackUrl !== 'string' || !isHttpUrl(callbackUrl)) {
+        return new RouteHandlerResponse(400, `request.body.callbackUrl must be an absolute http or https URL.`);
+      }
+
+      if (!this.#callbackDispatcher.isEnabled()) {
+        return new RouteHandlerResponse(400, `request.body.callbackUrl is not supported by this server.`);
+      }
+
+      const callbackUrlIssue = await this.#callbackDispatcher.findUrlIssue(callbackUrl);
+      if (callbackUrlIssue) {
+        return new RouteHandlerResponse(400, `request.body.callbackUrl can't be used: ${callbackUrlIssue}.`);
+      }
+    }
+
+    const requestedServices = this.#parseRequestedServices(services);
+    if (requestedServices instanceof RouteHandlerResponse) {
+      return requestedServices;
+    }
+
+    const plan = this.#planAddressTasks(address, requestedServices, data);
+    if (plan instanceof RouteHandlerResponse) {
+      return plan;
+    }
+
+    // Terminology:
+    // - One "Task" per service in HTTP request.body
+    // - One "Request ID" per HTTP request, representing the tasks requested together as a batch
+
+    // Generate Request ID to associate them tasks with their batch
+    // Unique across server processes, since any of them may be asked to report on the batch
+    const requestId = hashHex(`${new Date().toISOString()}${process.pid}${Math.random()}`);
+
+    // Build tasks for the job queue, for workers on another process to consume, unless cached
+    const tasksToQueue = this.#createTasks(requestId, plan);
+    const options: TaskBatchOptions = { cache, maxAge, failOnTimeout };
+
+    /*
+       Default behavior is to wait for all services to resolve before sending response. When the
+       request body includes `wait: false` or a `callbackUrl`, send a "pending" response with a URL
+       to poll for results instead. Clients accepting `text/event-stream` get each service's result
+       streamed as it resolves.
+    */
+    if (!wait || callbackUrl) {
+      return this.#startTasks(request, response, tasksToQueue, requestId, options, callbackUrl);
+    } else if (request.accepts(['application/json', 'text/event-stream']) === 'text/event-stream') {
+      return await this.#streamTasks(request, response, tasksToQueue, requestId, options);
+    } else {
+      return await this.#waitForTasks(request, response, tasksToQueue, requestId, options);
     }
+  };
 
-    if (!addressType) {
+  /**
+   * Respond with results of processing requested services for many addresses, keyed by address
+   *
+   * Each address is validated on its own, so invalid ones get an `error` in their results, rather
+   * than failing the whole request. All addresses' tasks are queued together, and any still pending
+   * when the request times out are listed under `timedOut`. Clients accepting `application/x-ndjson` get each address's
+   * results as a line of JSON as soon as they resolve, rather than all at the end.
+   */
+  @POST('/', doBulkTasksDocs)
+  doBulkTasks = async (request: Request, response: Response): Promise<RouteHandlerResponse | void> => {
+    const debugRoute = debug.extend('route-post-bulk');
+
+    const { addresses, services, data, cache = true, maxAge } = request.body;
+
+    // Single-address request options bulk requests don't support, rejected rather than ignored
+    const unsupported = ['wait', 'callbackUrl', 'failOnTimeout'].filter(key => request.body[key] !== undefined);
+    if (unsupported.length) {
       return new RouteHandlerResponse(
         400,
-        `'address' parameter passed to /ip/<address> not a valid IP address or domain name`
+        `Bulk requests don't support ${unsupported.map(key => `request.body.${key}`).join(', ')}.`
       );
     }
 
-    const ip = addressType === 'ip' ? address : false;
-    // @TODO HIGH PRIORITY: ACT ON DOMAIN
-    const domain = addressType === 'domain' ? address : false;
+    if (
+      !Array.isArray(addresses) ||
+      !addresses.length ||
+      !addresses.every(address => typeof address === 'string' && address)
+    ) {
+      return new RouteHandlerResponse(400, `request.body.addresses must be a non-empty array of address strings.`);
+    }
 
-    const { services, data } = request.body;
+    if (addresses.length > BULK_MAX_ADDRESSES) {
+      return new RouteHandlerResponse(
+        400,
+        `request.body.addresses may include at most ${BULK_MAX_ADDRESSES} addresses.`
+      );
+    }
 
-    // Bundle validated request params with request body data
-    const requestData = {
-      ...data,
-      ip,
-      domain
-    };
+    // Validate data type, as its keys are passed to services alongside the address's
+    if (data !== undefined && (typeof data !== 'object' || data === null || Array.isArray(data))) {
+      return new RouteHandlerResponse(400, `request.body.data must be an object.`);
+    }
 
-    // Validate services type
-    if (services && typeof services !== 'string' && !Array.isArray(services)) {
-      return new RouteHandlerResponse(404, `request.body.services must be a string or an array.`);
+    const cacheValidation = this.#validateCacheOptions(cache, maxAge);
+    if (cacheValidation !== true) {
+      return cacheValidation;
     }
 
-    let serviceTasks: AvailableServiceName[];
+    const requestedServices = this.#parseRequestedServices(services);
+    if (requestedServices instanceof RouteHandlerResponse) {
+      return requestedServices;
+    }
 
-    // If no services requested, use default services
-    if (!services) {
-      debugRoute(`using default services: ${DefaultServices.toString()}`);
-      serviceTasks = DefaultServices;
+    const requestId = hashHex(`${new Date().toISOString()}${process.pid}${Math.random()}`);
+
+    // Plan each distinct address's tasks, noting why any can't be processed
+    const entries: BulkAddressEntry[] = Array.from(new Set<string>(addresses)).map((address, index) => {
+      const plan = this.#planAddressTasks(address, requestedServices, data);
+
+      if (plan instanceof RouteHandlerResponse) {
+        return { address, tasks: [], results: { services: {} }, error: plan.data.message };
+      }
+
+      return {
+        address,
+        addressType: plan.addressType,
+        tasks: this.#createTasks(requestId, plan, `${index}:`),
+        results: { services: {} }
+      };
+    });
+
+    const tasks = entries.reduce((all: Task[], entry) => all.concat(entry.tasks), []);
+
+    debugRoute(`batch ${requestId}: ${tasks.length} tasks for ${entries.length} addresses`);
+
+    // Respond with NDJSON lines as addresses finish, or collect them into one JSON response
+    const streaming = request.accepts(['application/json', 'application/x-ndjson']) === 'application/x-ndjson';
+    const results: { [x: string]: { [x: string]: any } } = {};
+
+    let clientConnected = true;
+    this.#onClientDisconnect(response, () => {
+      clientConnected = false;
+    });
+
+    if (streaming) {
+      response.status(200).set({ 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-cache' });
+      response.flushHeaders();
     }
 
-    // If services requested, validate they are all available
-    else {
-      // convert to array
-      serviceTasks = Array.isArray(services)
-        ? ((services as unknown) as AvailableServiceName[])
-        : [(services as unknown) as AvailableServiceName];
+    const sendEntry = (entry: BulkAddressEntry): void => {
+      const { address, addressType, error } = entry;
+      const result = error ? { error } : { addressType, ...formatTaskBatchResult(entry.results) };
+
+      if (!streaming) {
+        results[address] = result;
+      } else if (clientConnected) {
+        response.write(`${JSON.stringify({ address, ...result })}\n`);
+      }
+    };
+
+    entries.filter(({ tasks: entryTasks }) => !entryTasks.length).forEach(sendEntry);
 
-      debugRoute(`user-requested services: ${services.toString()}`);
+    if (tasks.length) {
+      const entriesByTaskId: { [x: string]: BulkAddressEntry } = {};
+      entries.forEach(entry => entry.tasks.forEach(({ id }) => (entriesByTaskId[id] = entry)));
 
-      let invalidServices: string[] = [];
-      serviceTasks.forEach(task => {
-        if (!AvailableServiceNames.includes(task)) {
-          invalidServices.push(task);
+      // Start listening to queue events BEFORE queuing tasks
+      const resolver = new RequestTaskBatchResolver({ requestId, tasks }, BULK_REQUEST_TIMEOUT_MS);
+
+      resolver.onTaskResult((serviceName, result) => {
+        const entry = entriesByTaskId[result.id];
+        entry.results.services[serviceName] = result;
+
+        if (Object.keys(entry.results.services).length === entry.tasks.length) {
+          sendEntry(entry);
         }
       });
-      if (invalidServices.length) {
-        const invalidString = invalidServices.toString();
-        debugRoute(`returning; requested services do not exist: ${invalidString}`);
-        return new RouteHandlerResponse(404, `Requested services do not exist: ${invalidString}`);
-      }
+
+      // Nobody's left to send results to
+      this.#onClientDisconnect(response, () => resolver.cancel('Client disconnected before services finished.'));
+
+      await this.#runTaskBatch(resolver, tasks, { cache, maxAge }, BULK_REQUEST_TIMEOUT_MS);
+
+      // Tasks still pending when the batch times out resolve as timed out, so every address gets results
+      await resolver.results();
     }
 
-    // Validate request meets data requirements for services
-    const requiredDataValidation = this.#validateRequestDataForServices(requestData, serviceTasks);
-    if (requiredDataValidation !== true) {
-      return requiredDataValidation;
+    if (streaming) {
+      response.end();
+      return;
     }
 
-    // Terminology:
-    // - One "Task" per service in HTTP request.body
-    // - One "Request ID" per HTTP request, representing the tasks requested together as a batch
+    return new RouteHandlerResponse(200, { requestId, results });
+  };
 
-    // Generate Request ID to associate them tasks with their batch
-    const requestId = hashHex(new Date().toISOString());
+  /**
+   * Respond with the status and any results so far of a batch started with `wait: false`
+   */
+  @GET('/jobs/:requestId', getJobDocs)
+  getJob = async (request: Request): Promise<RouteHandlerResponse> => {
+    const debugRoute = debug.extend('route-get-job');
 
-    // Send tasks to job queue, for workers on another process to consume
-    const tasksToQueue: Task[] = [];
-    serviceTasks.forEach((service, index) => {
-      const id = hashHex(`${requestId}${index}`);
+    const { requestId } = request.params;
 
-      const data = {
-        ip,
-        domain
+    let batch;
+    try {
+      batch = await this.#batchStore.get(requestId);
+    } catch (e) {
+      debugRoute(`failed to get batch ${requestId}: ${e}`);
+      return new RouteHandlerResponse(503, `Unable to get results for request '${requestId}'. Try again later.`);
+    }
+
+    if (!batch) {
+      debugRoute(`batch ${requestId} not found; returning 404`);
+      return new RouteHandlerResponse(404, `No request '${requestId}' found. It may have expired.`);
+    }
+
+    return new RouteHandlerResponse(200, batch);
+  };
+
+  /**
+   * Respond with the delivery log of a batch's callback, one entry per attempt
+   */
+  @GET('/jobs/:requestId/callbacks', getJobCallbacksDocs)
+  getJobCallbacks = async (request: Request): Promise<RouteHandlerResponse> => {
+    const debugRoute = debug.extend('route-get-job-callbacks');
+
+    const { requestId } = request.params;
+
+    try {
+      const deliveries = await this.#callbackDispatcher.getDeliveries(requestId);
+      return new RouteHandlerResponse(200, { requestId, deliveries });
+    } catch (e) {
+      debugRoute(`failed to get callback deliveries for batch ${requestId}: ${e}`);
+      return new RouteHandlerResponse(503, `Unable to get callbacks for request '${requestId}'. Try again later.`);
+    }
+  };
+
+  /**
+   * Queue tasks, in one round trip
+   */
+  #queueTaskBatch = (tasks: Task[]): void => {
+    const debugQueue = debug.extend('queueTasks');
+
+    if (!tasks.length) {
+      return;
+    }
+
+    debugQueue(`sending ${tasks.length} tasks to job queue`);
+
+    const jobs = tasks.map(task => {
+      const options: JobsOptions = {
+        jobId: task.id, // Override queue's default serial ID assignment
+        ...getRetryJobOptions(task.serviceName)
       };
 
-      tasksToQueue.push({
-        id,
-        requestId: requestId,
-        serviceName: service,
-        data: requestData
-      });
+      return { name: task.id, data: task, opts: options };
     });
 
-    /*
-       1.0 default behavior is to wait for all services to resolve before sending response. In the
-       future this will only happen when the request body includes `wait: true`, and the default
-       will be to send a "pending" response with a URL to poll for results.
-    */
-    // const { wait } = request.body // <— future
-    const wait = true;
+    this.#workQueue.addBulk(jobs).catch(e => {
+      debugQueue(`failed to queue tasks: ${e}`);
+    });
+  };
 
-    if (wait) {
-      return await this.#waitForTasks(request, response, tasksToQueue, requestId);
-    } else {
-      // Just a shim for now
-      return this.#startTasks(request, response, tasksToQueue);
-    }
+  /**
+   * Run a batch's tasks, starting those depending on others once their upstream tasks are done
+   *
+   * Results of queued tasks are cached, and their in-flight claims released, as they resolve. Tasks
+   * whose upstream tasks don't finish are skipped. Jobs of tasks the resolver abandons are cancelled,
+   * unless other requests still wait for them. Call after subscribing to the resolver's task results,
+   * since some tasks may resolve immediately.
+   */
+  #runTaskBatch = async (
+    resolver: RequestTaskBatchResolver,
+    tasks: Task[],
+    cacheOptions: ResultCacheOptions,
+    timeout: number = REQUEST_TIMEOUT_MS
+  ): Promise<void> => {
+    const graph = new TaskDependencyGraph(tasks);
+    const dispatched: { [x: string]: DispatchedTask } = {};
+
+    resolver.onTaskResult((_serviceName, result) => {
+      const dispatchedTask = dispatched[result.id];
+
+      // Timed-out tasks' jobs are abandoned instead, as they may still be processing
+      if (dispatchedTask && dispatchedTask.jobId === result.id && result.status !== 'timeout') {
+        this.#resultCache.store(dispatchedTask.task, result);
+        this.#inflightTasks.release(dispatchedTask.task);
+      }
+
+      const { ready, skipped } = graph.resolve(result);
+
+      skipped.forEach(resolver.resolveTask);
+
+      if (ready.length) {
+        this.#dispatchTasks(resolver, ready, dispatched, cacheOptions, timeout).catch(e => {
+          debug.extend('run-task-batch')(`failed to start tasks depending on task ${result.id}: ${e}`);
+        });
+      }
+    });
+
+    resolver.onAbandonedTasks(taskIds => {
+      taskIds
+        .filter(id => dispatched[id])
+        .forEach(id => {
+          const { task, jobId } = dispatched[id];
+          this.#abandonJob(task, jobId);
+        });
+    });
+
+    await this.#dispatchTasks(resolver, graph.getInitialTasks(), dispatched, cacheOptions, timeout);
   };
 
   /**
-   * Send a task to the queue
+   * Resolve tasks' cache hits, follow jobs of identical tasks already in flight, and queue the rest
+   *
+   * @param dispatched {object} Tasks the batch dispatched so far by ID, to add those dispatched now to
    */
-  #queueTask = (task: Task): void => {
-    const { id } = task;
+  #dispatchTasks = async (
+    resolver: RequestTaskBatchResolver,
+    tasks: Task[],
+    dispatched: { [x: string]: DispatchedTask },
+    cacheOptions: ResultCacheOptions,
+    timeout: number
+  ): Promise<void> => {
+    // Find any results cached by earlier requests, so their tasks needn't be queued
+    const cached = await this.#lookupCachedResults(tasks, cacheOptions);
+    const hitIds = new Set(cached.hits.map(({ id }) => id));
+    const tasksToClaim = tasks.filter(({ id }) => !hitIds.has(id));
+    const tasksToQueue: Task[] = [];
 
-    debug.extend('queueTask')(`queuing ${JSON.stringify(task)})`);
+    tasks.forEach(({ id }) => resolver.startTaskTimeout(id));
 
-    const options: JobsOptions = {
-      jobId: id // Override queue's default serial ID assignment
-    };
-    this.#workQueue.add(id, task, options);
+    resolver.setCacheStatuses(cached.statuses);
+    cached.hits.forEach(resolver.resolveTask);
+
+    const jobIds = await this.#inflightTasks.claim(tasksToClaim, timeout);
+
+    await Promise.all(
+      tasksToClaim.map(async (task, index) => {
+        const jobId = jobIds[index];
+
+        // The batch may have given up on the task while claiming it
+        if (!resolver.isPending(task.id)) {
+          if (jobId) {
+            this.#abandonJob(task, jobId);
+          } else if (!(await this.#inflightTasks.abandon(task, task.id))) {
+            // Other requests followed the claim meanwhile, so queue the job they wait for anyway
+            tasksToQueue.push(task);
+          }
+        } else if (jobId) {
+          dispatched[task.id] = { task, jobId };
+          resolver.followJob(task.id, jobId);
+          await this.#resolveFinishedJob(resolver, task, jobId);
+        } else {
+          dispatched[task.id] = { task, jobId: task.id };
+          tasksToQueue.push(task);
+        }
+      })
+    );
+
+    this.#queueTaskBatch(tasksToQueue);
   };
 
   /**
-   * Queue each task in an array
+   * Resolve a task following another job with that job's result, if it finished before being followed
+   *
+   * Otherwise, the resolver gets its result from queue events, like any other. Jobs not yet queued
+   * by the requests that claimed them are waited for too.
    */
-  #queueTaskBatch = (tasks: Task[]): void => {
-    debug.extend('queueTasks')(`sending tasks to job queue`);
+  #resolveFinishedJob = async (resolver: RequestTaskBatchResolver, task: Task, jobId: string): Promise<void> => {
+    const { id, requestId } = task;
+
+    try {
+      const job = await this.#workQueue.getJob(jobId);
+      const state = job ? await job.getState() : 'unknown';
+
+      if (job && state === 'completed') {
+        resolver.resolveTask({ ...(job.returnvalue as TaskResult), id, requestId });
+      } else if (job && state === 'failed') {
+        resolver.resolveTask(new TaskResult(id, requestId, 'fail', { issues: [job.failedReason] }));
+      }
+    } catch (e) {
+      debug.extend('resolve-finished-job')(`failed to get job ${jobId} followed by task ${id}: ${e}`);
+    }
+  };
+
+  /**
+   * Give up on a task's job, cancelling it unless other requests' identical tasks still wait for it
+   */
+  #abandonJob = async (task: Task, jobId: string): Promise<void> => {
+    if (await this.#inflightTasks.abandon(task, jobId)) {
+      await this.#cancelJob(jobId);
+    }
+  };
+
+  /**
+   * Cancel a job: remove it from the queue if it's still waiting, or else signal queue workers to abort it
+   *
+   * Jobs that already finished are left alone.
+   */
+  #cancelJob = async (jobId: string): Promise<void> => {
+    const debugCancel = debug.extend('cancel-job');
 
-    tasks.forEach(task => {
-      this.#queueTask(task);
+    try {
+      const job = await this.#workQueue.getJob(jobId);
+      const state = job ? await job.getState() : 'unknown';
+
+      if (job && (state === 'waiting' || state === 'delayed')) {
+        try {
+          await job.remove();
+          debugCancel(`removed ${state} job ${jobId}`);
+          return;
+        } catch (e) {
+          // A worker took the job meanwhile, so it's locked
+          debugCancel(`failed to remove job ${jobId}, so signalling it: ${e}`);
+        }
+      } else if (state !== 'active') {
+        return;
+      }
+
+      await getRedisClient().publish(JOB_CANCEL_CHANNEL, jobId);
+      debugCancel(`signalled active job ${jobId}`);
+    } catch (e) {
+      debugCancel(`failed to cancel job ${jobId}: ${e}`);
+    }
+  };
+
+  /**
+   * Call a listener if the client disconnects before its response is sent
+   */
+  #onClientDisconnect = (response: Response, listener: () => void): void => {
+    response.on('close', () => {
+      if (!response.writableFinished) {
+        listener();
+      }
     });
   };
 
@@ -197,19 +627,23 @@ export default class IPServicesController extends EndpointController {
     request: Request,
     response: Response,
     tasks: Task[],
-    requestId: RequestId
+    requestId: RequestId,
+    options: TaskBatchOptions
   ): Promise<RouteHandlerResponse> => {
     // Start listening to queue events BEFORE queuing tasks
     const resolver = new RequestTaskBatchResolver(
       {
         requestId,
-        tasks
+        tasks,
+        failOnTimeout: options.failOnTimeout
       },
       REQUEST_TIMEOUT_MS
     );
 
+    this.#onClientDisconnect(response, () => resolver.cancel('Client disconnected before services finished.'));
+
     // Now we can safely queue, knowing we won't miss any notifications
-    this.#queueTaskBatch(tasks);
+    await this.#runTaskBatch(resolver, tasks, options);
 
     const results = await resolver.results();
 
@@ -219,73 +653,377 @@ export default class IPServicesController extends EndpointController {
       return new RouteHandlerResponse(code, message);
     }
 
-    // @TODO implement escaping of JSON output for API!
-    const cleanResults: {
-      services?: { [x: string]: any };
-      failed?: { meta: string; services: { [x: string]: any } };
-      rejected?: { meta: string; services: { [x: string]: any } };
-    } = {};
-    Object.keys(results.services).forEach(service => {
-      const { status, result } = results.services[service];
-      const { data } = result;
-
-      switch (status) {
-        case 'fail':
-          cleanResults.failed = cleanResults.failed || {
-            meta: `Services that failed due to an issue with an upstream provider.`,
-            services: {}
-          };
-
-          cleanResults.failed.services[service] = result;
-          break;
-
-        // Note: validateRequestDataForServices() should prevent invalid data for services, so 'reject'
-        // indicates a bug in our attempts to not get to this branch... Still a good safeguard though.
-        case 'reject':
-          cleanResults.rejected = cleanResults.rejected || {
-            meta: `Services that rejected the request. This is likely due to not including data required by the service in the request.`,
-            services: {}
-          };
-
-          cleanResults.rejected.services[service] = result;
-          break;
-
-        case 'done':
-          cleanResults.services = cleanResults.services || {};
-          cleanResults.services[service] = data;
-          break;
-
-        default:
-          throw new Error(`service ${service} passed by resolver with invalid status ${status}`);
+    return new RouteHandlerResponse(200, formatTaskBatchResult(results));
+  };
+
+  /**
+   * Queue tasks and stream their results to the client as Server-Sent Events
+   *
+   * Sends one "service" event per task as it resolves, then a final "summary" event with the same
+   * results a waiting request gets (or an "error" event if the batch times out), then ends the
+   * response. Responds directly, so returns nothing for the route handler to send.
+   */
+  #streamTasks = async (
+    request: Request,
+    response: Response,
+    tasks: Task[],
+    requestId: RequestId,
+    options: TaskBatchOptions
+  ): Promise<void> => {
+    const debugStream = debug.extend('stream-tasks');
+
+    let clientConnected = true;
+    this.#onClientDisconnect(response, () => {
+      debugStream(`client disconnected from batch ${requestId} stream`);
+      clientConnected = false;
+    });
+
+    const sendEvent = (event: string, data: { [x: string]: any }): void => {
+      if (clientConnected) {
+        response.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      }
+    };
+
+    response.status(200).set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive'
+    });
+    response.flushHeaders();
+
+    // Start listening to queue events BEFORE queuing tasks
+    const resolver = new RequestTaskBatchResolver(
+      { requestId, tasks, failOnTimeout: options.failOnTimeout },
+      REQUEST_TIMEOUT_MS
+    );
+
+    resolver.onTaskResult((serviceName, result) => {
+      const { status, result: resultData, cache, attempts } = result;
+      sendEvent('service', { service: serviceName, status, cache, attempts, ...resultData });
+    });
+
+    this.#onClientDisconnect(response, () => resolver.cancel('Client disconnected before services finished.'));
+
+    await this.#runTaskBatch(resolver, tasks, options);
+
+    const results = await resolver.results();
+
+    if ('error' in results) {
+      sendEvent('error', results.error);
+    } else {
+      sendEvent('summary', formatTaskBatchResult(results));
+    }
+
+    debugStream(`ending batch ${requestId} stream`);
+    response.end();
+  };
+
+  /**
+   * Queue tasks and send a "pending" response with URL to poll for results
+   *
+   * Results are stored as each task resolves, so the counterpart '/jobs/:requestId' route can
+   * provide them from any server process. If passed a callback URL, final results are also POSTed
+   * there once the batch finishes or times out.
+   */
+  #startTasks = async (
+    _request: Request,
+    _response: Response,
+    tasks: Task[],
+    requestId: RequestId,
+    options: TaskBatchOptions,
+    callbackUrl?: string
+  ): Promise<RouteHandlerResponse> => {
+    const debugStart = debug.extend('start-tasks');
+
+    try {
+      await this.#batchStore.create({ requestId, tasks }, PENDING_REQUEST_TIMEOUT_MS);
+    } catch (e) {
+      debugStart(`failed to store batch ${requestId}: ${e}`);
+      return new RouteHandlerResponse(503, `Unable to start processing the request. Try again later.`);
+    }
+
+    // Start listening to queue events BEFORE queuing tasks
+    const resolver = new RequestTaskBatchResolver(
+      { requestId, tasks, failOnTimeout: options.failOnTimeout },
+      PENDING_REQUEST_TIMEOUT_MS
+    );
+
+    resolver.onTaskResult((serviceName, result) => {
+      this.#batchStore.setTaskResult(requestId, serviceName, result).catch(e => {
+        debugStart(`failed to store ${serviceName} result for batch ${requestId}: ${e}`);
+      });
+    });
+
+    await this.#runTaskBatch(resolver, tasks, options, PENDING_REQUEST_TIMEOUT_MS);
+
+    resolver
+      .results()
+      .then(results => {
+        if (callbackUrl) {
+          const payload =
+            'error' in results
+              ? { requestId, status: 'timeout', error: results.error }
+              : { requestId, status: 'done', ...formatTaskBatchResult(results) };
+
+          this.#callbackDispatcher.dispatch(requestId, callbackUrl, payload);
+        }
+
+        return this.#batchStore.finish(requestId, 'error' in results ? 'timeout' : 'done');
+      })
+      .catch(e => {
+        debugStart(`failed to finish batch ${requestId}: ${e}`);
+      });
+
+    const { prefix } = getControllerMetadata(this);
+
+    return new RouteHandlerResponse(202, {
+      requestId,
+      status: 'pending',
+      poll: `${prefix}/jobs/${requestId}`
+    });
+  };
+
+  /**
+   * Validate request.body cache options
+   */
+  #validateCacheOptions = (cache: any, maxAge: any): true | RouteHandlerResponse => {
+    if (typeof cache !== 'boolean') {
+      return new RouteHandlerResponse(400, `request.body.cache must be a boolean.`);
+    }
+
+    if (maxAge !== undefined && (typeof maxAge !== 'number' || !(maxAge >= 0))) {
+      return new RouteHandlerResponse(400, `request.body.maxAge must be a non-negative number of seconds.`);
+    }
+
+    return true;
+  };
+
+  /**
+   * Validate request.body.services names available services, and convert to an array
+   *
+   * Returns undefined if no services were requested, so defaults apply.
+   */
+  #parseRequestedServices = (services: any): AvailableServiceName[] | undefined | RouteHandlerResponse => {
+    const debugParse = debug.extend('parse-requested-services');
+
+    if (!services) {
+      return undefined;
+    }
+
+    // Validate services type
+    if (typeof services !== 'string' && !Array.isArray(services)) {
+      return new RouteHandlerResponse(404, `request.body.services must be a string or an array.`);
+    }
+
+    // convert to array
+    const serviceTasks: AvailableServiceName[] = Array.isArray(services) ? services : [services];
+
+    debugParse(`user-requested services: ${services.toString()}`);
+
+    // Validate they are all available
+    let invalidServices: string[] = [];
+    serviceTasks.forEach(task => {
+      if (!AvailableServiceNames.includes(task)) {
+        invalidServices.push(task);
       }
     });
+    if (invalidServices.length) {
+      const invalidString = invalidServices.toString();
+      debugParse(`returning; requested services do not exist: ${invalidString}`);
+      return new RouteHandlerResponse(404, `Requested services do not exist: ${invalidString}`);
+    }
 
-    return new RouteHandlerResponse(200, cleanResults);
+    return serviceTasks;
   };
 
   /**
-   * Shim for future default behavior
+   * Recognize an address, and plan the services to request for it with what data
    *
-   * Send a "pending" response with URL to poll for results. A new counterpart '/job/:job' route
-   * will provide results.
+   * @param address {string} The address to request services for
+   * @param requestedServices {AvailableServiceName[]} Services requested, or undefined for defaults
+   * @param data {object} request.body.data
+   */
+  #planAddressTasks = (
+    address: string,
+    requestedServices: AvailableServiceName[] | undefined,
+    data: { [x: string]: any } | undefined
+  ): AddressTaskPlan | RouteHandlerResponse => {
+    const debugPlan = debug.extend('plan-address-tasks');
+
+    // Recognize the address as one of the registered address types (see src/addresses/), whose data
+    // is passed to services in canonical form, e.g. IPs per RFC 5952, and domains in ASCII
+    const parsedAddress = parseAddress(address);
+
+    if (!parsedAddress) {
+      debugPlan(`address not a recognized address type; returning 400`);
+      return new RouteHandlerResponse(
+        400,
+        `'${address}' is not a recognized address. Accepted types: ${registeredAddressTypes
+          .map(({ name }) => name)
+          .join(', ')}. URLs and CIDR blocks in paths must be URL-encoded.`
+      );
+    }
+
+    const { type: addressType, data: addressData } = parsedAddress;
+    debugPlan(`address validated as ${addressType}`);
+
+    // Bundle validated request params with request body data
+    // Only data extracted from the address is included, so services requiring other address data
+    // find it missing, rather than present with the wrong type
+    const requestData: { [x: string]: any } = {
+      ...data,
+      ...addressData
+    };
+
+    let serviceTasks: AvailableServiceName[];
+
+    // If no services requested, use default services accepting the address type, that the request
+    // has required data for, e.g. skip domain-only services for an IP address
+    if (!requestedServices) {
+      serviceTasks = DefaultServices.filter(
+        service => this.#acceptsAddressType(service, addressType) && hasRequiredData(service, addressType, requestData)
+      );
+      debugPlan(`using default services: ${serviceTasks.toString()}`);
+
+      if (!serviceTasks.length) {
+        return new RouteHandlerResponse(
+          400,
+          `None of the default services can process this request. Specify services in request.body.services.`
+        );
+      }
+    }
+
+    // If services requested, validate they all accept the address type
+    else {
+      serviceTasks = requestedServices;
+
+      const mismatchedServices = serviceTasks.filter(service => !this.#acceptsAddressType(service, addressType));
+      if (mismatchedServices.length) {
+        debugPlan(`returning; requested services don't accept ${addressType} addresses`);
+        return new RouteHandlerResponse(
+          400,
+          `Requested services don't accept ${addressType} addresses: ${mismatchedServices
+            .map(service => `${service} (accepts ${this.#getAddressTypes(service).join(', ')})`)
+            .join('; ')}`
+        );
+      }
+    }
+
+    // Add services the planned ones depend on, so their results can be passed downstream
+    serviceTasks = this.#withDependencies(serviceTasks, addressType, requestData);
+
+    // Validate request meets data requirements for services
+    const requiredDataValidation = this.#validateRequestDataForServices(requestData, serviceTasks, addressType);
+    if (requiredDataValidation !== true) {
+      return requiredDataValidation;
+    }
+
+    return { addressType, serviceTasks, requestData };
+  };
+
+  /**
+   * Create one task per service planned for an address
+   *
+   * Tasks depending on others list their IDs in `dependsOn`, in the order of their services' dependencies.
    *
-   * @TODO implement
+   * @param requestId {RequestId} The batch the tasks belong to
+   * @param plan {AddressTaskPlan} The address's planned services and data
+   * @param salt {string} Distinguishes tasks' IDs from those of other addresses in the batch, if any
+   */
+  #createTasks = (requestId: RequestId, plan: AddressTaskPlan, salt: string = ''): Task[] => {
+    const { addressType, serviceTasks, requestData } = plan;
+    const taskIds = serviceTasks.map((_service, index) => hashHex(`${requestId}${salt}${index}`));
+
+    return serviceTasks.map((service, index) => {
+      const task: Task = {
+        id: taskIds[index],
+        requestId,
+        serviceName: service,
+        addressType,
+        data: requestData
+      };
+
+      const dependsOn = getServiceDependencies(service, addressType, requestData).map(
+        dependency => taskIds[serviceTasks.indexOf(dependency.service as AvailableServiceName)]
+      );
+      if (dependsOn.length) {
+        task.dependsOn = dependsOn;
+      }
+
+      return task;
+    });
+  };
+
+  /**
+   * Add services that planned services depend on for a request, each before its dependents
    */
-  #startTasks = (_request: Request, _response: Response, _tasks: Task[]): Promise<RouteHandlerResponse> => {
-    return Promise.resolve(new RouteHandlerResponse(500, `'wait' option not yet implemented`));
+  #withDependencies = (
+    serviceTasks: AvailableServiceName[],
+    addressType: string,
+    requestData: { [x: string]: any }
+  ): AvailableServiceName[] => {
+    const planned: AvailableServiceName[] = [];
+
+    const plan = (service: AvailableServiceName): void => {
+      if (planned.includes(service)) {
+        return;
+      }
+
+      getServiceDependencies(service, addressType, requestData).forEach(dependency =>
+        plan(dependency.service as AvailableServiceName)
+      );
+      planned.push(service);
+    };
+
+    serviceTasks.forEach(plan);
+
+    return planned;
   };
 
   /**
-   * Validate request includes data required by all requested service
+   * Find any results cached by earlier requests, treating cache errors as misses
+   */
+  #lookupCachedResults = async (tasks: Task[], options: ResultCacheOptions): Promise<ResultCacheLookup> => {
+    try {
+      return await this.#resultCache.lookup(tasks, options);
+    } catch (e) {
+      debug.extend('lookup-cached-results')(`failed to look up cached results: ${e}`);
+      return { statuses: {}, hits: [] };
+    }
+  };
+
+  /**
+   * Get the address types a service accepts
+   */
+  #getAddressTypes = (serviceName: string): string[] => {
+    const registeredService = registeredServices.find(item => item.name === serviceName);
+
+    return registeredService ? registeredService.addressTypes : [];
+  };
+
+  /**
+   * Whether a service accepts addresses of a type
+   */
+  #acceptsAddressType = (serviceName: string, addressType: string): boolean =>
+    this.#getAddressTypes(serviceName).includes(addressType);
+
+  /**
+   * Validate request data meets the `requiredData` schemas of all requested services
+   *
+   * Services requiring a data key in ways no one value could meet, e.g. as different types, conflict;
+   * otherwise the data is validated against each service's schema. Issues name the services they're
+   * for, so clients can tell which to fix the data for, or leave out.
    */
   #validateRequestDataForServices = (
     requestData: { [x: string]: any },
-    serviceTasks: string[]
+    serviceTasks: string[],
+    addressType: string
   ): true | RouteHandlerResponse => {
     const debugValidate = debug.extend('validate-request-data-for-services');
 
-    // Begin building a requirements map from registered services
-    let requirements: { [x: string]: { [x: string]: string[] } } = {};
+    // Build a map of required data keys to the schemas each service requires them to meet, e.g.
+    // `{ ports: { reachability: { type: 'array', ... } } }`
+    const requirements: { [x: string]: { [x: string]: DataSchema } } = {};
     // ... one required service at a time
     for (const requiredService of serviceTasks) {
       const registeredService = registeredServices.find(item => item.name === requiredService);
@@ -299,87 +1037,68 @@ export default class IPServicesController extends EndpointController {
         );
       }
 
-      const { name, requiredData } = registeredService;
+      const { name, requiredData = {} } = registeredService;
 
-      if (!requiredData) {
-        continue;
-      }
+      // Data provided by the service's dependencies is added once they finish, so needn't be requested
+      const providedData = getProvidedData(name, addressType, requestData);
 
-      // Build a map of required data keys, whose values are an array of shapes that services
-      // expect. It's possible for different services to require a different shape from the same
-      // key, so build a map of possible conflicts. It'll have the following shape:
-      // ```
-      // {
-      //   /* keys at this level are required by services to exist in request.body. */
-      //   id: {
-      //     /* keys at this level represent expected type for the data. */
-      //     string: [
-      //        /* in this example, these two are compatible; they have the same expectation. */
-      //       'someServiceName',
-      //       'someOtherServiceName'
-      //     ],
-      //     /* ... but the key can't have both a string and a boolean shape */
-      //     boolean: [ 'someConflictingService' ]
-      //   },
-      //  ... more keys ...
-      // }
-      // ```
-      Object.keys(requiredData).forEach(key => {
-        // e.g. { id: {} }
-        requirements[key] = requirements[key] || {};
-        // e.g. { id: { string: [] } }
-        requirements[key][requiredData[key]] = requirements[key][requiredData[key]] || [];
-        // e.g. { id: { string: [ 'someService' ] } }
-        requirements[key][requiredData[key]].push(name);
-      });
-    } // end for loop over required services
+      Object.keys(requiredData)
+        .filter(key => !providedData.includes(key))
+        .forEach(key => {
+          requirements[key] = requirements[key] || {};
+          requirements[key][name] = requiredData[key];
+        });
+    }
 
     debugValidate(`requirements map: ${JSON.stringify(requirements)}`);
 
-    // We can't resolve any requirement conflicts present in the map we just built.
-    // So, detect and report any conflicts to the user.
+    // We can't resolve conflicting requirements, so describe each to the user
     const requirementConflicts: string[] = [];
     Object.keys(requirements).forEach(key => {
-      if (Object.keys(requirements[key]).length > 1) {
-        // @TODO actually build strings describing each conflict for helpful output below
-        requirementConflicts.push('issue'); // TEMP
-      }
+      const services = Object.keys(requirements[key]);
+
+      services.forEach((service, index) => {
+        services.slice(index + 1).forEach(otherService => {
+          const schema = requirements[key][service];
+          const otherSchema = requirements[key][otherService];
+          const conflict = findDataSchemaConflict(schema, otherSchema);
+
+          if (conflict) {
+            requirementConflicts.push(
+              `${service} and ${otherService} require \`${key}\` with ${conflict}: ${describeDataSchema(
+                schema
+              )} for ${service}, but ${describeDataSchema(otherSchema)} for ${otherService}`
+            );
+          }
+        });
+      });
     });
     if (requirementConflicts.length) {
-      // @TODO Use `issues` strings to be more helpful
-      return new RouteHandlerResponse(
-        400,
-        `The services you've requested have different request body data requirements. To resolve this, send multiple requests, each with services that have compatible data requirements.`
-      );
+      return new RouteHandlerResponse(400, {
+        message: `The services you've requested have conflicting request body data requirements. To resolve this, send multiple requests, each with services that have compatible data requirements. ${requirementConflicts.join(
+          '; '
+        )}`,
+        issues: requirementConflicts
+      });
     }
 
-    // Now validate that request.body data meets mapped requirements
-    const providedKeys = Object.keys(requestData);
-    const missingDataIssues: string[] = [];
+    // Now validate request data meets each service's requirements, merging services with the same issue
+    const issueServices: { [x: string]: string[] } = {};
     Object.keys(requirements).forEach(key => {
-      if (!providedKeys.includes(key)) {
-        // @TODO improve this by naming the services
-        missingDataIssues.push(`${key} is missing from your request body but is required for some requested services.`);
-      } else {
-        /*
-        @TODO BUGFIX: Implementation can result in response message, "'ip' in your request body has
-                      type 'boolean', but is required to have type 'string'.", when passed a valid
-                      domain & no IP. Two bugs:
-                        1. We should be fine with EITHER valid IP or domain.
-                        2. The 'boolean' type here is because ip===false, which should've triggered error
-                           in the previous block. This fix will be higher up: omit missing members, instead of setting them to false, before passing requestData.
-         */
-        const providedType = typeof requestData[key];
-        const requiredType = Object.keys(requirements[key])[0];
-        if (providedType !== requiredType) {
-          missingDataIssues.push(
-            `'${key}' in your request body has type '${providedType}', but is required to have type '${requiredType}'.`
-          );
-        }
-      }
+      Object.keys(requirements[key]).forEach(service => {
+        validateDataValue(requestData[key], requirements[key][service], key).forEach(issue => {
+          issueServices[issue] = (issueServices[issue] || []).concat(service);
+        });
+      });
     });
-    if (missingDataIssues.length) {
-      return new RouteHandlerResponse(400, `${missingDataIssues.join('\n ')}`);
+
+    const dataIssues = Object.keys(issueServices).map(issue => `${issue} (for ${issueServices[issue].join(', ')})`);
+    if (dataIssues.length) {
+      debugValidate(`returning; request data issues: ${JSON.stringify(dataIssues)}`);
+      return new RouteHandlerResponse(400, {
+        message: `Request data doesn't meet requested services' requirements: ${dataIssues.join('; ')}`,
+        issues: dataIssues
+      });
     }
 
     return true;
@@ -0,0 +1,149 @@
+import { strict as assert } from 'assert';
+import { createHmac } from 'crypto';
+import { createServer, IncomingHttpHeaders, Server } from 'http';
+import { AddressInfo } from 'net';
+
+import * as shared from '../../shared';
+import CallbackDispatcher, { SIGNATURE_HEADER, signPayload, TIMESTAMP_HEADER } from './CallbackDispatcher';
+
+/**
+ * A request received by the test server
+ */
+interface ReceivedRequest {
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+/**
+ * Redis lists, standing in for the delivery log
+ */
+const lists: { [key: string]: string[] } = {};
+
+const fakeRedis = {
+  multi: () => {
+    const chain = {
+      rpush: (key: string, value: string) => {
+        lists[key] = [...(lists[key] || []), value];
+        return chain;
+      },
+      expire: () => chain,
+      exec: () => Promise.resolve([])
+    };
+    return chain;
+  },
+  lrange: (key: string) => Promise.resolve(lists[key] || [])
+};
+
+describe('CallbackDispatcher', () => {
+  const { getRedisClient } = shared;
+  const dispatcher = new CallbackDispatcher();
+
+  let server: Server;
+  let url: string;
+  let received: ReceivedRequest[];
+  // Status codes to respond with, in turn; 200 once they run out
+  let statusCodes: number[];
+
+  before(done => {
+    Object.assign(shared, { getRedisClient: () => fakeRedis });
+
+    server = createServer((request, response) => {
+      let body = '';
+      request.on('data', chunk => (body += chunk));
+      request.on('end', () => {
+        received.push({ headers: request.headers, body });
+        response.statusCode = statusCodes.shift() || 200;
+        response.end();
+      });
+    });
+
+    server.listen(0, '127.0.0.1', () => {
+      url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/callback`;
+      done();
+    });
+  });
+
+  after(done => {
+    Object.assign(shared, { getRedisClient });
+    server.close(done);
+  });
+
+  beforeEach(() => {
+    received = [];
+    statusCodes = [];
+  });
+
+  describe('signPayload', () => {
+    it('signs the timestamp and payload with HMAC-SHA256', () => {
+      const expected = createHmac('sha256', 'secret').update('1600000000.{"a":1}').digest('hex');
+
+      assert.equal(signPayload('{"a":1}', 1600000000, 'secret'), `sha256=${expected}`);
+    });
+
+    it('signs differently for other timestamps, so old signatures are useless for new ones', () => {
+      assert.notEqual(signPayload('{"a":1}', 1600000000, 'secret'), signPayload('{"a":1}', 1600000001, 'secret'));
+    });
+  });
+
+  describe('dispatch', () => {
+    it('POSTs the payload as JSON, signed with the configured secret', async () => {
+      assert.equal(dispatcher.isEnabled(), true);
+      assert.equal(
+        await dispatcher.dispatch('request-signed', url, { requestId: 'request-signed', status: 'done' }),
+        true
+      );
+
+      assert.equal(received.length, 1);
+      const [{ headers, body }] = received;
+      const timestamp = Number(headers[TIMESTAMP_HEADER.toLowerCase()]);
+
+      assert.deepEqual(JSON.parse(body), { requestId: 'request-signed', status: 'done' });
+      assert.equal(headers['content-type'], 'application/json');
+      assert.equal(headers[SIGNATURE_HEADER.toLowerCase()], signPayload(body, timestamp, 'test-secret'));
+      assert.ok(Math.abs(timestamp - Date.now() / 1000) < 60);
+    });
+
+    it('retries non-2xx responses, logging each attempt', async () => {
+      statusCodes = [500, 502];
+
+      assert.equal(await dispatcher.dispatch('request-retried', url, { requestId: 'request-retried' }), true);
+      assert.equal(received.length, 3);
+
+      const deliveries = await dispatcher.getDeliveries('request-retried');
+
+      assert.deepEqual(
+        deliveries.map(({ attempt, delivered, statusCode }) => ({ attempt, delivered, statusCode })),
+        [
+          { attempt: 1, delivered: false, statusCode: 500 },
+          { attempt: 2, delivered: false, statusCode: 502 },
+          { attempt: 3, delivered: true, statusCode: 200 }
+        ]
+      );
+      assert.ok(deliveries.every(delivery => delivery.url === url));
+    });
+
+    it('gives up after the configured attempts', async () => {
+      statusCodes = [503, 503, 503, 503];
+
+      assert.equal(await dispatcher.dispatch('request-failed', url, { requestId: 'request-failed' }), false);
+      assert.equal(received.length, 3);
+      assert.equal((await dispatcher.getDeliveries('request-failed')).length, 3);
+    });
+
+    it('retries network errors', async () => {
+      const unreachable = await new Promise<string>(resolve => {
+        const closed = createServer().listen(0, '127.0.0.1', () => {
+          const { port } = closed.address() as AddressInfo;
+          closed.close(() => resolve(`http://127.0.0.1:${port}/`));
+        });
+      });
+
+      assert.equal(await dispatcher.dispatch('request-unreachable', unreachable, {}), false);
+
+      const deliveries = await dispatcher.getDeliveries('request-unreachable');
+
+      assert.equal(deliveries.length, 3);
+      assert.ok(deliveries.every(({ delivered, error }) => !delivered && /ECONNREFUSED/.test(error || '')));
+    });
+  });
+});
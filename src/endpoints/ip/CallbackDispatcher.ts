@@ -0,0 +1,210 @@
+/**
+ * Utility that POSTs finished request batches' results to client-provided callback URLs
+ */
+
+import { createHmac } from 'crypto';
+import { isIP } from 'net';
+import { URL } from 'url';
+
+import { httpRequest } from '../../httpClient';
+import {
+  describeNonGlobalAddress,
+  describeNonGlobalHost,
+  lookupGlobalAddress,
+  NonGlobalAddressError
+} from '../../ipClassification';
+import { getRedisClient, redisKey } from '../../shared';
+import { RequestId } from '../../taskServices';
+import Debug from '../../debug';
+
+// extension reflects subordination to IPServicesController
+const debug = Debug.extend('ip:endpoint:callback-dispatcher');
+
+// Shared secret for signing callback payloads. Callbacks are unavailable without one.
+const CALLBACK_SECRET = process.env.CALLBACK_SECRET || '';
+// Total delivery attempts, including the first
+const CALLBACK_MAX_ATTEMPTS = Number(process.env.CALLBACK_MAX_ATTEMPTS) || 5;
+// Delay before the first retry; doubles for each retry after that
+const CALLBACK_BACKOFF_MS = Number(process.env.CALLBACK_BACKOFF_MS) || 1000;
+// Milliseconds to wait for each attempt's response
+const CALLBACK_TIMEOUT_MS = Number(process.env.CALLBACK_TIMEOUT_MS) || 5000;
+// Seconds to keep delivery logs available
+const CALLBACK_LOG_TTL_S = Number(process.env.CALLBACK_LOG_TTL_S) || 86400;
+// Set to 'true' to allow callbacks to private, loopback, and other non-global addresses, e.g. on internal deployments
+const CALLBACK_ALLOW_PRIVATE_URLS = process.env.CALLBACK_ALLOW_PRIVATE_URLS === 'true';
+
+/**
+ * Request header with the payload signature, formatted `sha256=<hex digest>`
+ */
+export const SIGNATURE_HEADER = 'X-Micro-Micro-Signature';
+
+/**
+ * Request header with the Unix timestamp (seconds) included in the signature
+ */
+export const TIMESTAMP_HEADER = 'X-Micro-Micro-Timestamp';
+
+/**
+ * A logged attempt to deliver a callback
+ */
+export interface CallbackDelivery {
+  attempt: number;
+  url: string;
+  timestamp: string;
+  // Whether the callback URL responded with a 2xx status
+  delivered: boolean;
+  statusCode?: number;
+  error?: string;
+  // Whether the URL's host isn't global, so the callback wasn't sent, and won't be retried
+  refused?: boolean;
+}
+
+/**
+ * Sign a payload for a given timestamp
+ *
+ * The signed string is `<timestamp>.<payload>`, so receivers can reject replayed callbacks by
+ * checking the timestamp header in addition to the signature.
+ */
+export const signPayload = (payload: string, timestamp: number, secret: string = CALLBACK_SECRET): string =>
+  `sha256=${createHmac('sha256', secret).update(`${timestamp}.${payload}`).digest('hex')}`;
+
+/**
+ * Build the Redis list key for a batch's callback delivery log
+ */
+const deliveryLogKey = (requestId: RequestId): string => redisKey('requests', requestId, 'callbacks');
+
+/**
+ * Delivers callbacks, retrying with exponential backoff on non-2xx responses and network errors
+ *
+ * Every attempt is logged to Redis, so any server process can report on deliveries.
+ *
+ * Callback URLs must be on global addresses, so requests can't have the server POST to internal
+ * hosts, unless CALLBACK_ALLOW_PRIVATE_URLS is set. URLs are checked when requests are validated,
+ * and again as each attempt connects, so hosts re-resolving to internal addresses are refused too.
+ *
+ * @TODO retries are scheduled in-process; persist pending deliveries to survive process restarts
+ */
+export default class CallbackDispatcher {
+  /**
+   * Whether callbacks can be signed, and thus sent
+   */
+  isEnabled = (): boolean => !!CALLBACK_SECRET;
+
+  /**
+   * Describe why callbacks can't be sent to a URL, if its host isn't global or doesn't resolve
+   */
+  findUrlIssue = async (url: string): Promise<string | null> => {
+    if (CALLBACK_ALLOW_PRIVATE_URLS) {
+      return null;
+    }
+
+    const { hostname } = new URL(url);
+
+    try {
+      const nonGlobal = await describeNonGlobalHost(hostname);
+      return nonGlobal && `${nonGlobal}; callbacks are only sent to globally reachable addresses`;
+    } catch (e) {
+      return `${hostname} doesn't resolve (${e.code || e.message})`;
+    }
+  };
+
+  /**
+   * POST a signed payload to a callback URL, retrying until delivered or out of attempts
+   *
+   * Resolves with whether the payload was delivered; never rejects.
+   */
+  dispatch = async (requestId: RequestId, url: string, payload: { [x: string]: any }): Promise<boolean> => {
+    const debugDispatch = debug.extend('dispatch');
+    const body = JSON.stringify(payload);
+
+    for (let attempt = 1; attempt <= CALLBACK_MAX_ATTEMPTS; attempt++) {
+      const delivery = await this.#attempt(url, body, attempt);
+
+      debugDispatch(`batch ${requestId} callback attempt ${attempt}: ${JSON.stringify(delivery)}`);
+
+      await this.#logDelivery(requestId, delivery);
+
+      if (delivery.delivered) {
+        return true;
+      }
+
+      if (delivery.refused) {
+        break;
+      }
+
+      if (attempt < CALLBACK_MAX_ATTEMPTS) {
+        const delay = CALLBACK_BACKOFF_MS * 2 ** (attempt - 1);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+
+    debugDispatch(`batch ${requestId} callback undeliverable after ${CALLBACK_MAX_ATTEMPTS} attempts`);
+    return false;
+  };
+
+  /**
+   * Get a batch's callback delivery log, oldest attempt first
+   */
+  getDeliveries = async (requestId: RequestId): Promise<CallbackDelivery[]> => {
+    const entries = await getRedisClient().lrange(deliveryLogKey(requestId), 0, -1);
+
+    return entries.map(entry => JSON.parse(entry));
+  };
+
+  /**
+   * Make a single delivery attempt
+   */
+  #attempt = async (url: string, body: string, attempt: number): Promise<CallbackDelivery> => {
+    const timestamp = Math.floor(Date.now() / 1000);
+    const delivery: CallbackDelivery = {
+      attempt,
+      url,
+      timestamp: new Date().toISOString(),
+      delivered: false
+    };
+
+    // Hostnames are checked as they're resolved to connect (see lookupGlobalAddress); IPs aren't
+    // looked up, so are checked here
+    const host = new URL(url).hostname.replace(/^\[(.*)\]$/, '$1');
+    const nonGlobal = !CALLBACK_ALLOW_PRIVATE_URLS && isIP(host) ? describeNonGlobalAddress([host]) : null;
+    if (nonGlobal) {
+      return { ...delivery, error: `Refusing to connect: ${nonGlobal}`, refused: true };
+    }
+
+    try {
+      const { statusCode } = await httpRequest(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          [SIGNATURE_HEADER]: signPayload(body, timestamp),
+          [TIMESTAMP_HEADER]: String(timestamp)
+        },
+        body,
+        timeout: CALLBACK_TIMEOUT_MS,
+        lookup: CALLBACK_ALLOW_PRIVATE_URLS ? undefined : lookupGlobalAddress
+      });
+
+      delivery.statusCode = statusCode;
+      delivery.delivered = statusCode >= 200 && statusCode < 300;
+    } catch (e) {
+      delivery.error = e instanceof Error ? e.message : String(e);
+      delivery.refused = e instanceof NonGlobalAddressError;
+    }
+
+    return delivery;
+  };
+
+  /**
+   * Append an attempt to a batch's delivery log
+   *
+   * Logging failures are only debugged; they shouldn't stop delivery.
+   */
+  #logDelivery = async (requestId: RequestId, delivery: CallbackDelivery): Promise<void> => {
+    const key = deliveryLogKey(requestId);
+
+    try {
+      await getRedisClient().multi().rpush(key, JSON.stringify(delivery)).expire(key, CALLBACK_LOG_TTL_S).exec();
+    } catch (e) {
+      debug.extend('log-delivery')(`failed to log delivery for batch ${requestId}: ${e}`);
+    }
+  };
+}
@@ -0,0 +1,161 @@
+/**
+ * Redis-backed registry of queued tasks, so concurrent requests share identical tasks' jobs
+ *
+ * When a burst of requests asks for the same address, only the first queues each task; the rest
+ * follow its job, per `taskFingerprint`. Each job's requests are counted, so a job is only cancelled
+ * once every request waiting for it has given up.
+ */
+
+import { getRedisClient, redisKey, REQUEST_TIMEOUT_MS } from '../../shared';
+import { Task } from '../../taskServices';
+import taskFingerprint from './taskFingerprint';
+import Debug from '../../debug';
+
+// extension reflects subordination to IPServicesController
+const debug = Debug.extend('ip:endpoint:inflight-tasks');
+
+// Most tasks claimed per Redis round trip, so large batches don't block Redis for long
+const CLAIM_CHUNK_SIZE = 500;
+
+/**
+ * Claim each task, unless an identical one is already claimed, counting the claimant or follower as
+ * one of the job's watchers
+ *
+ * KEYS are the tasks' in-flight keys. ARGV is the claim TTL, the watchers key prefix, and then the
+ * tasks' IDs. Returns the ID of the job each task follows, or '' for tasks claimed.
+ */
+const CLAIM_SCRIPT = `local jobIds = {}
+for i, key in ipairs(KEYS) do
+  local taskId = ARGV[i + 2]
+  local jobId = ''
+  if redis.call('set', key, taskId, 'PX', ARGV[1], 'NX') then
+    redis.call('set', ARGV[2] .. taskId, 1, 'PX', ARGV[1])
+  else
+    jobId = redis.call('get', key)
+    redis.call('incr', ARGV[2] .. jobId)
+    redis.call('pexpire', ARGV[2] .. jobId, ARGV[1])
+  end
+  jobIds[i] = jobId
+end
+return jobIds`;
+
+/**
+ * Delete a key only if it still has a given value, so releasing never removes another job's claim
+ */
+const RELEASE_SCRIPT = `if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('del', KEYS[1]) end return 0`;
+
+/**
+ * Count off a request giving up on a job; once none remain, forget the job and its claim, if current
+ *
+ * Returns 1 if no requests are left waiting for the job, or else 0.
+ */
+const ABANDON_SCRIPT = `if redis.call('decr', KEYS[1]) > 0 then return 0 end
+redis.call('del', KEYS[1])
+if redis.call('get', KEYS[2]) == ARGV[1] then redis.call('del', KEYS[2]) end
+return 1`;
+
+/**
+ * Build the Redis key for a task's in-flight job ID
+ */
+const inflightKey = (task: Task): string => redisKey('inflight', taskFingerprint(task));
+
+/**
+ * Build the Redis key counting requests waiting for a job
+ */
+const watchersKey = (jobId: string): string => redisKey('inflight-watchers', jobId);
+
+/**
+ * Prefix of watchers keys, for building them in scripts
+ */
+const WATCHERS_KEY_PREFIX = watchersKey('');
+
+/**
+ * Tracks which job is processing each distinct task
+ *
+ * Claims expire with the request that made them (e.g. after REQUEST_TIMEOUT_MS), so a job that is lost
+ * or stuck, or outlives the request that queued it, is only followed until then. Later requests
+ * queue a fresh job. Redis errors are only debugged, so an unavailable registry degrades to
+ * queuing every task.
+ */
+export default class InflightTasks {
+  /**
+   * Claim tasks, unless identical ones are already in flight
+   *
+   * Resolves with null for each task claimed, so it should be queued, or else the ID of the job to
+   * follow. Tasks are claimed in chunks, one Redis round trip each.
+   *
+   * @param tasks {Task[]} The tasks to claim
+   * @param ttl {number} Milliseconds until claims expire; the claiming request's timeout
+   */
+  claim = async (tasks: Task[], ttl: number = REQUEST_TIMEOUT_MS): Promise<Array<string | null>> => {
+    const jobIds: Array<string | null> = [];
+
+    for (let start = 0; start < tasks.length; start += CLAIM_CHUNK_SIZE) {
+      const chunk = tasks.slice(start, start + CLAIM_CHUNK_SIZE);
+      jobIds.push(...(await this.#claimChunk(chunk, ttl)));
+    }
+
+    return jobIds;
+  };
+
+  /**
+   * Release a claimed task once its job resolves, so identical tasks are queued afresh
+   */
+  release = async (task: Task): Promise<void> => {
+    try {
+      await getRedisClient().eval(RELEASE_SCRIPT, 1, inflightKey(task), task.id);
+    } catch (e) {
+      debug.extend('release')(`failed to release ${task.serviceName} task ${task.id}: ${e}`);
+    }
+  };
+
+  /**
+   * Give up on the job a claimed or following task waits for, e.g. once the task times out
+   *
+   * Resolves with whether no other requests are waiting for the job, so it can be cancelled. Resolves
+   * false if the registry is unavailable, so jobs are never cancelled from under other requests.
+   *
+   * @param task {Task} The abandoning task
+   * @param jobId {string} The job it waits for; its own ID if it claimed the task
+   */
+  abandon = async (task: Task, jobId: string): Promise<boolean> => {
+    try {
+      const abandoned = await getRedisClient().eval(ABANDON_SCRIPT, 2, watchersKey(jobId), inflightKey(task), jobId);
+
+      return abandoned === 1;
+    } catch (e) {
+      debug.extend('abandon')(`failed to abandon job ${jobId} for ${task.serviceName} task ${task.id}: ${e}`);
+      return false;
+    }
+  };
+
+  /**
+   * Claim a chunk of tasks in one script call
+   */
+  #claimChunk = async (tasks: Task[], ttl: number): Promise<Array<string | null>> => {
+    const debugClaim = debug.extend('claim');
+
+    try {
+      const jobIds: string[] = await getRedisClient().eval(
+        CLAIM_SCRIPT,
+        tasks.length,
+        ...tasks.map(inflightKey),
+        ttl,
+        WATCHERS_KEY_PREFIX,
+        ...tasks.map(({ id }) => id)
+      );
+
+      return jobIds.map((jobId, index) => {
+        if (!jobId) {
+          return null;
+        }
+
+        debugClaim(`${tasks[index].serviceName} task ${tasks[index].id} following job ${jobId}`);
+        return jobId;
+      });
+    } catch (e) {
+      debugClaim(`failed to claim ${tasks.length} tasks: ${e}`);
+      return tasks.map(() => null);
+    }
+  };
+}
@@ -0,0 +1,151 @@
+/**
+ * Redis-backed storage of request batches' task results
+ *
+ * Lets any server process (e.g. any throng worker) report on a batch, not just the process that
+ * queued it and is listening for its tasks' queue events.
+ */
+
+import { getRedisClient, redisKey } from '../../shared';
+import { RequestId, TaskResultStatus } from '../../taskServices';
+import { TaskBatch, TaskBatchServiceResult } from './RequestTaskBatchResolver';
+import Debug from '../../debug';
+
+// extension reflects subordination to IPServicesController
+const debug = Debug.extend('ip:endpoint:request-batch-store');
+
+// Seconds to keep a batch's results available for polling after it finishes
+const REQUEST_RESULTS_TTL_S = Number(process.env.REQUEST_RESULTS_TTL_S) || 3600;
+
+/**
+ * Status of a whole stored batch
+ */
+export type StoredBatchStatus = 'pending' | 'done' | 'timeout';
+
+/**
+ * Status of a single stored task; 'pending' until the task resolves
+ */
+export type StoredTaskStatus = 'pending' | TaskResultStatus;
+
+/**
+ * A stored batch, as reported to pollers
+ */
+export interface StoredBatch {
+  requestId: RequestId;
+  status: StoredBatchStatus;
+  createdAt: string;
+  finishedAt?: string;
+  services: {
+    [x: string]: {
+      status: StoredTaskStatus;
+      result?: TaskBatchServiceResult['result'];
+      cache?: TaskBatchServiceResult['cache'];
+      attempts?: TaskBatchServiceResult['attempts'];
+    };
+  };
+}
+
+/**
+ * Hash field prefix for each service's task result
+ */
+const SERVICE_FIELD_PREFIX = 'service:';
+
+/**
+ * Build the Redis hash key for a batch
+ */
+const batchKey = (requestId: RequestId): string => redisKey('requests', requestId);
+
+/**
+ * Stores request batches in Redis, one hash per batch
+ *
+ * Hash fields:
+ *   - `status`, `createdAt`, `finishedAt`: batch lifecycle
+ *   - `service:<name>`: JSON of each service's task status and result
+ */
+export default class RequestBatchStore {
+  /**
+   * Store a newly-created batch, with all of its tasks pending
+   *
+   * @param batch {TaskBatch} The batch
+   * @param timeout {number} Milliseconds until the batch times out, if it doesn't finish first; it's
+   *   kept at least that long, and then for REQUEST_RESULTS_TTL_S, so it can't expire while pending
+   */
+  create = async (batch: TaskBatch, timeout: number): Promise<void> => {
+    const { requestId, tasks } = batch;
+    const key = batchKey(requestId);
+
+    debug.extend('create')(`storing batch ${requestId}`);
+
+    const fields: { [x: string]: string } = {
+      status: 'pending',
+      createdAt: new Date().toISOString()
+    };
+    tasks.forEach(({ serviceName }) => {
+      fields[`${SERVICE_FIELD_PREFIX}${serviceName}`] = JSON.stringify({ status: 'pending' });
+    });
+
+    const ttl = Math.ceil(timeout / 1000) + REQUEST_RESULTS_TTL_S;
+
+    await getRedisClient().multi().hset(key, fields).expire(key, ttl).exec();
+  };
+
+  /**
+   * Store a single task's result as it resolves
+   */
+  setTaskResult = async (requestId: RequestId, serviceName: string, result: TaskBatchServiceResult): Promise<void> => {
+    debug.extend('set-task-result')(`storing ${serviceName} result for batch ${requestId}`);
+
+    const { status, result: resultData, cache, attempts } = result;
+
+    await getRedisClient().hset(
+      batchKey(requestId),
+      `${SERVICE_FIELD_PREFIX}${serviceName}`,
+      JSON.stringify({ status, result: resultData, cache, attempts })
+    );
+  };
+
+  /**
+   * Mark a batch finished, whether all its tasks resolved or it timed out, keeping it for REQUEST_RESULTS_TTL_S
+   */
+  finish = async (requestId: RequestId, status: Exclude<StoredBatchStatus, 'pending'>): Promise<void> => {
+    debug.extend('finish')(`batch ${requestId} finished with status ${status}`);
+
+    const key = batchKey(requestId);
+
+    await getRedisClient()
+      .multi()
+      .hset(key, { status, finishedAt: new Date().toISOString() })
+      .expire(key, REQUEST_RESULTS_TTL_S)
+      .exec();
+  };
+
+  /**
+   * Get a stored batch, or null if it doesn't exist (or expired)
+   */
+  get = async (requestId: RequestId): Promise<StoredBatch | null> => {
+    const fields = await getRedisClient().hgetall(batchKey(requestId));
+
+    if (!fields || !fields.status) {
+      return null;
+    }
+
+    const { status, createdAt, finishedAt } = fields;
+    const batch: StoredBatch = {
+      requestId,
+      status: status as StoredBatchStatus,
+      createdAt,
+      services: {}
+    };
+
+    if (finishedAt) {
+      batch.finishedAt = finishedAt;
+    }
+
+    Object.keys(fields).forEach(field => {
+      if (field.startsWith(SERVICE_FIELD_PREFIX)) {
+        batch.services[field.slice(SERVICE_FIELD_PREFIX.length)] = JSON.parse(fields[field]);
+      }
+    });
+
+    return batch;
+  };
+}
@@ -0,0 +1,211 @@
+import 'reflect-metadata';
+import { strict as assert } from 'assert';
+import { EventEmitter } from 'events';
+
+import * as shared from '../../shared';
+import { Service, Task, TaskResult, TaskService } from '../../taskServices';
+import RequestTaskBatchResolver, { TaskBatchResult } from './RequestTaskBatchResolver';
+
+// Times out tasks after 20ms, well before their batches in these tests
+@Service({
+  name: 'resolver-test-quick',
+  description: 'Test service timing out quickly',
+  returnType: 'string',
+  timeoutMs: 20
+})
+class QuickTestService extends TaskService {
+  protected processTask = (task: Task): Promise<TaskResult> =>
+    Promise.resolve(new TaskResult(task.id, task.requestId, 'done', { data: 'quick' }));
+}
+
+const queueEvents = new EventEmitter();
+
+const task = (id: string, serviceName: string): Task => ({ id, requestId: 'request', serviceName, data: {} });
+
+/**
+ * Publish a job's completion, as the queue does
+ */
+const complete = (jobId: string, data: { [x: string]: any }): void => {
+  queueEvents.emit('completed', {
+    event: 'completed',
+    jobId,
+    returnvalue: new TaskResult(jobId, 'request', 'done', { data })
+  });
+};
+
+/**
+ * Get a batch's results, failing if it failed
+ */
+const expectResults = async (resolver: RequestTaskBatchResolver): Promise<TaskBatchResult> => {
+  const results = await resolver.results();
+  if ('error' in results) {
+    throw new Error(`Batch failed with ${results.error.code}: ${results.error.message}`);
+  }
+  return results;
+};
+
+describe('RequestTaskBatchResolver', () => {
+  const { getQueueEvents } = shared;
+  const tasks = [task('a', 'mock-worker'), task('b', 'ip-validation')];
+
+  before(() => {
+    Object.assign(shared, { getQueueEvents: () => queueEvents });
+    new QuickTestService();
+  });
+
+  after(done => {
+    // Resolvers stop listening to queue events just after resolving, so restore once they have
+    setTimeout(() => {
+      Object.assign(shared, { getQueueEvents });
+      done();
+    }, 50);
+  });
+
+  it("resolves with each task's result, by service", async () => {
+    const resolver = new RequestTaskBatchResolver({ requestId: 'request', tasks });
+
+    complete('a', { a: 1 });
+    queueEvents.emit('failed', { event: 'failed', jobId: 'b', failedReason: 'broken' });
+
+    assert.deepEqual(await resolver.results(), {
+      services: {
+        'mock-worker': { id: 'a', status: 'done', result: { data: { a: 1 } } },
+        'ip-validation': { id: 'b', status: 'fail', result: { issues: ['broken'] } }
+      }
+    });
+  });
+
+  it('publishes results as each task resolves', async () => {
+    const resolver = new RequestTaskBatchResolver({ requestId: 'request', tasks });
+    const published: string[] = [];
+    resolver.onTaskResult((serviceName, { status }) => published.push(`${serviceName} ${status}`));
+
+    complete('b', {});
+    assert.deepEqual(published, ['ip-validation done']);
+
+    complete('a', {});
+    await resolver.results();
+    assert.deepEqual(published, ['ip-validation done', 'mock-worker done']);
+  });
+
+  it('ignores jobs of other batches', async () => {
+    const resolver = new RequestTaskBatchResolver({ requestId: 'request', tasks: [task('a', 'mock-worker')] });
+
+    complete('other', { other: true });
+    complete('a', { a: 1 });
+
+    const results = await expectResults(resolver);
+    assert.deepEqual(results.services['mock-worker'].result, { data: { a: 1 } });
+  });
+
+  describe('timeouts', () => {
+    it('times out tasks still pending when the batch times out, keeping other results', async () => {
+      const resolver = new RequestTaskBatchResolver({ requestId: 'request', tasks }, 30);
+      const abandoned: string[][] = [];
+      resolver.onAbandonedTasks(taskIds => abandoned.push(taskIds));
+
+      complete('a', { a: 1 });
+
+      const results = await expectResults(resolver);
+      assert.equal(results.services['mock-worker'].status, 'done');
+      assert.deepEqual(results.services['ip-validation'], {
+        id: 'b',
+        status: 'timeout',
+        result: { issues: ['ip-validation timed out while processing the request.'] }
+      });
+      assert.deepEqual(abandoned, [['b']]);
+    });
+
+    it("times out tasks after their service's timeout, once started", async () => {
+      const resolver = new RequestTaskBatchResolver(
+        { requestId: 'request', tasks: [task('a', 'mock-worker'), task('q', 'resolver-test-quick')] },
+        1000
+      );
+
+      // Services without their own timeout wait for the batch's
+      resolver.startTaskTimeout('a');
+      resolver.startTaskTimeout('q');
+      setTimeout(() => complete('a', {}), 50);
+
+      const results = await expectResults(resolver);
+      assert.equal(results.services['mock-worker'].status, 'done');
+      assert.deepEqual(results.services['resolver-test-quick'].result, {
+        issues: ['resolver-test-quick timed out after 20ms.']
+      });
+    });
+
+    it('ignores results arriving after tasks time out', async () => {
+      const resolver = new RequestTaskBatchResolver({
+        requestId: 'request',
+        tasks: [task('q', 'resolver-test-quick')]
+      });
+      resolver.startTaskTimeout('q');
+
+      await new Promise(resolve => setTimeout(resolve, 40));
+      complete('q', {});
+
+      const results = await expectResults(resolver);
+      assert.equal(results.services['resolver-test-quick'].status, 'timeout');
+    });
+
+    it('fails with 504 on timeout with failOnTimeout, abandoning tasks still pending', async () => {
+      const resolver = new RequestTaskBatchResolver({ requestId: 'request', tasks, failOnTimeout: true }, 30);
+      const abandoned: string[][] = [];
+      resolver.onAbandonedTasks(taskIds => abandoned.push(taskIds));
+
+      complete('b', {});
+
+      assert.deepEqual(await resolver.results(), {
+        error: { code: 504, message: 'mock-worker timed out while processing the request.' }
+      });
+      assert.deepEqual(abandoned, [['a']]);
+    });
+  });
+
+  describe('cancelling', () => {
+    it('fails with 499 when cancelled, abandoning tasks still pending', async () => {
+      const resolver = new RequestTaskBatchResolver({ requestId: 'request', tasks });
+      const abandoned: string[][] = [];
+      resolver.onAbandonedTasks(taskIds => abandoned.push(taskIds));
+
+      complete('a', {});
+      resolver.cancel('Client disconnected before services finished.');
+
+      assert.deepEqual(await resolver.results(), {
+        error: { code: 499, message: 'Client disconnected before services finished.' }
+      });
+      assert.deepEqual(abandoned, [['b']]);
+      assert.equal(resolver.isPending('b'), false);
+    });
+
+    it('keeps its results when cancelled once done', async () => {
+      const resolver = new RequestTaskBatchResolver({ requestId: 'request', tasks: [task('a', 'mock-worker')] });
+      const abandoned: string[][] = [];
+      resolver.onAbandonedTasks(taskIds => abandoned.push(taskIds));
+
+      complete('a', { a: 1 });
+      await resolver.results();
+      resolver.cancel('Client disconnected before services finished.');
+
+      const results = await expectResults(resolver);
+      assert.equal(results.services['mock-worker'].status, 'done');
+      assert.deepEqual(abandoned, []);
+    });
+
+    it('fails tasks whose jobs are removed from the queue', async () => {
+      const resolver = new RequestTaskBatchResolver({ requestId: 'request', tasks });
+
+      complete('a', {});
+      queueEvents.emit('removed', { event: 'removed', jobId: 'b', prev: 'waiting' });
+
+      const results = await expectResults(resolver);
+      assert.deepEqual(results.services['ip-validation'], {
+        id: 'b',
+        status: 'fail',
+        result: {
+          issues: ['Job removed from queue before processing, e.g. after every request waiting for it gave up']
+        }
+      });
+    });
+  });
+});
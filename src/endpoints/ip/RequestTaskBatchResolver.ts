@@ -6,8 +6,9 @@ import Timeout = NodeJS.Timeout;
 import { EventEmitter } from 'events';
 import Debug from '../../debug';
 
-import { RequestId, Task, TaskResult, TaskResultStatus } from '../../taskServices';
+import { registeredServices, RequestId, Task, TaskResult, TaskResultStatus } from '../../taskServices';
 import { QueueEventCompleted, getQueueEvents, QueueEventFailed, QueueEventRemoved } from '../../shared';
+import { ResultCacheStatus } from './ResultCache';
 
 // extension reflects subordination to IPServicesController
 const debug = Debug.extend('ip:endpoint:request-batch-resolver');
@@ -18,6 +19,10 @@ const debug = Debug.extend('ip:endpoint:request-batch-resolver');
 export interface TaskBatch {
   requestId: RequestId;
   tasks: Task[];
+  // Cache status of each task's result, by task ID, if known
+  cache?: { [x: string]: ResultCacheStatus };
+  // Whether any task timing out fails the batch, rather than it resolving with other tasks' results
+  failOnTimeout?: boolean;
 }
 
 /**
@@ -25,33 +30,55 @@ export interface TaskBatch {
  */
 export interface TaskBatchError {
   error: {
-    code: 500 | 504;
+    // 499 (client closed request) when cancelled, as nobody's there to see it anyway
+    code: 499 | 500 | 504;
     message: string;
   };
 }
 
+/**
+ * The result of processing a single task in a TaskBatch
+ */
+export interface TaskBatchServiceResult {
+  id: string; // task ID
+  status: TaskResultStatus;
+  result: {
+    data?: any;
+    error?: any;
+    issues?: string[];
+  };
+  cache?: ResultCacheStatus;
+  // Attempts the queue worker made at the task, if it was queued
+  attempts?: number;
+}
+
 /**
  * A (non-error) result of processing a TaskBatch
  */
 export interface TaskBatchResult {
   services: {
-    [x: string]: {
-      id: string; // task ID
-      status: TaskResultStatus;
-      result: {
-        data?: any;
-        error?: any;
-      };
-    };
+    [x: string]: TaskBatchServiceResult;
   };
 }
 
+/**
+ * Listener for individual task results, as each task in the batch resolves
+ */
+export type TaskResultListener = (serviceName: string, result: TaskBatchServiceResult) => void;
+
+/**
+ * Listener for tasks the batch stops waiting for, e.g. after timing out, by task ID
+ */
+export type AbandonedTasksListener = (taskIds: string[]) => void;
+
 /**
  * lifecycle event type map
  */
 const LIFECYCLE_EVENTS = {
-  TIMEOUT: 'timeout',
-  DONE: 'done'
+  FAIL: 'fail',
+  DONE: 'done',
+  TASK: 'task',
+  ABANDON: 'abandon'
 };
 
 /**
@@ -59,7 +86,10 @@ const LIFECYCLE_EVENTS = {
  *
  * This keeps track of its batch's pending tasks and their results when complete, and updates its
  * tasks' results on applicable QueueEvents. Calling .results() returns a promise with completed
- * tasks' data. Passing a timeout will resolve the promise with an error if tasks take longer.
+ * tasks' data. Tasks taking longer than their service's `timeoutMs`, or still pending when the batch
+ * times out, resolve with status 'timeout'; unless the batch has `failOnTimeout`, in which case the
+ * promise resolves with an error instead. Tasks no longer waited for are published as abandoned, so
+ * their jobs can be cancelled.
  */
 export default class RequestTaskBatchResolver {
   /**
@@ -72,12 +102,29 @@ export default class RequestTaskBatchResolver {
    */
   readonly #timeout: Timeout;
 
+  /**
+   * Tasks' timeout references, per their services' `timeoutMs`, by task ID
+   */
+  readonly #taskTimeouts: { [x: string]: Timeout } = {};
+
+  /**
+   * Whether any task timing out fails the batch
+   */
+  readonly #failOnTimeout: boolean;
+
+  /**
+   * Error the batch failed with, if any
+   */
+  #error: TaskBatchError | null = null;
+
   /**
    * Internal lifecyle event publisher
    *
    * Publishes:
+   *   - "task" when any task resolves, with its service name and result
    *   - "done" when the last task resolves
-   *   - "timeout" when the batch expiration timeout elapses
+   *   - "fail" when the batch fails, e.g. a task times out with `failOnTimeout`, with the TaskBatchError
+   *   - "abandon" when the batch stops waiting for tasks, with their IDs
    */
   readonly #lifecycle: EventEmitter = new EventEmitter();
 
@@ -100,6 +147,29 @@ export default class RequestTaskBatchResolver {
    */
   readonly #jobResults: { [x: string]: any } = {};
 
+  /**
+   * Map of batch tasks' jobIds to their service names
+   */
+  readonly #serviceNames: { [x: string]: string } = {};
+
+  /**
+   * Map of queue jobIds to the batch tasks they resolve
+   *
+   * Each task's own jobId, plus jobs followed with followJob() for identical tasks queued elsewhere.
+   * One job may resolve several tasks, e.g. identical tasks for differently-written addresses.
+   */
+  readonly #taskIds: { [x: string]: string[] } = {};
+
+  /**
+   * Map of batch tasks' jobIds to their results' cache status, if known
+   */
+  readonly #cacheStatuses: { [x: string]: ResultCacheStatus };
+
+  /**
+   * Whether every task has resolved
+   */
+  #isDone: boolean = false;
+
   /**
    * Utility: Converts TaskBatchResults keys from jobId to service names
    */
@@ -117,61 +187,43 @@ export default class RequestTaskBatchResolver {
 
     // Begin the timeout timer
     this.#timeout = setTimeout(() => {
-      this.#lifecycle.emit(LIFECYCLE_EVENTS.TIMEOUT);
-      // @TODO de-queue any still-pending tasks; avoid wasting resources processing abandoned tasks
+      // Tasks still pending time out, so the batch resolves with the others' results
+      Object.keys(this.#serviceNames).forEach(id => this.#timeOutTask(id));
     }, timeout);
 
+    this.#failOnTimeout = !!batch.failOnTimeout;
+
     // Save batch name
     // Useful when queue events don't return task data
     this.#requestId = batch.requestId;
 
-    // Initialize ownsTask method with tasks from the batch
-    // @TODO ensure this works for all event types' shape
+    // Initialize ownsTask method with jobs of tasks from the batch, and jobs they follow
     this.#ownsTask = (eventData: QueueEventCompleted | QueueEventFailed | QueueEventRemoved) => {
-      let matches: boolean = false;
-
       switch (eventData.event) {
         case 'completed':
-          matches = batch.requestId === eventData.returnvalue.requestId;
-          break;
-
         case 'failed':
-          for (const task of batch.tasks) {
-            if (task.id === eventData.jobId) {
-              matches = true;
-              break;
-            }
-          }
-          break;
-
         case 'removed':
-          for (const task of batch.tasks) {
-            if (task.id === eventData.jobId) {
-              matches = true;
-              break;
-            }
-          }
-          break;
+          return eventData.jobId in this.#taskIds;
 
         default:
           throw new Error(`Queue sent unrecognized event data: ${JSON.stringify(eventData)}`);
       }
-      return matches;
     };
 
+    batch.tasks.forEach(task => {
+      this.#serviceNames[task.id] = task.serviceName;
+      this.#taskIds[task.id] = [task.id];
+    });
+
+    this.#cacheStatuses = { ...batch.cache };
+
     // Build task results mapping from task jobId to associated service name from batch data
     this.#mapResultsToServiceNames = () => {
       const results: TaskBatchResult = { services: {} };
       batch.tasks.forEach(task => {
         const { id, serviceName } = task;
-        const rawData = this.#jobResults[id as keyof TaskBatchResult];
-        const { status, resultData } = rawData;
-
-        results.services[serviceName] = {
-          id,
-          status,
-          result: resultData
-        };
+
+        results.services[serviceName] = this.#getServiceResult(id);
       });
       return results;
     };
@@ -197,8 +249,8 @@ export default class RequestTaskBatchResolver {
     // Debug resolver lifecyle events
     if (debug.enabled) {
       // Debug namespace: `micro-micro:ip:endpoint:request-batch-resolver`
-      Object.keys(LIFECYCLE_EVENTS).forEach(eventType => {
-        this.#lifecycle.prependListener(eventType, event => debug(`lifecycle emitted: ${event}`));
+      Object.values(LIFECYCLE_EVENTS).forEach(eventType => {
+        this.#lifecycle.prependListener(eventType, () => debug(`lifecycle emitted: ${eventType}`));
       });
     }
   }
@@ -209,20 +261,28 @@ export default class RequestTaskBatchResolver {
   results = (): Promise<TaskBatchResult | TaskBatchError> => {
     return new Promise(resolve => {
       try {
+        // A task may have timed out already, failing the batch
+        if (this.#error) {
+          resolve(this.#error);
+          this.#close();
+          return;
+        }
+
+        // Every task may have resolved without the queue, e.g. from the cache
+        if (this.#isDone) {
+          clearTimeout(this.#timeout);
+          resolve(this.#mapResultsToServiceNames());
+          this.#close();
+          return;
+        }
+
         this.#lifecycle.once(LIFECYCLE_EVENTS.DONE, () => {
           clearTimeout(this.#timeout);
           resolve(this.#mapResultsToServiceNames());
           this.#close();
         });
 
-        this.#lifecycle.once(LIFECYCLE_EVENTS.TIMEOUT, () => {
-          const error: TaskBatchError = {
-            error: {
-              code: 504,
-              message: `One or more services timed out while processing the request.`
-            }
-          };
-
+        this.#lifecycle.once(LIFECYCLE_EVENTS.FAIL, (error: TaskBatchError) => {
           resolve(error);
           this.#close();
         });
@@ -233,29 +293,126 @@ export default class RequestTaskBatchResolver {
     });
   };
 
+  /**
+   * Subscribe to each task's result as it resolves, ahead of the whole batch
+   *
+   * Listeners are called before the batch's "done" lifecycle event, so they always see every result.
+   */
+  onTaskResult = (listener: TaskResultListener): void => {
+    this.#lifecycle.on(LIFECYCLE_EVENTS.TASK, listener);
+  };
+
+  /**
+   * Subscribe to tasks the batch stops waiting for, as it times them out or fails
+   *
+   * Abandoned tasks' jobs may still be processing; nothing in this batch needs their results anymore.
+   */
+  onAbandonedTasks = (listener: AbandonedTasksListener): void => {
+    this.#lifecycle.on(LIFECYCLE_EVENTS.ABANDON, listener);
+  };
+
+  /**
+   * Whether a task is still waited for, i.e. neither resolved nor abandoned
+   */
+  isPending = (taskId: string): boolean => !this.#jobResults[taskId] && !this.#error;
+
+  /**
+   * Stop waiting for the batch, e.g. when the client disconnects, abandoning tasks still pending
+   *
+   * results() resolves with an error, if it hasn't resolved already.
+   */
+  cancel = (message: string): void => {
+    if (this.#isDone || this.#error) {
+      return;
+    }
+
+    debug.extend('cancel')(`batch ${this.#requestId}: ${message}`);
+
+    this.#fail({ error: { code: 499, message } });
+  };
+
+  /**
+   * Set tasks' cache statuses, for tasks looked up in the cache after the batch was created
+   *
+   * Set before resolving the tasks, so their results include them.
+   */
+  setCacheStatuses = (statuses: { [x: string]: ResultCacheStatus }): void => {
+    Object.assign(this.#cacheStatuses, statuses);
+  };
+
+  /**
+   * Start a task's timeout, per its service's `timeoutMs`, if any
+   *
+   * Call as the task is started, e.g. queued, so time spent waiting for upstream tasks doesn't count.
+   */
+  startTaskTimeout = (taskId: string): void => {
+    const serviceName = this.#serviceNames[taskId];
+    const registeredService = registeredServices.find(item => item.name === serviceName);
+    const timeoutMs = registeredService && registeredService.timeoutMs;
+
+    if (!timeoutMs || this.#jobResults[taskId] || this.#taskTimeouts[taskId]) {
+      return;
+    }
+
+    this.#taskTimeouts[taskId] = setTimeout(() => this.#timeOutTask(taskId, timeoutMs), timeoutMs);
+  };
+
+  /**
+   * Resolve a task in this batch with a result from somewhere other than queue events, e.g. the cache
+   */
+  resolveTask = (result: TaskResult): void => {
+    const { id } = result;
+
+    if (!this.#serviceNames[id]) {
+      throw new Error(`Task ${id} isn't in batch ${this.#requestId}`);
+    }
+
+    debug.extend('resolve-task')(`job ${id}`);
+
+    this.#storeResult(result);
+  };
+
+  /**
+   * Resolve a task in this batch with the result of another job, e.g. an identical task's
+   *
+   * Whichever of the task's own job or the followed job resolves first resolves the task. Results of
+   * jobs that finished before following them won't arrive as queue events, so must be resolved with
+   * resolveTask().
+   */
+  followJob = (taskId: string, jobId: string): void => {
+    if (!this.#serviceNames[taskId]) {
+      throw new Error(`Task ${taskId} isn't in batch ${this.#requestId}`);
+    }
+
+    debug.extend('follow-job')(`task ${taskId} following job ${jobId}`);
+
+    this.#taskIds[jobId] = (this.#taskIds[jobId] || []).concat(taskId);
+  };
+
   /**
    * Handle queue task 'completed' events
    *
-   * If the task is in this batch, store its result and decrement pending task count.
+   * If the job resolves tasks in this batch, store its result for them.
    */
   #eventListenerCompleted = (eventData: QueueEventCompleted): void => {
     if (!this.#ownsTask(eventData)) {
       return;
     }
 
-    const { returnvalue } = eventData;
-    const { id } = returnvalue;
+    const { jobId, returnvalue } = eventData;
 
-    debug.extend('event-listener-completed')(`job ${id}`);
+    debug.extend('event-listener-completed')(`job ${jobId}`);
 
-    this.#jobResults[id] = returnvalue;
-    this.#decrementPendingTasks();
+    // Followed jobs' results belong to another batch's task
+    this.#taskIds[jobId].forEach(id => {
+      this.#storeResult({ ...returnvalue, id, requestId: this.#requestId });
+    });
   };
 
   /**
    * Handle queue events indicating task failure
    *
-   * If the task is in this batch, store an error for its result and decrement pending task count.
+   * If the job resolves tasks in this batch, store an error for their results.
    */
   #eventListenerFailed = (eventData: QueueEventFailed): void => {
     if (!this.#ownsTask(eventData)) {
@@ -266,13 +423,9 @@ export default class RequestTaskBatchResolver {
 
     debug.extend('event-listener-failed')(`job ${jobId}`);
 
-    this.#jobResults[jobId] = {
-      id: jobId,
-      requestId: this.#requestId,
-      resultData: { issues: [failedReason] },
-      status: 'fail'
-    };
-    this.#decrementPendingTasks();
+    this.#taskIds[jobId].forEach(id => {
+      this.#storeResult(new TaskResult(id, this.#requestId, 'fail', { issues: [failedReason] }));
+    });
   };
 
   /**
@@ -287,27 +440,105 @@ export default class RequestTaskBatchResolver {
       return;
     }
 
-    const debugRemoved = debug.extend('event-listener-removed');
-
     const { jobId } = eventData;
 
-    // Do nothing if job already processed
-    if (this.#jobResults[jobId]) {
-      debugRemoved(`job ${jobId} processing already finished earlier`);
+    debug.extend('event-listener-removed')(`job ${jobId}`);
 
+    // Tasks already resolved by the job keep their results
+    this.#taskIds[jobId].forEach(id => {
+      this.#storeResult(
+        new TaskResult(id, this.#requestId, 'fail', {
+          issues: ['Job removed from queue before processing, e.g. after every request waiting for it gave up']
+        })
+      );
+    });
+  };
+
+  /**
+   * Time out a task still pending, or fail the batch if it has `failOnTimeout`
+   *
+   * @param taskId {string} The task
+   * @param timeoutMs {number} The task's own timeout, if it timed out before the batch
+   */
+  #timeOutTask = (taskId: string, timeoutMs?: number): void => {
+    if (this.#jobResults[taskId] || this.#error) {
       return;
     }
 
-    debugRemoved(`job ${jobId}`);
+    const serviceName = this.#serviceNames[taskId];
+    const issue = timeoutMs
+      ? `${serviceName} timed out after ${timeoutMs}ms.`
+      : `${serviceName} timed out while processing the request.`;
 
-    this.#jobResults[jobId] = {
-      id: jobId,
-      requestId: this.#requestId,
-      resultData: { issues: ['Job removed from queue before processing for unknown reason'] }
-    };
+    debug.extend('time-out-task')(`task ${taskId}: ${issue}`);
+
+    if (this.#failOnTimeout) {
+      this.#fail({ error: { code: 504, message: issue } });
+      return;
+    }
+
+    this.#storeResult(new TaskResult(taskId, this.#requestId, 'timeout', { issues: [issue] }));
+    this.#lifecycle.emit(LIFECYCLE_EVENTS.ABANDON, [taskId]);
+  };
+
+  /**
+   * Fail the batch, abandoning tasks still pending
+   */
+  #fail = (error: TaskBatchError): void => {
+    const pendingTaskIds = Object.keys(this.#serviceNames).filter(id => !this.#jobResults[id]);
+
+    this.#error = error;
+    this.#lifecycle.emit(LIFECYCLE_EVENTS.ABANDON, pendingTaskIds);
+    this.#lifecycle.emit(LIFECYCLE_EVENTS.FAIL, error);
+  };
+
+  /**
+   * Store a task's result, publish it, and decrement pending task count
+   *
+   * Results for tasks already resolved (e.g. without the queue, or by another job, or timed out) are
+   * ignored.
+   */
+  #storeResult = (result: TaskResult): void => {
+    const { id } = result;
+
+    if (this.#jobResults[id]) {
+      debug.extend('store-result')(`task ${id} already resolved earlier`);
+      return;
+    }
+
+    clearTimeout(this.#taskTimeouts[id]);
+
+    this.#jobResults[id] = result;
+    this.#emitTaskResult(id);
     this.#decrementPendingTasks();
   };
 
+  /**
+   * Publish a task's stored result to "task" lifecycle listeners
+   */
+  #emitTaskResult = (jobId: string): void => {
+    this.#lifecycle.emit(LIFECYCLE_EVENTS.TASK, this.#serviceNames[jobId], this.#getServiceResult(jobId));
+  };
+
+  /**
+   * Build a task's stored result, with its cache status and attempts, if known
+   */
+  #getServiceResult = (jobId: string): TaskBatchServiceResult => {
+    const { status, resultData, attempts } = this.#jobResults[jobId];
+    const result: TaskBatchServiceResult = { id: jobId, status, result: resultData };
+    const cache = this.#cacheStatuses[jobId];
+
+    if (cache) {
+      result.cache = cache;
+    }
+
+    if (attempts) {
+      result.attempts = attempts;
+    }
+
+    return result;
+  };
+
   /**
    * Decrement pending tasks, and signal done if none remain
    */
@@ -318,6 +549,8 @@ export default class RequestTaskBatchResolver {
 
     // @TODO error handle when (value !==0 && done) — emit 'fail' instead
     if (tasksLeft.value === 0 || tasksLeft.done) {
+      this.#isDone = true;
+
       //  Trigger 'done' lifecycle event
       this.#lifecycle.emit(LIFECYCLE_EVENTS.DONE);
     }
@@ -332,15 +565,18 @@ export default class RequestTaskBatchResolver {
     setTimeout(() => {
       debug(`cleaning up`);
 
+      // stop any timeouts still pending, e.g. after failing
+      clearTimeout(this.#timeout);
+      Object.values(this.#taskTimeouts).forEach(clearTimeout);
+
       // stop listening to our own lifecycle events
       this.#lifecycle.removeAllListeners();
 
       // Stop listening to shared QueueEvents
       const queueEvents = getQueueEvents();
       queueEvents.removeListener('completed', this.#eventListenerCompleted);
-      ['failed', 'removed'].forEach(eventType => {
-        queueEvents.removeListener(eventType, this.#eventListenerFailed);
-      });
+      queueEvents.removeListener('failed', this.#eventListenerFailed);
+      queueEvents.removeListener('removed', this.#eventListenerRemoved);
 
       // finish countdown generator
       // @TODO Is this needed? Effective? What happens to still-referenced, unfinished generators?
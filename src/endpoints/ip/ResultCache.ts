@@ -0,0 +1,159 @@
+/**
+ * Redis-backed cache of services' task results
+ *
+ * Lets repeat requests for the same address skip the job queue for services whose results don't
+ * change often, e.g. GeoIP. Each service opts in with a `cacheTTL` in its @Service config.
+ */
+
+import { getRedisClient, redisKey } from '../../shared';
+import { registeredServices, Task, TaskResult } from '../../taskServices';
+import { TaskBatchServiceResult } from './RequestTaskBatchResolver';
+import taskFingerprint from './taskFingerprint';
+import Debug from '../../debug';
+
+// extension reflects subordination to IPServicesController
+const debug = Debug.extend('ip:endpoint:result-cache');
+
+/**
+ * How a task's result relates to the cache
+ *
+ *   - 'hit': served from the cache, without queuing the task
+ *   - 'miss': not cached (or older than the request's `maxAge`); the fresh result is cached
+ *   - 'bypass': the request passed `cache: false`; the fresh result is cached
+ *   - 'uncached': the service doesn't cache results
+ */
+export type ResultCacheStatusName = 'hit' | 'miss' | 'bypass' | 'uncached';
+
+/**
+ * Cache metadata of a task's result, as reported to API clients
+ */
+export interface ResultCacheStatus {
+  status: ResultCacheStatusName;
+  // Seconds since the result was cached, for hits
+  age?: number;
+}
+
+/**
+ * Options a request passes to control cache use
+ */
+export interface ResultCacheOptions {
+  // Whether cached results may be used
+  cache: boolean;
+  // Oldest cached result to use, in seconds
+  maxAge?: number;
+}
+
+/**
+ * Results of looking up a batch's tasks in the cache
+ */
+export interface ResultCacheLookup {
+  // Cache status of every task, by task ID
+  statuses: { [x: string]: ResultCacheStatus };
+  // Cached results of hits, with the IDs of the tasks they resolve
+  hits: TaskResult[];
+}
+
+/**
+ * A cached result, as stored
+ */
+interface CachedResult {
+  status: TaskResult['status'];
+  resultData: TaskResult['resultData'];
+  cachedAt: number;
+}
+
+/**
+ * Build the Redis key for a task's cached result, from its service and normalized data
+ *
+ * @TODO version keys per service, so deploys changing a service's results don't serve stale shapes
+ */
+const resultKey = (task: Task): string => redisKey('cache', taskFingerprint(task));
+
+/**
+ * Caches finished tasks' results for their service's `cacheTTL`
+ *
+ * Only 'done' results are cached; failures and rejections are retried on the next request. Cache
+ * errors are only debugged, so an unavailable cache degrades to misses rather than failing requests.
+ */
+export default class ResultCache {
+  /**
+   * Get the seconds a service's results are cached for; 0 if not cached
+   */
+  getTTL = (serviceName: string): number => {
+    const registeredService = registeredServices.find(item => item.name === serviceName);
+
+    return (registeredService && registeredService.cacheTTL) || 0;
+  };
+
+  /**
+   * Look up a batch's tasks, getting each one's cache status, and cached results of any hits
+   */
+  lookup = async (tasks: Task[], options: ResultCacheOptions): Promise<ResultCacheLookup> => {
+    const debugLookup = debug.extend('lookup');
+    const lookup: ResultCacheLookup = { statuses: {}, hits: [] };
+
+    const cacheable = tasks.filter(task => this.getTTL(task.serviceName));
+
+    tasks
+      .filter(task => !cacheable.includes(task))
+      .forEach(({ id }) => {
+        lookup.statuses[id] = { status: 'uncached' };
+      });
+
+    if (!options.cache) {
+      cacheable.forEach(({ id }) => {
+        lookup.statuses[id] = { status: 'bypass' };
+      });
+      return lookup;
+    }
+
+    let entries: (string | null)[] = [];
+    if (cacheable.length) {
+      try {
+        entries = await getRedisClient().mget(...cacheable.map(resultKey));
+      } catch (e) {
+        debugLookup(`failed to get cached results: ${e}`);
+      }
+    }
+
+    const now = Date.now();
+
+    cacheable.forEach((task, index) => {
+      const { id, requestId, serviceName } = task;
+      const entry = entries[index];
+      const cached: CachedResult | null = entry ? JSON.parse(entry) : null;
+      const age = cached ? Math.max(Math.floor((now - cached.cachedAt) / 1000), 0) : 0;
+
+      if (!cached || (options.maxAge !== undefined && age > options.maxAge)) {
+        lookup.statuses[id] = { status: 'miss' };
+        return;
+      }
+
+      debugLookup(`${serviceName} task ${id} hit, cached ${age}s ago`);
+
+      lookup.statuses[id] = { status: 'hit', age };
+      lookup.hits.push(new TaskResult(id, requestId, cached.status, cached.resultData));
+    });
+
+    return lookup;
+  };
+
+  /**
+   * Cache a task's result, if done and its service caches results
+   */
+  store = async (task: Task, result: TaskBatchServiceResult): Promise<void> => {
+    const ttl = this.getTTL(task.serviceName);
+
+    if (!ttl || result.status !== 'done') {
+      return;
+    }
+
+    const cached: CachedResult = { status: result.status, resultData: result.result, cachedAt: Date.now() };
+
+    try {
+      await getRedisClient().set(resultKey(task), JSON.stringify(cached), 'EX', ttl);
+    } catch (e) {
+      debug.extend('store')(`failed to cache ${task.serviceName} result of task ${task.id}: ${e}`);
+    }
+  };
+}
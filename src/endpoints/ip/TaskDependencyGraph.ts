@@ -0,0 +1,132 @@
+/**
+ * Schedules a batch's tasks in dependency order, per their services' `dependsOn`
+ *
+ * Tasks depending on others start once all their upstream tasks are done, with data built from
+ * upstream results. If any upstream task doesn't finish, they're skipped instead.
+ */
+
+import { getServiceDependencies, Task, TaskResult } from '../../taskServices';
+import { TaskBatchServiceResult } from './RequestTaskBatchResolver';
+import Debug from '../../debug';
+
+// extension reflects subordination to IPServicesController
+const debug = Debug.extend('ip:endpoint:task-dependency-graph');
+
+/**
+ * Tasks newly able to start, or skipped, once an upstream task resolves
+ */
+export interface TaskDependencyUpdate {
+  // Tasks to run, with upstream results' data added
+  ready: Task[];
+  // Results of tasks that can't run
+  skipped: TaskResult[];
+}
+
+/**
+ * Tracks a batch's tasks' dependencies, and the results of their upstream tasks
+ *
+ * Dependencies are between tasks for the same address (see IPServicesController #createTasks), so a
+ * bulk request's tasks share one graph.
+ */
+export default class TaskDependencyGraph {
+  /**
+   * Tasks not yet started or skipped, by ID
+   */
+  readonly #waiting: { [x: string]: Task } = {};
+
+  /**
+   * Tasks able to start immediately
+   */
+  readonly #initialTasks: Task[] = [];
+
+  /**
+   * Results of resolved tasks, by ID
+   */
+  readonly #results: { [x: string]: TaskBatchServiceResult } = {};
+
+  constructor(tasks: Task[]) {
+    tasks.forEach(task => {
+      if (task.dependsOn && task.dependsOn.length) {
+        this.#waiting[task.id] = task;
+      } else {
+        this.#initialTasks.push(task);
+      }
+    });
+  }
+
+  /**
+   * Get tasks with no dependencies, which can start right away
+   */
+  getInitialTasks = (): Task[] => this.#initialTasks;
+
+  /**
+   * Record a task's result, getting any tasks depending on it that can now start, or must be skipped
+   *
+   * Skipped tasks' results should be recorded in turn, so tasks depending on them are skipped too.
+   */
+  resolve = (result: TaskBatchServiceResult): TaskDependencyUpdate => {
+    const update: TaskDependencyUpdate = { ready: [], skipped: [] };
+
+    this.#results[result.id] = result;
+
+    Object.keys(this.#waiting)
+      .map(id => this.#waiting[id])
+      .filter(({ dependsOn = [] }) => dependsOn.includes(result.id))
+      .forEach(task => {
+        const downstream = this.#resolveDownstream(task);
+        if (downstream instanceof TaskResult) {
+          delete this.#waiting[task.id];
+          update.skipped.push(downstream);
+        } else if (downstream) {
+          delete this.#waiting[task.id];
+          update.ready.push(downstream);
+        }
+      });
+
+    return update;
+  };
+
+  /**
+   * Build a waiting task's data from its upstream results, or a result skipping it
+   *
+   * Returns null if upstream tasks are still pending.
+   */
+  #resolveDownstream = (task: Task): Task | TaskResult | null => {
+    const { id, requestId, serviceName, addressType = '', dependsOn = [] } = task;
+    // Task data is the request's, as when the task's dependencies were planned
+    const dependencies = getServiceDependencies(serviceName, addressType, task.data);
+    const skip = (issue: string): TaskResult => {
+      debug.extend('resolve-downstream')(`skipping ${serviceName} task ${id}: ${issue}`);
+      return new TaskResult(id, requestId, 'skip', { issues: [issue] });
+    };
+
+    const upstreamResults = dependsOn.map(upstreamId => this.#results[upstreamId]);
+
+    // Skip as soon as any upstream task doesn't finish, without waiting for the rest
+    const unfinished = upstreamResults.findIndex(result => result && result.status !== 'done');
+    if (unfinished !== -1) {
+      const { service } = dependencies[unfinished];
+      return skip(
+        `Skipped because ${service}, which ${serviceName} depends on, has status '${upstreamResults[unfinished].status}'`
+      );
+    }
+
+    if (upstreamResults.some(result => !result)) {
+      return null;
+    }
+
+    let data = { ...task.data };
+    for (let index = 0; index < dependencies.length; index++) {
+      const { service, provides, data: buildData } = dependencies[index];
+      const upstreamData = buildData(upstreamResults[index].result.data || {});
+
+      if (!upstreamData) {
+        return skip(`Skipped because ${service} found no ${provides.join(', ')} for ${serviceName}`);
+      }
+
+      data = { ...data, ...upstreamData };
+    }
+
+    return { ...task, data };
+  };
+}
@@ -0,0 +1,102 @@
+/**
+ * Shape a resolved TaskBatchResult for API clients
+ */
+
+import { TaskBatchResult } from './RequestTaskBatchResolver';
+import { ResultCacheStatus } from './ResultCache';
+
+/**
+ * Client-facing results of a batch, grouped by task status
+ */
+export interface FormattedTaskBatchResult {
+  services?: { [x: string]: any };
+  failed?: { meta: string; services: { [x: string]: any } };
+  rejected?: { meta: string; services: { [x: string]: any } };
+  skipped?: { meta: string; services: { [x: string]: any } };
+  timedOut?: { meta: string; services: { [x: string]: any } };
+  // Whether each service's result came from the cache, and its age if so
+  cache?: { [x: string]: ResultCacheStatus };
+  // Attempts made at services that were retried
+  attempts?: { [x: string]: number };
+}
+
+/**
+ * Group a batch's results into successful `services`, plus `failed`, `rejected`, `skipped`, and
+ * `timedOut` services, with any cache metadata under `cache`, and attempts at retried services under
+ * `attempts`
+ *
+ * Used for every way results leave the server (HTTP responses, callbacks, etc.), so clients always
+ * get the same shape.
+ *
+ * @TODO implement escaping of JSON output for API!
+ */
+const formatTaskBatchResult = (results: TaskBatchResult): FormattedTaskBatchResult => {
+  const cleanResults: FormattedTaskBatchResult = {};
+
+  Object.keys(results.services).forEach(service => {
+    const { status, result, cache, attempts } = results.services[service];
+    const { data } = result;
+
+    if (cache) {
+      cleanResults.cache = cleanResults.cache || {};
+      cleanResults.cache[service] = cache;
+    }
+
+    if (attempts && attempts > 1) {
+      cleanResults.attempts = cleanResults.attempts || {};
+      cleanResults.attempts[service] = attempts;
+    }
+
+    switch (status) {
+      case 'fail':
+        cleanResults.failed = cleanResults.failed || {
+          meta: `Services that failed due to an issue with an upstream provider.`,
+          services: {}
+        };
+
+        cleanResults.failed.services[service] = result;
+        break;
+
+      // Note: validateRequestDataForServices() should prevent invalid data for services, so 'reject'
+      // indicates a bug in our attempts to not get to this branch... Still a good safeguard though.
+      case 'reject':
+        cleanResults.rejected = cleanResults.rejected || {
+          meta: `Services that rejected the request. This is likely due to not including data required by the service in the request.`,
+          services: {}
+        };
+
+        cleanResults.rejected.services[service] = result;
+        break;
+
+      case 'skip':
+        cleanResults.skipped = cleanResults.skipped || {
+          meta: `Services not run because services they depend on didn't finish.`,
+          services: {}
+        };
+
+        cleanResults.skipped.services[service] = result;
+        break;
+
+      case 'timeout':
+        cleanResults.timedOut = cleanResults.timedOut || {
+          meta: `Services that didn't finish in time. Other services' results are unaffected.`,
+          services: {}
+        };
+
+        cleanResults.timedOut.services[service] = result;
+        break;
+
+      case 'done':
+        cleanResults.services = cleanResults.services || {};
+        cleanResults.services[service] = data;
+        break;
+
+      default:
+        throw new Error(`service ${service} passed by resolver with invalid status ${status}`);
+    }
+  });
+
+  return cleanResults;
+};
+
+export default formatTaskBatchResult;
@@ -0,0 +1,307 @@
+/**
+ * OpenAPI documentation of IPServicesController routes
+ *
+ * Functions, rather than objects, where docs depend on the service registry.
+ */
+
+import { RouteDocs } from '../../controllers';
+import { getAddressDataKeys, registeredAddressTypes } from '../../addressTypes';
+import { dataSchemaToJSONSchema, JSONSchema, typeToJSONSchema } from '../../openapi';
+import { registeredServices, TaskResultStatuses } from '../../taskServices';
+
+/**
+ * Schema of error and other message-only responses (see RouteHandlerResponse)
+ */
+const messageSchema: JSONSchema = {
+  type: 'object',
+  properties: { message: { type: 'string' } },
+  required: ['message']
+};
+
+/**
+ * Shape of responses rejecting request data, with an issue per problem, e.g. per field and service
+ */
+const requestDataIssuesSchema: JSONSchema = {
+  type: 'object',
+  properties: { message: { type: 'string' }, issues: { type: 'array', items: { type: 'string' } } },
+  required: ['message']
+};
+
+/**
+ * Schema of registered services' names
+ */
+const serviceNameSchema = (): JSONSchema => ({
+  type: 'string',
+  enum: registeredServices.map(({ name }) => name)
+});
+
+/**
+ * Schema of a failed, rejected, or skipped service's result
+ */
+const issuesSchema: JSONSchema = {
+  type: 'object',
+  properties: {
+    issues: { type: 'array', items: { type: 'string' } },
+    data: { type: 'object' }
+  }
+};
+
+/**
+ * Schema of a service result's cache metadata (see ResultCache)
+ */
+const cacheStatusSchema: JSONSchema = {
+  type: 'object',
+  properties: {
+    status: { type: 'string', enum: ['hit', 'miss', 'bypass', 'uncached'] },
+    age: { type: 'integer' }
+  }
+};
+
+/**
+ * Schema of batch results grouped by status (see formatTaskBatchResult)
+ */
+const formattedResultsSchema = (): JSONSchema => {
+  const services: { [x: string]: JSONSchema } = {};
+  registeredServices.forEach(({ name, returnType }) => {
+    services[name] = typeToJSONSchema(returnType);
+  });
+
+  const grouped: JSONSchema = {
+    type: 'object',
+    properties: {
+      meta: { type: 'string' },
+      services: { type: 'object', additionalProperties: issuesSchema }
+    }
+  };
+
+  return {
+    type: 'object',
+    properties: {
+      services: { type: 'object', properties: services },
+      failed: grouped,
+      rejected: grouped,
+      skipped: grouped,
+      timedOut: grouped,
+      cache: { type: 'object', additionalProperties: cacheStatusSchema },
+      attempts: { type: 'object', additionalProperties: { type: 'integer', minimum: 2 } }
+    }
+  };
+};
+
+/**
+ * Schema of a stored batch's status (see RequestBatchStore)
+ */
+const storedBatchSchema = (): JSONSchema => ({
+  type: 'object',
+  properties: {
+    requestId: { type: 'string' },
+    status: { type: 'string', enum: ['pending', 'done', 'timeout'] },
+    createdAt: { type: 'string', format: 'date-time' },
+    finishedAt: { type: 'string', format: 'date-time' },
+    services: {
+      type: 'object',
+      additionalProperties: {
+        type: 'object',
+        properties: {
+          status: { type: 'string', enum: ['pending', ...TaskResultStatuses] },
+          result: issuesSchema,
+          cache: cacheStatusSchema,
+          attempts: { type: 'integer', minimum: 1 }
+        }
+      }
+    }
+  },
+  required: ['requestId', 'status', 'createdAt', 'services']
+});
+
+export const helpDocs = (): RouteDocs => ({
+  summary: 'Describe available services and how to request them',
+  responses: {
+    200: {
+      description: 'Service catalogue',
+      schema: {
+        type: 'object',
+        properties: {
+          description: { type: 'string' },
+          usage: { type: 'object' },
+          addressTypes: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                name: { type: 'string', enum: registeredAddressTypes.map(({ name }) => name) },
+                description: { type: 'string' },
+                example: { type: 'string' },
+                dataKeys: { type: 'array', items: { type: 'string' } }
+              }
+            }
+          },
+          defaultServices: { type: 'array', items: serviceNameSchema() },
+          services: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                name: serviceNameSchema(),
+                description: { type: 'string' },
+                default: { type: 'boolean' },
+                addressTypes: { type: 'array', items: { type: 'string' } },
+                cacheTTL: { type: 'integer' },
+                timeoutMs: { type: 'integer' },
+                retry: { type: 'object', nullable: true },
+                dependsOn: { type: 'array', items: serviceNameSchema() },
+                returnType: {},
+                requiredData: { type: 'object' },
+                example: { type: 'object' }
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+});
+
+export const doTasksDocs = (): RouteDocs => {
+  // Data keys some services require in request.body.data
+  const addressDataKeys = getAddressDataKeys();
+  const dataProperties: { [x: string]: JSONSchema } = {};
+  registeredServices.forEach(({ requiredData = {} }) => {
+    Object.keys(requiredData)
+      .filter(key => !addressDataKeys.includes(key))
+      .forEach(key => {
+        dataProperties[key] = dataSchemaToJSONSchema(requiredData[key]);
+      });
+  });
+
+  return {
+    summary: 'Request services for an address, e.g. an IP address, domain name, CIDR block, URL, email address, or ASN',
+    description:
+      'Waits for all services by default. Pass `wait: false` or a `callbackUrl` to get a 202 with a URL to ' +
+      'poll, or send `Accept: text/event-stream` to stream each service result as it resolves. Services with a ' +
+      '`cacheTTL` answer from cache when possible, unless `cache: false`, or the result is older than `maxAge`. ' +
+      "Services listed in a requested service's `dependsOn` are added as needed, and run first; if they don't " +
+      'finish, it is `skipped`.',
+    requestBody: {
+      type: 'object',
+      properties: {
+        services: {
+          oneOf: [serviceNameSchema(), { type: 'array', items: serviceNameSchema() }]
+        },
+        data: { type: 'object', properties: dataProperties },
+        wait: { type: 'boolean', default: true },
+        callbackUrl: { type: 'string', format: 'uri' },
+        cache: { type: 'boolean', default: true },
+        maxAge: { type: 'number', minimum: 0 },
+        failOnTimeout: { type: 'boolean', default: false }
+      }
+    },
+    responses: {
+      200: { description: 'Results of all requested services', schema: formattedResultsSchema() },
+      202: {
+        description: 'Services started; poll for results',
+        schema: {
+          type: 'object',
+          properties: {
+            requestId: { type: 'string' },
+            status: { type: 'string', enum: ['pending'] },
+            poll: { type: 'string' }
+          }
+        }
+      },
+      400: {
+        description:
+          "Invalid address or request body, requested services not accepting the address type, or data not meeting requested services' `requiredData`, with `issues` describing each problem",
+        schema: requestDataIssuesSchema
+      },
+      404: { description: 'Requested services do not exist', schema: messageSchema },
+      503: { description: 'Unable to start processing the request', schema: messageSchema },
+      504: { description: 'A service timed out, with `failOnTimeout`', schema: messageSchema }
+    }
+  };
+};
+
+export const doBulkTasksDocs = (): RouteDocs => {
+  const { requestBody } = doTasksDocs();
+  const requestProperties = (requestBody && requestBody.properties) || {};
+
+  // Per-address results: formatted results, or why the address can't be processed
+  const formattedResults = formattedResultsSchema();
+  const addressResultSchema: JSONSchema = {
+    ...formattedResults,
+    properties: { ...formattedResults.properties, addressType: { type: 'string' }, error: { type: 'string' } }
+  };
+
+  return {
+    summary: 'Request services for many addresses at once',
+    description:
+      'Responds with results keyed by address once all finish, with an `error` for each invalid address, or send ' +
+      '`Accept: application/x-ndjson` to stream each address result as a line of JSON (with an `address` key) ' +
+      'as it resolves. Services still pending when the request times out are listed under `timedOut`.',
+    requestBody: {
+      type: 'object',
+      properties: {
+        addresses: { type: 'array', items: { type: 'string' }, minItems: 1 },
+        services: requestProperties.services,
+        data: requestProperties.data,
+        cache: requestProperties.cache,
+        maxAge: requestProperties.maxAge
+      },
+      required: ['addresses']
+    },
+    responses: {
+      200: {
+        description: 'Results of requested services for each address',
+        schema: {
+          type: 'object',
+          properties: {
+            requestId: { type: 'string' },
+            results: { type: 'object', additionalProperties: addressResultSchema }
+          }
+        }
+      },
+      400: { description: 'Invalid addresses array or request body', schema: messageSchema },
+      404: { description: 'Requested services do not exist', schema: messageSchema }
+    }
+  };
+};
+
+export const getJobDocs = (): RouteDocs => ({
+  summary: 'Get the status and results so far of a batch started with `wait: false`',
+  responses: {
+    200: { description: 'Batch status and results', schema: storedBatchSchema() },
+    404: { description: 'No such batch, or it expired', schema: messageSchema },
+    503: { description: 'Unable to get results', schema: messageSchema }
+  }
+});
+
+export const getJobCallbacksDocs: RouteDocs = {
+  summary: "Get the delivery log of a batch's callback",
+  responses: {
+    200: {
+      description: 'Callback delivery attempts, oldest first',
+      schema: {
+        type: 'object',
+        properties: {
+          requestId: { type: 'string' },
+          deliveries: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                attempt: { type: 'integer' },
+                url: { type: 'string' },
+                timestamp: { type: 'string', format: 'date-time' },
+                delivered: { type: 'boolean' },
+                statusCode: { type: 'integer' },
+                error: { type: 'string' },
+                refused: { type: 'boolean' }
+              }
+            }
+          }
+        }
+      }
+    },
+    503: { description: 'Unable to get the delivery log', schema: messageSchema }
+  }
+};
@@ -0,0 +1,171 @@
+/**
+ * Machine-readable catalogue of IP services, built from @Service registrations
+ */
+
+import { AddressTypeConfig, getAddressDataKeys, registeredAddressTypes } from '../../addressTypes';
+import { RegisteredService, registeredServices, TaskServiceExample, TaskServiceRetryPolicy } from '../../taskServices';
+import { REQUEST_TIMEOUT_MS } from '../../shared';
+import { DataFieldSchema, DataSchema, isOptionalDataSchema, normalizeDataSchema } from '../../dataSchema';
+
+/**
+ * Build an example request.body.data value meeting a schema, leaving out optional properties
+ */
+const buildExampleValue = (schema: DataSchema): any => {
+  const { type, enum: allowed, properties = {}, items, minimum, minItems = 1 } = normalizeDataSchema(schema);
+
+  if (allowed) {
+    return allowed[0];
+  }
+
+  switch (type) {
+    case 'number':
+    case 'integer':
+      return minimum === undefined ? 0 : minimum;
+    case 'boolean':
+      return true;
+    case 'array':
+      return items ? Array.from({ length: Math.max(minItems, 1) }, () => buildExampleValue(items)) : [];
+    case 'object': {
+      const example: { [x: string]: any } = {};
+      Object.keys(properties)
+        .filter(key => !isOptionalDataSchema(properties[key]))
+        .forEach(key => {
+          example[key] = buildExampleValue(properties[key]);
+        });
+      return example;
+    }
+    default:
+      return 'string';
+  }
+};
+
+/**
+ * A catalogued service
+ */
+export interface CataloguedService {
+  name: string;
+  description: string;
+  default: boolean;
+  addressTypes: string[];
+  // Seconds results are cached for; 0 if not cached
+  cacheTTL: number;
+  // Milliseconds requests wait for results before listing the service under `timedOut`
+  timeoutMs: number;
+  // How failed tasks are retried, if at all
+  retry: Pick<TaskServiceRetryPolicy, 'attempts' | 'backoff'> | null;
+  // Services run first for addresses they accept, whose results provide data
+  dependsOn: string[];
+  returnType: RegisteredService['returnType'];
+  // Schemas of data the service takes, in full form (see dataSchema.ts)
+  requiredData: {
+    [x: string]: DataFieldSchema & {
+      // Where the request provides the data
+      in: 'address' | 'body.data';
+    };
+  };
+  example: {
+    method: 'POST';
+    path: string;
+    body: {
+      services: string[];
+      data?: { [x: string]: any };
+    };
+  };
+}
+
+/**
+ * A catalogued address type
+ */
+export type CataloguedAddressType = Pick<AddressTypeConfig, 'name' | 'description' | 'example' | 'dataKeys'>;
+
+/**
+ * Build a worked example request for a service, unless it configured its own
+ */
+const buildExample = (service: RegisteredService, prefix: string): CataloguedService['example'] => {
+  const { name, requiredData = {}, addressTypes } = service;
+  const addressDataKeys = getAddressDataKeys();
+
+  let example: TaskServiceExample;
+  if (service.example) {
+    example = service.example;
+  } else {
+    // An example of the first address type the service lists that provides all required address data
+    const requiredAddressKeys = Object.keys(requiredData).filter(
+      key => addressDataKeys.includes(key) && !isOptionalDataSchema(requiredData[key])
+    );
+    const addressType =
+      addressTypes
+        .map(typeName => registeredAddressTypes.find(({ name: registeredName }) => registeredName === typeName))
+        .find(type => type && requiredAddressKeys.every(key => type.dataKeys.includes(key))) ||
+      registeredAddressTypes[0];
+    const data: { [x: string]: any } = {};
+
+    Object.keys(requiredData)
+      .filter(key => !addressDataKeys.includes(key) && !isOptionalDataSchema(requiredData[key]))
+      .forEach(key => {
+        data[key] = buildExampleValue(requiredData[key]);
+      });
+
+    example = { address: addressType.example };
+    if (Object.keys(data).length) {
+      example.data = data;
+    }
+  }
+
+  const body: CataloguedService['example']['body'] = { services: [name] };
+  if (example.data) {
+    body.data = example.data;
+  }
+
+  return { method: 'POST', path: `${prefix}/${encodeURIComponent(example.address)}`, body };
+};
+
+/**
+ * Catalogue every registered address type
+ */
+export const buildAddressTypeCatalogue = (): CataloguedAddressType[] =>
+  registeredAddressTypes.map(({ name, description, example, dataKeys }) => ({ name, description, example, dataKeys }));
+
+/**
+ * Catalogue every registered service
+ *
+ * @param prefix {string} The IP services endpoint prefix, for example request paths
+ * @param defaultServices {string[]} Names of services used when a request doesn't specify any
+ */
+export const buildServiceCatalogue = (prefix: string, defaultServices: readonly string[]): CataloguedService[] =>
+  registeredServices.map(service => {
+    const {
+      name,
+      description,
+      returnType,
+      requiredData = {},
+      addressTypes,
+      cacheTTL = 0,
+      timeoutMs,
+      retry,
+      dependsOn = []
+    } = service;
+    const addressDataKeys = getAddressDataKeys();
+
+    const cataloguedRequiredData: CataloguedService['requiredData'] = {};
+    Object.keys(requiredData).forEach(key => {
+      cataloguedRequiredData[key] = {
+        ...normalizeDataSchema(requiredData[key]),
+        in: addressDataKeys.includes(key) ? 'address' : 'body.data'
+      };
+    });
+
+    return {
+      name,
+      description,
+      default: defaultServices.includes(name),
+      addressTypes,
+      cacheTTL,
+      timeoutMs: Math.min(timeoutMs || REQUEST_TIMEOUT_MS, REQUEST_TIMEOUT_MS),
+      retry: retry ? { attempts: retry.attempts, backoff: retry.backoff } : null,
+      dependsOn: dependsOn.map(dependency => dependency.service),
+      returnType,
+      requiredData: cataloguedRequiredData,
+      example: buildExample(service, prefix)
+    };
+  });
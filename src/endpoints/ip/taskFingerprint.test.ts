@@ -0,0 +1,36 @@
+import { strict as assert } from 'assert';
+
+import { Task } from '../../taskServices';
+import taskFingerprint from './taskFingerprint';
+
+const task = (overrides: Partial<Task>): Task => ({
+  id: 'task-1',
+  requestId: 'request-1',
+  serviceName: 'reachability',
+  data: { ip: '192.0.2.1', ports: [80, 443] },
+  ...overrides
+});
+
+describe('taskFingerprint', () => {
+  it('identifies tasks by service and data, not by ID or batch', () => {
+    const fingerprint = taskFingerprint(task({}));
+
+    assert.match(fingerprint, /^reachability:[0-9a-f]+$/);
+    assert.equal(taskFingerprint(task({ id: 'task-2', requestId: 'request-2' })), fingerprint);
+  });
+
+  it('ignores key order, at any depth', () => {
+    assert.equal(
+      taskFingerprint(task({ data: { url: { scheme: 'https', host: 'example.com' }, port: 443 } })),
+      taskFingerprint(task({ data: { port: 443, url: { host: 'example.com', scheme: 'https' } } }))
+    );
+  });
+
+  it('tells apart different services and data', () => {
+    const fingerprint = taskFingerprint(task({}));
+
+    assert.notEqual(taskFingerprint(task({ serviceName: 'tls' })), fingerprint);
+    assert.notEqual(taskFingerprint(task({ data: { ip: '192.0.2.1', ports: [443, 80] } })), fingerprint);
+    assert.notEqual(taskFingerprint(task({ data: { ip: '192.0.2.2', ports: [80, 443] } })), fingerprint);
+  });
+});
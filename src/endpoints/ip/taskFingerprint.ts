@@ -0,0 +1,37 @@
+/**
+ * Identify tasks by the work they do, rather than by ID
+ */
+
+import { Task } from '../../taskServices';
+import { hashHex } from '../../utils';
+
+/**
+ * Sort object keys recursively, so equal data serializes the same regardless of key order
+ */
+const normalizeData = (value: any): any => {
+  if (Array.isArray(value)) {
+    return value.map(normalizeData);
+  }
+
+  if (value && typeof value === 'object') {
+    const normalized: { [x: string]: any } = {};
+    Object.keys(value)
+      .sort()
+      .forEach(key => {
+        normalized[key] = normalizeData(value[key]);
+      });
+    return normalized;
+  }
+
+  return value;
+};
+
+/**
+ * Fingerprint a task by its service name and normalized data, e.g. `geoip:<sha256 hex>`
+ *
+ * Tasks with equal fingerprints get equal results (give or take time), whichever request they're from.
+ */
+const taskFingerprint = ({ serviceName, data }: Task): string =>
+  `${serviceName}:${hashHex(JSON.stringify(normalizeData(data)))}`;
+
+export default taskFingerprint;
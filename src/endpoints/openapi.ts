@@ -0,0 +1,26 @@
+/**
+ * OpenAPI document endpoint
+ */
+import { Request } from 'express';
+
+import { EndpointController, Endpoint, GET, RouteHandlerResponse } from '../controllers';
+import { buildOpenAPIDocument } from '../openapi';
+
+/**
+ * OpenAPI endpoint controller
+ */
+@Endpoint('/openapi')
+export default class OpenAPIController extends EndpointController {
+  /**
+   * Respond with an OpenAPI 3 document describing the whole API
+   *
+   * Generated on each request, so it always reflects registered controllers and services.
+   */
+  @GET('/', {
+    summary: 'Get an OpenAPI 3 document describing this API',
+    responses: { 200: { description: 'OpenAPI 3 document', schema: { type: 'object' } } }
+  })
+  document = (_req: Request): RouteHandlerResponse => {
+    return new RouteHandlerResponse(200, buildOpenAPIDocument());
+  };
+}
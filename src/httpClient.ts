@@ -0,0 +1,90 @@
+/**
+ * Minimal promise-based HTTP(S) client
+ *
+ * Just enough for talking to webhooks and upstream JSON APIs without adding a dependency.
+ */
+import { IncomingHttpHeaders, OutgoingHttpHeaders, request as httpRequestRaw, RequestOptions } from 'http';
+import { request as httpsRequestRaw } from 'https';
+import { LookupFunction } from 'net';
+import { URL } from 'url';
+
+import CancellationSignal, { TaskCancelledError } from './CancellationSignal';
+
+// Default milliseconds to wait for a response before giving up
+const DEFAULT_TIMEOUT_MS = 5000;
+
+export interface HttpRequestOptions {
+  method?: 'GET' | 'POST';
+  headers?: OutgoingHttpHeaders;
+  body?: string;
+  timeout?: number;
+  // Aborts the request when cancelled
+  signal?: CancellationSignal;
+  // Resolves the URL's hostname, if it isn't an IP, instead of dns.lookup
+  lookup?: LookupFunction;
+}
+
+export interface HttpResponse {
+  statusCode: number;
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+/**
+ * Send an HTTP(S) request, resolving with the full response
+ *
+ * Resolves for any response status code; rejects only for network errors, timeouts, and cancellation.
+ */
+export const httpRequest = (url: string, options: HttpRequestOptions = {}): Promise<HttpResponse> => {
+  const { method = 'GET', headers = {}, body, timeout = DEFAULT_TIMEOUT_MS, signal, lookup } = options;
+
+  return new Promise((resolve, reject) => {
+    const target = new URL(url);
+    const requestRaw = target.protocol === 'https:' ? httpsRequestRaw : httpRequestRaw;
+
+    const outgoingHeaders = { ...headers };
+    if (body !== undefined) {
+      outgoingHeaders['Content-Length'] = Buffer.byteLength(body);
+    }
+
+    // `lookup` is passed on to the socket at runtime, but missing from @types/node's RequestOptions
+    const requestOptions: RequestOptions & { lookup?: LookupFunction } = { method, headers: outgoingHeaders, lookup };
+
+    const request = requestRaw(target, requestOptions, response => {
+      const chunks: Buffer[] = [];
+
+      response.on('data', chunk => chunks.push(chunk));
+      response.on('error', reject);
+      response.on('end', () => {
+        resolve({
+          statusCode: response.statusCode || 0,
+          headers: response.headers,
+          body: Buffer.concat(chunks).toString('utf8')
+        });
+      });
+    });
+
+    request.setTimeout(timeout, () => {
+      request.destroy(new Error(`Request to ${target.origin} timed out after ${timeout}ms`));
+    });
+    request.on('error', reject);
+
+    if (signal) {
+      signal.onCancel(reason => request.destroy(new TaskCancelledError(reason)));
+    }
+
+    request.end(body);
+  });
+};
+
+/**
+ * Is a string an absolute http: or https: URL
+ */
+export const isHttpUrl = (url: string): boolean => {
+  try {
+    const { protocol } = new URL(url);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch (e) {
+    return false;
+  }
+};
@@ -0,0 +1,90 @@
+import { strict as assert } from 'assert';
+
+import { formatIPv6, getCIDRLastAddress, getCIDRSize, isInCIDR, parseCIDR, parseIP, ParsedCIDR } from './ipAddress';
+
+describe('ipAddress', () => {
+  describe('parseIP', () => {
+    it('parses IPv4', () => {
+      assert.deepEqual(parseIP('192.0.2.1'), { family: 4, bytes: [192, 0, 2, 1], canonical: '192.0.2.1' });
+    });
+
+    it('rejects invalid IPv4, including leading zeros some parsers read as octal', () => {
+      ['256.0.0.1', '1.2.3', '1.2.3.4.5', '01.2.3.4', '1.2.3.-4', ''].forEach(address =>
+        assert.equal(parseIP(address), false, address)
+      );
+    });
+
+    it('parses IPv6 to canonical form', () => {
+      const parsed = parseIP('2001:0DB8:0000:0000:0000:0000:0000:0001');
+
+      assert.ok(parsed);
+      assert.equal(parsed.family, 6);
+      assert.equal(parsed.canonical, '2001:db8::1');
+      assert.equal(parsed.bytes.length, 16);
+    });
+
+    it('parses bracketed IPv6, zone IDs, and IPv4-mapped addresses', () => {
+      assert.equal((parseIP('[::1]') || { canonical: null }).canonical, '::1');
+      assert.deepEqual(parseIP('fe80::1%eth0'), {
+        family: 6,
+        bytes: [0xfe, 0x80, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1],
+        canonical: 'fe80::1%eth0',
+        zone: 'eth0'
+      });
+      assert.equal((parseIP('::ffff:c000:201') || { mappedIPv4: null }).mappedIPv4, '192.0.2.1');
+    });
+
+    it('rejects invalid IPv6', () => {
+      ['1::2::3', '1:2:3:4:5:6:7:8:9', '12345::', '1:2:3:4:5:6:7::8', 'fe80::1%', '::ffff:1.2.3.256'].forEach(address =>
+        assert.equal(parseIP(address), false, address)
+      );
+    });
+  });
+
+  describe('formatIPv6', () => {
+    it('compresses the longest run of zero groups, the first if tied', () => {
+      const bytes = (address: string) => (parseIP(address) || { bytes: [] }).bytes;
+
+      assert.equal(formatIPv6(bytes('2001:db8:0:0:1:0:0:1')), '2001:db8::1:0:0:1');
+      assert.equal(formatIPv6(bytes('2001:db8:0:1:0:0:0:1')), '2001:db8:0:1::1');
+      assert.equal(formatIPv6(bytes('2001:db8:1:1:1:1:0:1')), '2001:db8:1:1:1:1:0:1');
+    });
+  });
+
+  describe('parseCIDR', () => {
+    it('parses blocks, zeroing host bits', () => {
+      assert.deepEqual(parseCIDR('192.0.2.77/24'), {
+        family: 4,
+        bytes: [192, 0, 2, 0],
+        prefixLength: 24,
+        canonical: '192.0.2.0/24'
+      });
+      assert.equal((parseCIDR('2001:DB8:ffff::/32') || { canonical: null }).canonical, '2001:db8::/32');
+    });
+
+    it('rejects invalid blocks', () => {
+      ['192.0.2.0', '192.0.2.0/33', '::/129', '192.0.2.0/24/1', 'fe80::%eth0/64', '192.0.2.0/x'].forEach(cidr =>
+        assert.equal(parseCIDR(cidr), false, cidr)
+      );
+    });
+  });
+
+  describe('CIDR helpers', () => {
+    const v4 = parseCIDR('10.0.0.0/8') as ParsedCIDR;
+    const v6 = parseCIDR('2001:db8::/32') as ParsedCIDR;
+
+    it('tests membership by family', () => {
+      assert.equal(isInCIDR([10, 255, 0, 1], v4), true);
+      assert.equal(isInCIDR([11, 0, 0, 1], v4), false);
+      assert.equal(isInCIDR((parseIP('2001:db8::1') || { bytes: [] }).bytes, v4), false);
+      assert.equal(isInCIDR((parseIP('2001:db8::1') || { bytes: [] }).bytes, v6), true);
+    });
+
+    it('finds last addresses and sizes', () => {
+      assert.deepEqual(getCIDRLastAddress(v4), [10, 255, 255, 255]);
+      assert.equal(getCIDRSize(v4), '16777216');
+      assert.equal(getCIDRSize(v6), '79228162514264337593543950336');
+      assert.equal(getCIDRSize(parseCIDR('192.0.2.1/32') as ParsedCIDR), '1');
+    });
+  });
+});
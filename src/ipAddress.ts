@@ -0,0 +1,330 @@
+/**
+ * IPv4 and IPv6 address parsing and formatting
+ */
+
+export type IPFamily = 4 | 6;
+
+/**
+ * A parsed IP address
+ */
+export interface ParsedIP {
+  family: IPFamily;
+  // Network-order bytes; 4 for IPv4, 16 for IPv6
+  bytes: number[];
+  // Canonical text form: dotted decimal for IPv4, RFC 5952 for IPv6
+  canonical: string;
+  // IPv6 zone ID (e.g. `eth0` in `fe80::1%eth0`), if any
+  zone?: string;
+  // IPv4 address embedded in an IPv4-mapped IPv6 address (e.g. `1.2.3.4` in `::ffff:1.2.3.4`), if any
+  mappedIPv4?: string;
+}
+
+/**
+ * Parse dotted-decimal IPv4 to bytes
+ *
+ * Strict: exactly four decimal octets, no leading zeros (which some parsers treat as octal).
+ */
+const parseIPv4Bytes = (address: string): number[] | false => {
+  const octets = address.split('.');
+
+  if (octets.length !== 4) {
+    return false;
+  }
+
+  const bytes: number[] = [];
+  for (const octet of octets) {
+    if (!/^(0|[1-9][0-9]{0,2})$/.test(octet) || Number(octet) > 255) {
+      return false;
+    }
+    bytes.push(Number(octet));
+  }
+
+  return bytes;
+};
+
+/**
+ * Parse IPv6 (without zone ID) to bytes
+ *
+ * Supports `::` compression and a trailing embedded IPv4 address (e.g. `::ffff:1.2.3.4`).
+ */
+const parseIPv6Bytes = (address: string): number[] | false => {
+  const halves = address.split('::');
+
+  if (halves.length > 2) {
+    return false;
+  }
+
+  // Parse one side of a `::` into 16-bit groups
+  const parseGroups = (part: string, allowIPv4: boolean): number[] | false => {
+    if (part === '') {
+      return [];
+    }
+
+    const groups: number[] = [];
+    const pieces = part.split(':');
+
+    for (let i = 0; i < pieces.length; i++) {
+      const piece = pieces[i];
+
+      // An embedded IPv4 address may only be the final piece
+      if (allowIPv4 && i === pieces.length - 1 && piece.includes('.')) {
+        const ipv4 = parseIPv4Bytes(piece);
+        if (!ipv4) {
+          return false;
+        }
+        groups.push((ipv4[0] << 8) | ipv4[1], (ipv4[2] << 8) | ipv4[3]);
+        continue;
+      }
+
+      if (!/^[0-9a-f]{1,4}$/i.test(piece)) {
+        return false;
+      }
+      groups.push(parseInt(piece, 16));
+    }
+
+    return groups;
+  };
+
+  const head = parseGroups(halves[0], halves.length === 1);
+  const tail = halves.length === 2 ? parseGroups(halves[1], true) : [];
+
+  if (!head || !tail) {
+    return false;
+  }
+
+  let groups: number[];
+  if (halves.length === 2) {
+    // `::` stands for at least one group of zeros
+    const zeros = 8 - head.length - tail.length;
+    if (zeros < 1) {
+      return false;
+    }
+    groups = [...head, ...new Array(zeros).fill(0), ...tail];
+  } else {
+    groups = head;
+  }
+
+  if (groups.length !== 8) {
+    return false;
+  }
+
+  const bytes: number[] = [];
+  groups.forEach(group => bytes.push(group >> 8, group & 0xff));
+
+  return bytes;
+};
+
+/**
+ * Whether IPv6 bytes are an IPv4-mapped address (`::ffff:0:0/96`)
+ */
+const isIPv4Mapped = (bytes: number[]): boolean =>
+  bytes.length === 16 && bytes.slice(0, 10).every(byte => byte === 0) && bytes[10] === 0xff && bytes[11] === 0xff;
+
+/**
+ * Format IPv4 bytes as dotted decimal
+ */
+export const formatIPv4 = (bytes: number[]): string => bytes.join('.');
+
+/**
+ * Format IPv6 bytes in RFC 5952 canonical form
+ *
+ * Lowercase hex without leading zeros; the longest run of two or more zero groups (the first, if
+ * tied) compressed to `::`; IPv4-mapped addresses with dotted-decimal IPv4.
+ */
+export const formatIPv6 = (bytes: number[]): string => {
+  if (isIPv4Mapped(bytes)) {
+    return `::ffff:${formatIPv4(bytes.slice(12))}`;
+  }
+
+  const groups: number[] = [];
+  for (let i = 0; i < 16; i += 2) {
+    groups.push((bytes[i] << 8) | bytes[i + 1]);
+  }
+
+  // Find the longest run of zero groups
+  let bestStart = -1;
+  let bestLength = 0;
+  for (let i = 0; i < 8; i++) {
+    let length = 0;
+    while (i + length < 8 && groups[i + length] === 0) {
+      length++;
+    }
+    if (length > bestLength) {
+      bestStart = i;
+      bestLength = length;
+    }
+    i += length;
+  }
+
+  const hex = groups.map(group => group.toString(16));
+
+  if (bestLength < 2) {
+    return hex.join(':');
+  }
+
+  const head = hex.slice(0, bestStart).join(':');
+  const tail = hex.slice(bestStart + bestLength).join(':');
+
+  return `${head}::${tail}`;
+};
+
+/**
+ * Format bytes of either family in canonical form
+ */
+export const formatIP = (bytes: number[]): string => (bytes.length === 4 ? formatIPv4(bytes) : formatIPv6(bytes));
+
+/**
+ * Parse an IPv4 or IPv6 address, or return false if invalid
+ *
+ * IPv6 addresses may include a zone ID (e.g. `fe80::1%eth0`) and may be wrapped in brackets (e.g.
+ * `[2001:db8::1]`), as in URLs.
+ */
+export const parseIP = (address: string): ParsedIP | false => {
+  if (!address || typeof address !== 'string') {
+    return false;
+  }
+
+  const ipv4 = parseIPv4Bytes(address);
+  if (ipv4) {
+    return { family: 4, bytes: ipv4, canonical: formatIPv4(ipv4) };
+  }
+
+  let ipv6Address = address;
+  if (ipv6Address.startsWith('[') && ipv6Address.endsWith(']')) {
+    ipv6Address = ipv6Address.slice(1, -1);
+  }
+
+  let zone: string | undefined;
+  const zoneIndex = ipv6Address.indexOf('%');
+  if (zoneIndex !== -1) {
+    zone = ipv6Address.slice(zoneIndex + 1);
+    ipv6Address = ipv6Address.slice(0, zoneIndex);
+
+    if (!/^[0-9a-z._~-]+$/i.test(zone)) {
+      return false;
+    }
+  }
+
+  const ipv6 = parseIPv6Bytes(ipv6Address);
+  if (!ipv6) {
+    return false;
+  }
+
+  const parsed: ParsedIP = {
+    family: 6,
+    bytes: ipv6,
+    canonical: zone ? `${formatIPv6(ipv6)}%${zone}` : formatIPv6(ipv6)
+  };
+
+  if (zone) {
+    parsed.zone = zone;
+  }
+
+  if (isIPv4Mapped(ipv6)) {
+    parsed.mappedIPv4 = formatIPv4(ipv6.slice(12));
+  }
+
+  return parsed;
+};
+
+/**
+ * A parsed CIDR block, e.g. `192.0.2.0/24`
+ */
+export interface ParsedCIDR {
+  family: IPFamily;
+  // Network address bytes, with host bits zeroed
+  bytes: number[];
+  prefixLength: number;
+  // Canonical text form, e.g. `2001:db8::/32`
+  canonical: string;
+}
+
+/**
+ * Zero the host bits of address bytes beyond a prefix length
+ */
+const maskBytes = (bytes: number[], prefixLength: number): number[] =>
+  bytes.map((byte, i) => {
+    const bits = Math.min(Math.max(prefixLength - i * 8, 0), 8);
+    return byte & ((0xff << (8 - bits)) & 0xff);
+  });
+
+/**
+ * Parse a CIDR block, or return false if invalid
+ *
+ * Host bits set in the address (e.g. `192.0.2.1/24`) are allowed, and zeroed.
+ */
+export const parseCIDR = (cidr: string): ParsedCIDR | false => {
+  if (!cidr || typeof cidr !== 'string') {
+    return false;
+  }
+
+  const [address, length, ...rest] = cidr.split('/');
+
+  if (rest.length || !length || !/^[0-9]{1,3}$/.test(length)) {
+    return false;
+  }
+
+  const ip = parseIP(address);
+  if (!ip || ip.zone) {
+    return false;
+  }
+
+  const prefixLength = Number(length);
+  if (prefixLength > ip.bytes.length * 8) {
+    return false;
+  }
+
+  const bytes = maskBytes(ip.bytes, prefixLength);
+
+  return {
+    family: ip.family,
+    bytes,
+    prefixLength,
+    canonical: `${formatIP(bytes)}/${prefixLength}`
+  };
+};
+
+/**
+ * Whether address bytes fall within a CIDR block of the same family
+ */
+export const isInCIDR = (bytes: number[], cidr: ParsedCIDR): boolean => {
+  if (bytes.length !== cidr.bytes.length) {
+    return false;
+  }
+
+  const masked = maskBytes(bytes, cidr.prefixLength);
+
+  return masked.every((byte, i) => byte === cidr.bytes[i]);
+};
+
+/**
+ * Get the last address in a CIDR block, e.g. the broadcast address of an IPv4 block
+ */
+export const getCIDRLastAddress = (cidr: ParsedCIDR): number[] =>
+  cidr.bytes.map((byte, i) => {
+    const bits = Math.min(Math.max(cidr.prefixLength - i * 8, 0), 8);
+    return byte | (0xff >> bits);
+  });
+
+/**
+ * Get the number of addresses in a CIDR block, as a decimal string
+ *
+ * A string, since IPv6 blocks can hold more addresses than a number represents exactly.
+ */
+export const getCIDRSize = (cidr: ParsedCIDR): string => {
+  // Double a decimal string once per host bit
+  let digits = [1];
+  for (let i = 0; i < cidr.bytes.length * 8 - cidr.prefixLength; i++) {
+    let carry = 0;
+    digits = digits.map(digit => {
+      const doubled = digit * 2 + carry;
+      carry = doubled >= 10 ? 1 : 0;
+      return doubled % 10;
+    });
+    if (carry) {
+      digits.push(carry);
+    }
+  }
+
+  return digits.reverse().join('');
+};
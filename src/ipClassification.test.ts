@@ -0,0 +1,97 @@
+import { strict as assert } from 'assert';
+import { LookupAddress, LookupOptions } from 'dns';
+
+import { parseIP } from './ipAddress';
+import {
+  classifyIP,
+  describeNonGlobalAddress,
+  describeNonGlobalHost,
+  getNonGlobalCategory,
+  lookupGlobalAddress,
+  NonGlobalAddressError
+} from './ipClassification';
+
+const bytes = (address: string): number[] => (parseIP(address) || { bytes: [] }).bytes;
+
+// Typed as connections call it: @types/node types LookupFunction for one address, but connections may ask for all
+const lookupAddresses = lookupGlobalAddress as (
+  hostname: string,
+  options: LookupOptions,
+  callback: (error: Error | null, result?: string | LookupAddress[]) => void
+) => void;
+
+describe('ipClassification', () => {
+  describe('classifyIP', () => {
+    it('classifies by the most specific special-purpose range', () => {
+      assert.equal(classifyIP(bytes('10.1.2.3')).category, 'private');
+      assert.equal(classifyIP(bytes('100.64.0.1')).category, 'cgnat');
+      assert.equal(classifyIP(bytes('192.0.2.1')).category, 'documentation');
+      assert.equal(classifyIP(bytes('8.8.8.8')).category, 'global');
+      assert.deepEqual(classifyIP(bytes('8.8.8.8')).ranges, []);
+    });
+
+    it('treats IPv6 outside global unicast and the registry as reserved', () => {
+      assert.equal(classifyIP(bytes('2606:4700::1')).category, 'global');
+      assert.equal(classifyIP(bytes('4000::1')).category, 'reserved');
+    });
+  });
+
+  describe('getNonGlobalCategory', () => {
+    it('finds non-global addresses', () => {
+      assert.equal(getNonGlobalCategory('127.0.0.1'), 'loopback');
+      assert.equal(getNonGlobalCategory('169.254.169.254'), 'link-local');
+      assert.equal(getNonGlobalCategory('fe80::1'), 'link-local');
+      assert.equal(getNonGlobalCategory('not an address'), 'reserved');
+      assert.equal(getNonGlobalCategory('8.8.8.8'), null);
+    });
+
+    it('judges IPv4-mapped and NAT64 addresses by their IPv4 address', () => {
+      assert.equal(getNonGlobalCategory('::ffff:127.0.0.1'), 'loopback');
+      assert.equal(getNonGlobalCategory('::ffff:8.8.8.8'), null);
+      assert.equal(getNonGlobalCategory('64:ff9b::10.0.0.1'), 'private');
+      assert.equal(getNonGlobalCategory('64:ff9b::8.8.8.8'), null);
+    });
+  });
+
+  describe('describeNonGlobalAddress', () => {
+    it('describes the first non-global address, and the host resolving to it', () => {
+      assert.equal(describeNonGlobalAddress(['10.0.0.1']), '10.0.0.1 is a private address');
+      assert.equal(
+        describeNonGlobalAddress(['8.8.8.8', '10.0.0.1'], 'internal.example'),
+        'internal.example resolves to 10.0.0.1, a private address'
+      );
+      assert.equal(describeNonGlobalAddress(['8.8.8.8', '2606:4700::1'], 'example.com'), null);
+    });
+  });
+
+  describe('describeNonGlobalHost', () => {
+    it('checks IP hosts, bracketed or not', async () => {
+      assert.equal(await describeNonGlobalHost('[::1]'), '::1 is a loopback address');
+      assert.equal(await describeNonGlobalHost('8.8.8.8'), null);
+    });
+
+    it('checks what domains resolve to', async () => {
+      assert.match((await describeNonGlobalHost('localhost')) || '', /^localhost resolves to .+, a loopback address$/);
+    });
+  });
+
+  describe('lookupGlobalAddress', () => {
+    it('refuses hostnames resolving to non-global addresses, for one address or all', async () => {
+      const lookup = (all: boolean) =>
+        new Promise<Error | null>(resolve => lookupAddresses('localhost', { all }, error => resolve(error)));
+
+      assert.ok((await lookup(false)) instanceof NonGlobalAddressError);
+      assert.ok((await lookup(true)) instanceof NonGlobalAddressError);
+    });
+
+    it('resolves IP hostnames like dns.lookup', async () => {
+      const addresses = await new Promise<LookupAddress[]>((resolve, reject) =>
+        lookupAddresses('8.8.8.8', { all: true }, (error, result) =>
+          error ? reject(error) : resolve(result as LookupAddress[])
+        )
+      );
+
+      assert.deepEqual(addresses, [{ address: '8.8.8.8', family: 4 }]);
+    });
+  });
+});
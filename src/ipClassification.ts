@@ -0,0 +1,181 @@
+/**
+ * IP address classification by IANA special-purpose ranges
+ *
+ * Besides classifying addresses for the ip-classification service, keeps the services and callbacks
+ * that connect to requester-chosen hosts from reaching private, loopback, or other non-global ones.
+ */
+import { lookup as dnsLookup, LookupAddress, promises as dnsPromises } from 'dns';
+import { isIP, LookupFunction } from 'net';
+
+import { isInCIDR, parseCIDR, parseIP, ParsedCIDR } from './ipAddress';
+import { AddressCategory, SPECIAL_PURPOSE_REGISTRY, SpecialPurposeEntry } from './specialPurposeRegistry';
+
+/**
+ * Registry entries with parsed prefixes, most specific first
+ */
+const REGISTRY: Array<SpecialPurposeEntry & { cidr: ParsedCIDR }> = SPECIAL_PURPOSE_REGISTRY.map(entry => {
+  const cidr = parseCIDR(entry.prefix);
+  if (!cidr) {
+    throw new Error(`Invalid prefix '${entry.prefix}' in special-purpose registry`);
+  }
+  return { ...entry, cidr };
+}).sort((a, b) => b.cidr.prefixLength - a.cidr.prefixLength);
+
+/**
+ * IPv6 global unicast space; IPv6 addresses outside it and the registry are unallocated
+ */
+const IPV6_GLOBAL_UNICAST = parseCIDR('2000::/3') as ParsedCIDR;
+
+/**
+ * NAT64 well-known prefix, whose addresses embed the IPv4 address a translator connects to
+ */
+const NAT64_WELL_KNOWN = parseCIDR('64:ff9b::/96') as ParsedCIDR;
+
+/**
+ * Classification of an address
+ */
+export interface IPClassification {
+  category: AddressCategory;
+  // null when not applicable (e.g. multicast, whose reachability depends on scope)
+  globallyReachable: boolean | null;
+  // Whether the address should never appear as a source on the public internet
+  bogon: boolean;
+  // All special-purpose ranges containing the address, most specific first
+  ranges: Array<{ prefix: string; name: string; rfc: string }>;
+  // Classification of the embedded IPv4 address, for IPv4-mapped IPv6 addresses
+  mappedIPv4?: IPClassification;
+}
+
+/**
+ * Classify address bytes by the most specific special-purpose range containing them
+ */
+export const classifyIP = (bytes: number[]): IPClassification => {
+  const matches = REGISTRY.filter(({ cidr }) => isInCIDR(bytes, cidr));
+  const ranges = matches.map(({ prefix, name, rfc }) => ({ prefix, name, rfc }));
+
+  let category: AddressCategory = 'global';
+  let globallyReachable: boolean | null = true;
+
+  if (matches.length) {
+    ({ category, globallyReachable } = matches[0]);
+  } else if (bytes.length === 16 && !isInCIDR(bytes, IPV6_GLOBAL_UNICAST)) {
+    category = 'reserved';
+    globallyReachable = false;
+  }
+
+  return { category, globallyReachable, bogon: category !== 'global', ranges };
+};
+
+/**
+ * Get the category keeping an address from being global, or null if it's global
+ *
+ * IPv4-mapped and NAT64 addresses are judged by the IPv4 address they embed, as connections to
+ * them reach it. Addresses that don't parse aren't global.
+ */
+export const getNonGlobalCategory = (address: string): AddressCategory | null => {
+  const parsed = parseIP(address);
+  if (!parsed) {
+    return 'reserved';
+  }
+
+  if (parsed.mappedIPv4) {
+    return getNonGlobalCategory(parsed.mappedIPv4);
+  }
+
+  const { category } = classifyIP(parsed.bytes);
+  if (category !== 'global') {
+    return category;
+  }
+
+  if (parsed.family === 6 && isInCIDR(parsed.bytes, NAT64_WELL_KNOWN)) {
+    const embedded = classifyIP(parsed.bytes.slice(12)).category;
+    return embedded === 'global' ? null : embedded;
+  }
+
+  return null;
+};
+
+/**
+ * Describe the first address that isn't global, if any, e.g. 'example.test resolves to 10.0.0.1, a private address'
+ *
+ * @param addresses {string[]} Addresses to check; all must be global
+ * @param host {string} The name they were resolved from, if any
+ */
+export const describeNonGlobalAddress = (addresses: string[], host?: string): string | null => {
+  for (const address of addresses) {
+    const category = getNonGlobalCategory(address);
+
+    if (category) {
+      return host && host !== address
+        ? `${host} resolves to ${address}, a ${category} address`
+        : `${address} is a ${category} address`;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Describe why a host isn't global, if it's a non-global IP or resolves to any non-global addresses
+ *
+ * Rejects if a domain doesn't resolve. Domains may resolve differently by the time they're connected
+ * to, so connections should use lookupGlobalAddress too; this is for refusing hosts up front.
+ *
+ * @param host {string} A domain or IP, e.g. a URL's hostname, where IPv6 addresses are in brackets
+ */
+export const describeNonGlobalHost = async (host: string): Promise<string | null> => {
+  const unbracketed = host.replace(/^\[(.*)\]$/, '$1');
+
+  if (isIP(unbracketed)) {
+    return describeNonGlobalAddress([unbracketed]);
+  }
+
+  const addresses = await dnsPromises.lookup(unbracketed, { all: true });
+
+  return describeNonGlobalAddress(
+    addresses.map(({ address }) => address),
+    unbracketed
+  );
+};
+
+/**
+ * Error for connections refused because their host isn't, or doesn't resolve only to, global addresses
+ */
+export class NonGlobalAddressError extends Error {
+  readonly code = 'ENONGLOBAL';
+}
+
+/**
+ * A `lookup` for net, tls, and http(s) connections that only resolves hostnames to global addresses
+ *
+ * Fails with a NonGlobalAddressError if any address a hostname resolves to isn't global. The check
+ * applies to the addresses connected to, so a name re-resolving to another address in between
+ * (DNS rebinding) can't get around it.
+ */
+export const lookupGlobalAddress: LookupFunction = (hostname, options, callback) => {
+  // Connections ask for every address when trying each family in turn (Node's autoSelectFamily)
+  const { all } = options as { all?: boolean };
+  const respond = callback as (error: Error | null, address?: string | LookupAddress[], family?: number) => void;
+
+  dnsLookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      respond(error);
+      return;
+    }
+
+    const issue = describeNonGlobalAddress(
+      addresses.map(({ address }) => address),
+      hostname
+    );
+    if (issue) {
+      respond(new NonGlobalAddressError(`Refusing to connect: ${issue}`));
+      return;
+    }
+
+    if (all) {
+      respond(null, addresses);
+    } else {
+      respond(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
@@ -0,0 +1,41 @@
+import 'reflect-metadata';
+import { strict as assert } from 'assert';
+
+import { dataSchemaToJSONSchema, typeToJSONSchema } from './openapi';
+
+describe('openapi', () => {
+  describe('typeToJSONSchema', () => {
+    it('converts type strings, including arrays and nullable types', () => {
+      assert.deepEqual(typeToJSONSchema('string'), { type: 'string' });
+      assert.deepEqual(typeToJSONSchema('array'), { type: 'array' });
+      assert.deepEqual(typeToJSONSchema('string | null'), { type: 'string', nullable: true });
+      assert.deepEqual(typeToJSONSchema('unknown'), {});
+    });
+
+    it('converts nested objects without requiring their keys, as results may leave them out', () => {
+      assert.deepEqual(typeToJSONSchema({ found: 'boolean', dates: { expiration: 'string | null' } }), {
+        type: 'object',
+        properties: {
+          found: { type: 'boolean' },
+          dates: { type: 'object', properties: { expiration: { type: 'string', nullable: true } } }
+        }
+      });
+    });
+  });
+
+  describe('dataSchemaToJSONSchema', () => {
+    it('requires non-optional properties, and converts items', () => {
+      assert.deepEqual(
+        dataSchemaToJSONSchema({
+          type: 'object',
+          properties: { ports: { type: 'array', items: 'integer' }, note: { type: 'string', optional: true } }
+        }),
+        {
+          type: 'object',
+          properties: { ports: { type: 'array', items: { type: 'integer' } }, note: { type: 'string' } },
+          required: ['ports']
+        }
+      );
+    });
+  });
+});
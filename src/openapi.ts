@@ -0,0 +1,196 @@
+/**
+ * OpenAPI 3 document generation
+ *
+ * Describes every registered endpoint controller's routes from their decorator metadata.
+ */
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+import { getControllerMetadata, EndpointController, registeredControllers, RouteDocs } from './controllers';
+import { DataSchema, normalizeDataSchema } from './dataSchema';
+
+/**
+ * A JSON Schema (OpenAPI 3 flavor) object
+ */
+export type JSONSchema = { [x: string]: any };
+
+/**
+ * An OpenAPI 3 document
+ *
+ * Only as specific as we need for generating one.
+ */
+export interface OpenAPIDocument {
+  openapi: string;
+  info: { title: string; version: string; description?: string };
+  paths: { [path: string]: { [method: string]: { [x: string]: any } } };
+}
+
+const OPENAPI_VERSION = '3.0.3';
+
+/**
+ * Types a loose type description may name
+ */
+const RESULT_TYPES = ['string', 'number', 'boolean', 'object', 'array'];
+
+/**
+ * Convert a loose type description, as used in @Service `returnType`, to JSON Schema
+ *
+ * Type descriptions are either a type string (e.g. 'string', or 'string | null' for values that may
+ * be null), or an object whose values are type descriptions. Results often leave keys out, e.g.
+ * when nothing was found, so no properties are required.
+ */
+export const typeToJSONSchema = (type: string | { [x: string]: any }): JSONSchema => {
+  if (typeof type === 'string') {
+    const types = type.split('|').map(item => item.trim());
+    const [valueType] = types.filter(item => item !== 'null');
+    const schema: JSONSchema = RESULT_TYPES.includes(valueType) ? { type: valueType } : {};
+
+    return types.includes('null') ? { ...schema, nullable: true } : schema;
+  }
+
+  const properties: { [x: string]: JSONSchema } = {};
+  Object.keys(type).forEach(key => {
+    properties[key] = typeToJSONSchema(type[key]);
+  });
+
+  return { type: 'object', properties };
+};
+
+/**
+ * Convert a data schema, as used in @Service `requiredData`, to JSON Schema
+ *
+ * Data schemas' constraints share JSON Schema's names, so only types and optional properties differ.
+ */
+export const dataSchemaToJSONSchema = (schema: DataSchema): JSONSchema => {
+  const { type, optional, properties, items, ...constraints } = normalizeDataSchema(schema);
+  const jsonSchema: JSONSchema = type === 'any' ? { ...constraints } : { type, ...constraints };
+
+  if (properties) {
+    jsonSchema.properties = {};
+    Object.keys(properties).forEach(key => {
+      jsonSchema.properties[key] = dataSchemaToJSONSchema(properties[key]);
+    });
+
+    const required = Object.keys(properties).filter(key => !normalizeDataSchema(properties[key]).optional);
+    if (required.length) {
+      jsonSchema.required = required;
+    }
+  }
+
+  if (items) {
+    jsonSchema.items = dataSchemaToJSONSchema(items);
+  }
+
+  return jsonSchema;
+};
+
+/**
+ * Convert an Express route path to an OpenAPI path, e.g. `/ip/:address` => `/ip/{address}`
+ */
+const toOpenAPIPath = (path: string): { path: string; params: string[] } => {
+  const params: string[] = [];
+  const openAPIPath = path.replace(/:([A-Za-z0-9_]+)/g, (_match, param: string) => {
+    params.push(param);
+    return `{${param}}`;
+  });
+
+  return { path: openAPIPath, params };
+};
+
+/**
+ * Read this package's version, for the document's `info`
+ */
+const getPackageVersion = (): string => {
+  try {
+    return JSON.parse(readFileSync(join(__dirname, '..', 'package.json'), 'utf8')).version;
+  } catch (e) {
+    return '0.0.0';
+  }
+};
+
+/**
+ * Build an OpenAPI operation object for a route
+ */
+const buildOperation = (operationId: string, params: string[], docs: RouteDocs = {}): { [x: string]: any } => {
+  const { summary, description, requestBody, responses = {} } = docs;
+
+  const operation: { [x: string]: any } = { operationId };
+
+  if (summary) {
+    operation.summary = summary;
+  }
+
+  if (description) {
+    operation.description = description;
+  }
+
+  if (params.length) {
+    operation.parameters = params.map(name => ({
+      name,
+      in: 'path',
+      required: true,
+      schema: { type: 'string' }
+    }));
+  }
+
+  if (requestBody) {
+    operation.requestBody = {
+      content: { 'application/json': { schema: requestBody } }
+    };
+  }
+
+  operation.responses = {};
+  Object.keys(responses).forEach(statusCode => {
+    const { description, schema, contentType = 'application/json' } = responses[Number(statusCode)];
+
+    operation.responses[statusCode] = schema
+      ? { description, content: { [contentType]: { schema } } }
+      : { description };
+  });
+
+  // OpenAPI requires at least one response
+  if (!Object.keys(operation.responses).length) {
+    operation.responses.default = { description: 'Response' };
+  }
+
+  return operation;
+};
+
+/**
+ * Build an OpenAPI 3 document describing every registered endpoint controller's routes
+ */
+export const buildOpenAPIDocument = (): OpenAPIDocument => {
+  const document: OpenAPIDocument = {
+    openapi: OPENAPI_VERSION,
+    info: {
+      title: 'Micro-Micro',
+      version: getPackageVersion(),
+      description: 'REST API to get info for a domain or IP address'
+    },
+    paths: {}
+  };
+
+  // operationIds must be unique, but one method may handle multiple routes
+  const operationIds: string[] = [];
+
+  registeredControllers.forEach(controller => {
+    // Prototype metadata lookup spares instantiating controllers (and their connections)
+    const { prefix, routes } = getControllerMetadata(controller.prototype as EndpointController);
+
+    routes.forEach(({ path: routePath, requestType, methodName, docs }) => {
+      const { path, params } = toOpenAPIPath(`${prefix}${routePath}`);
+      const routeDocs = typeof docs === 'function' ? docs() : docs;
+
+      let operationId = `${controller.name}.${methodName}`;
+      for (let count = 2; operationIds.includes(operationId); count++) {
+        operationId = `${controller.name}.${methodName}${count}`;
+      }
+      operationIds.push(operationId);
+
+      document.paths[path] = document.paths[path] || {};
+      document.paths[path][requestType] = buildOperation(operationId, params, routeDocs);
+    });
+  });
+
+  return document;
+};
@@ -0,0 +1,24 @@
+/**
+ * Dump the generated OpenAPI 3 document to a file
+ *
+ * Usage (after `npm run build`): `npm run openapi:dump [-- <output path>]`
+ * Output path defaults to `openapi.json`; pass `-` to write to stdout.
+ */
+
+import 'reflect-metadata';
+import { writeFileSync } from 'fs';
+
+// Imported for its side effect of registering all endpoint controllers and services
+import '../endpoints';
+import { buildOpenAPIDocument } from '../openapi';
+
+const outputPath = process.argv[2] || 'openapi.json';
+
+const json = JSON.stringify(buildOpenAPIDocument(), null, 2);
+
+if (outputPath === '-') {
+  process.stdout.write(`${json}\n`);
+} else {
+  writeFileSync(outputPath, `${json}\n`);
+  console.log(`OpenAPI document written to ${outputPath}`);
+}
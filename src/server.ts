@@ -9,10 +9,9 @@ import 'reflect-metadata';
 import express, { Request, Response } from 'express';
 import throng, { ProcessCallback } from 'throng';
 
-import { EndpointController, getControllerMetadata } from './controllers';
-import { HelloController, IPServicesController } from './endpoints';
+import { getControllerMetadata } from './controllers';
+import { Endpoints } from './endpoints';
 import { debugQueueEvents, getQueueEvents } from './shared';
-import { Concrete } from './utils';
 
 import Debug from './debug';
 const debug = Debug.extend(`server`);
@@ -24,6 +23,8 @@ if (process.env.USE_DOTENV) {
 
 // Server port to listen on, from environment variable
 const PORT = Number(process.env.PORT) || 3000;
+// Largest request body to accept, e.g. for bulk requests' addresses
+const REQUEST_BODY_LIMIT = process.env.REQUEST_BODY_LIMIT || '1mb';
 
 /**
  * Server routine
@@ -36,12 +37,9 @@ const serve = (workerId: Number) => {
   const app = express();
 
   // Middleware to parse request body JSON
-  app.use(express.json());
+  app.use(express.json({ limit: REQUEST_BODY_LIMIT }));
 
-  // @TODO move this to an export of endpoints/index.ts
-  const endpoints: Concrete<EndpointController>[] = [HelloController, IPServicesController];
-
-  endpoints.forEach(endpointController => {
+  Endpoints.forEach(endpointController => {
     const instance = new endpointController();
 
     const { prefix, routes } = getControllerMetadata(instance);
@@ -55,6 +53,11 @@ const serve = (workerId: Number) => {
         // @ts-ignore — `methodName: string` will be an index key of `instance`
         const result = await instance[methodName](request, response);
 
+        // Handlers that send their own response (e.g. streaming) return nothing to send
+        if (!result) {
+          return;
+        }
+
         // @TODO either use RouteHandlerResponse.error or remove it
         const { data, statusCode } = result;
 
@@ -0,0 +1,93 @@
+/**
+ * A Service that looks up the origin AS and announced prefix of an IP address
+ */
+import { Service, Task, TaskResult, TaskService } from '../taskServices';
+import { parseIP } from '../ipAddress';
+import DataFileLoader from '../DataFileLoader';
+import parseRoutingTable, { RoutingTable } from './asn/routingTable';
+
+// Path to a routing-table dump of prefix→ASN lines; see ./asn/routingTable for the format
+const ASN_TABLE_PATH = process.env.ASN_TABLE_PATH || '';
+
+/**
+ * ASN Task Service
+ *
+ * The routing table is loaded once per worker process into a longest-prefix-match trie, and
+ * reloaded whenever the file changes.
+ */
+@Service({
+  name: 'asn',
+  description: 'Look up the origin ASN, AS name, and announced prefix of an IP address',
+  returnType: {
+    found: 'boolean',
+    asn: 'number',
+    name: 'string | null',
+    prefix: 'string',
+    origins: 'array',
+    snapshotDate: 'string'
+  },
+  addressTypes: ['ip'],
+  cacheTTL: 86400,
+  requiredData: {
+    ip: 'string'
+  }
+})
+export default class ASNService extends TaskService {
+  /**
+   * The loaded routing table, or null if none is configured
+   */
+  readonly #table: DataFileLoader<RoutingTable> | null = ASN_TABLE_PATH
+    ? new DataFileLoader(ASN_TABLE_PATH, parseRoutingTable)
+    : null;
+
+  /**
+   * Process a given task
+   */
+  protected processTask = (task: Task): Promise<TaskResult> => {
+    const { data, id, requestId } = task;
+    const { ip } = data;
+
+    if (!this.#table) {
+      return Promise.resolve(
+        new TaskResult(id, requestId, 'fail', { issues: ['No routing table configured (ASN_TABLE_PATH)'] })
+      );
+    }
+
+    const table = this.#table.get();
+    if (!table) {
+      return Promise.resolve(
+        new TaskResult(id, requestId, 'fail', { issues: [`Routing table unavailable: ${this.#table.getError()}`] })
+      );
+    }
+
+    const parsed = parseIP(ip);
+    if (!parsed) {
+      return Promise.resolve(
+        new TaskResult(id, requestId, 'reject', { issues: [`'${ip}' is not a valid IP address`] })
+      );
+    }
+
+    const snapshotDate = table.snapshotDate.toISOString();
+
+    // IPv4-mapped IPv6 addresses are routed as their IPv4 address
+    const match = table.prefixes.lookup(parsed.mappedIPv4 ? parsed.bytes.slice(12) : parsed.bytes);
+
+    if (!match) {
+      return Promise.resolve(new TaskResult(id, requestId, 'done', { data: { found: false, snapshotDate } }));
+    }
+
+    const [{ asn, name }] = match.value;
+
+    const result = {
+      found: true,
+      asn,
+      name,
+      prefix: match.cidr.canonical,
+      // All ASNs announcing the prefix; more than one for multi-origin (MOAS) prefixes
+      origins: match.value,
+      snapshotDate
+    };
+
+    return Promise.resolve(new TaskResult(id, requestId, 'done', { data: result }));
+  };
+}
@@ -0,0 +1,103 @@
+/**
+ * Parse routing-table dumps into a longest-prefix-match table of origin ASNs
+ *
+ * Expected format is one announced prefix per line, with tab- or comma-separated columns:
+ *
+ *   prefix   ASN   [AS name]
+ *
+ * e.g. `8.8.8.0/24	15169	GOOGLE` or `2001:4860::/32,AS15169,GOOGLE`. Blank lines, lines starting
+ * with `#`, and lines without a valid prefix and ASN (e.g. a header row) are skipped. A prefix
+ * announced by several ASNs (MOAS) may appear on several lines.
+ *
+ * The dump's snapshot date is read from a `# snapshot: <date>` comment, if present, and otherwise
+ * taken from the file's modification time.
+ */
+import { statSync } from 'fs';
+
+import { parseCIDR } from '../../ipAddress';
+import PrefixTrie from '../../PrefixTrie';
+
+/**
+ * An AS originating a prefix
+ */
+export interface Origin {
+  asn: number;
+  name: string | null;
+}
+
+/**
+ * A parsed routing table
+ */
+export interface RoutingTable {
+  prefixes: PrefixTrie<Origin[]>;
+  snapshotDate: Date;
+}
+
+/**
+ * Parse an ASN, with or without its `AS` prefix
+ */
+const parseASN = (asn: string): number | false => {
+  const match = /^(?:AS)?([0-9]{1,10})$/i.exec(asn);
+  if (!match) {
+    return false;
+  }
+
+  // 4-byte ASNs
+  const number = Number(match[1]);
+  return number <= 0xffffffff ? number : false;
+};
+
+/**
+ * Parse a routing table dump's contents, throwing if it has no valid entries
+ *
+ * @param contents {Buffer} Raw file contents
+ * @param path {string} Path of the file, for its modification time
+ */
+const parseRoutingTable = (contents: Buffer, path: string): RoutingTable => {
+  const prefixes = new PrefixTrie<Origin[]>();
+  let snapshotDate: Date | null = null;
+
+  for (const rawLine of contents.toString('utf8').split(/\r?\n/)) {
+    const line = rawLine.trim();
+
+    if (!line) {
+      continue;
+    }
+
+    if (line.startsWith('#')) {
+      const snapshot = /^#\s*snapshot:\s*(.+)$/i.exec(line);
+      if (snapshot && !isNaN(Date.parse(snapshot[1]))) {
+        snapshotDate = new Date(snapshot[1]);
+      }
+      continue;
+    }
+
+    // Names may contain the separator, so the name is everything after the ASN
+    const [prefix, asnColumn, ...nameColumns] = line.split(line.includes('\t') ? '\t' : ',');
+
+    const cidr = parseCIDR(prefix ? prefix.trim() : '');
+    const asn = parseASN(asnColumn ? asnColumn.trim() : '');
+    if (!cidr || asn === false) {
+      continue;
+    }
+
+    const name = nameColumns.join(',').trim() || null;
+
+    const origins = prefixes.get(cidr);
+    if (origins) {
+      if (!origins.some(origin => origin.asn === asn)) {
+        origins.push({ asn, name });
+      }
+    } else {
+      prefixes.insert(cidr, [{ asn, name }]);
+    }
+  }
+
+  if (!prefixes.size) {
+    throw new Error('No valid prefix/ASN entries found');
+  }
+
+  return { prefixes, snapshotDate: snapshotDate || statSync(path).mtime };
+};
+
+export default parseRoutingTable;
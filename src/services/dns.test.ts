@@ -0,0 +1,87 @@
+import 'reflect-metadata';
+import { strict as assert } from 'assert';
+import { Socket } from 'dgram';
+
+import { Task } from '../taskServices';
+import { TEST_DNS_PORT } from '../testEnvironment';
+import { startTestDNSServer } from '../testDNSServer';
+import DNSService, { resolvedIPDependency } from './dns';
+
+const task = (domain: string): Task => ({ id: 'task', requestId: 'request', serviceName: 'dns', data: { domain } });
+
+describe('DNSService', () => {
+  const service = new DNSService();
+
+  let server: Socket;
+
+  before(async () => {
+    server = await startTestDNSServer(TEST_DNS_PORT, {
+      'example.test': {
+        A: ['192.0.2.1', '192.0.2.2'],
+        AAAA: ['2001:db8::1'],
+        MX: [{ priority: 10, exchange: 'mail.example.test' }],
+        NS: ['ns1.example.test'],
+        TXT: [['v=spf1 ', '-all'], ['hello']]
+      },
+      'alias.example.test': { CNAME: ['example.test'] },
+      'broken.example.test': { rcode: 'SERVFAIL' }
+    });
+  });
+
+  after(done => {
+    server.close(done);
+  });
+
+  it('resolves every record type, with types that have none empty', async () => {
+    const result = await service.do(task('example.test'));
+
+    assert.equal(result.status, 'done');
+    assert.deepEqual(result.resultData.data, {
+      records: {
+        A: ['192.0.2.1', '192.0.2.2'],
+        AAAA: ['2001:db8::1'],
+        CNAME: [],
+        MX: [{ priority: 10, exchange: 'mail.example.test' }],
+        NS: ['ns1.example.test'],
+        TXT: ['v=spf1 -all', 'hello']
+      },
+      errors: {}
+    });
+  });
+
+  it('resolves CNAME records', async () => {
+    const result = await service.do(task('alias.example.test'));
+    const { data = {} } = result.resultData;
+
+    assert.equal(result.status, 'done');
+    assert.deepEqual(data.records.CNAME, ['example.test']);
+    assert.deepEqual(data.records.A, []);
+  });
+
+  it('rejects domains that do not exist', async () => {
+    const result = await service.do(task('missing.example.test'));
+
+    assert.equal(result.status, 'reject');
+    assert.deepEqual(result.resultData.issues, [`Domain 'missing.example.test' does not exist (NXDOMAIN)`]);
+  });
+
+  it('fails when the upstream server fails', async () => {
+    const result = await service.do(task('broken.example.test'));
+    const { issues = [], data = {} } = result.resultData;
+
+    assert.equal(result.status, 'fail');
+    assert.equal(issues.length, 6);
+    assert.ok(issues.every(issue => issue.includes('SERVFAIL')));
+    assert.equal(data.errors.A.code, 'SERVFAIL');
+  });
+
+  it('provides the first A record as a dependency, or else the first AAAA record', () => {
+    const records = { A: [], AAAA: ['2001:db8::1'], CNAME: [], MX: [], NS: [], TXT: [] };
+
+    assert.deepEqual(resolvedIPDependency.data({ records, errors: {} }), { ip: '2001:db8::1' });
+    assert.deepEqual(resolvedIPDependency.data({ records: { ...records, A: ['192.0.2.1'] }, errors: {} }), {
+      ip: '192.0.2.1'
+    });
+    assert.equal(resolvedIPDependency.data({ records: { ...records, AAAA: [] }, errors: {} }), null);
+  });
+});
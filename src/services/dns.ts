@@ -0,0 +1,128 @@
+/**
+ * A Service that resolves a domain's DNS records
+ */
+import { Service, Task, TaskResult, TaskService, TaskServiceDependency } from '../taskServices';
+import CancellationSignal from '../CancellationSignal';
+import {
+  cancelOnSignal,
+  classifyDNSError,
+  createResolver,
+  DNSErrorCode,
+  DNSResolver,
+  withTimeout
+} from '../dnsResolver';
+
+/**
+ * Record types resolved, mapped to the resolver query for each
+ */
+const RECORD_QUERIES: { [x: string]: (resolver: DNSResolver, domain: string) => Promise<any[]> } = {
+  A: (resolver, domain) => resolver.resolve4(domain),
+  AAAA: (resolver, domain) => resolver.resolve6(domain),
+  CNAME: (resolver, domain) => resolver.resolveCname(domain),
+  MX: (resolver, domain) => resolver.resolveMx(domain),
+  NS: (resolver, domain) => resolver.resolveNs(domain),
+  // TXT records arrive in chunks of up to 255 characters
+  TXT: (resolver, domain) => resolver.resolveTxt(domain).then(records => records.map(chunks => chunks.join('')))
+};
+
+/**
+ * Error codes indicating a problem with the upstream DNS server, rather than the domain
+ */
+const UPSTREAM_ERROR_CODES: DNSErrorCode[] = ['SERVFAIL', 'REFUSED', 'TIMEOUT', 'ERROR'];
+
+/**
+ * Dependency of services needing an `ip` (see `dependsOn`), giving them a domain's first A (or else
+ * AAAA) address
+ */
+export const resolvedIPDependency: TaskServiceDependency = {
+  service: 'dns',
+  provides: ['ip'],
+  data: ({ records }) => {
+    const ip = records.A[0] || records.AAAA[0];
+    return ip ? { ip } : null;
+  }
+};
+
+/**
+ * DNS Resolution Task Service
+ *
+ * Resolves all record types in parallel. Types with no records are empty, not errors. Results are:
+ *   - 'reject' when the domain doesn't exist (NXDOMAIN for every type)
+ *   - 'fail' when any type's query failed upstream (SERVFAIL, timeout, etc.), with any records
+ *     that did resolve
+ *   - 'done' otherwise
+ */
+@Service({
+  name: 'dns',
+  description: 'Resolve A, AAAA, CNAME, MX, NS, and TXT records for a domain name',
+  returnType: {
+    records: {
+      A: 'array',
+      AAAA: 'array',
+      CNAME: 'array',
+      MX: 'array',
+      NS: 'array',
+      TXT: 'array'
+    },
+    errors: 'object'
+  },
+  addressTypes: ['domain', 'url', 'email'],
+  cacheTTL: 300,
+  timeoutMs: 5000,
+  requiredData: {
+    domain: 'string'
+  }
+})
+export default class DNSService extends TaskService {
+  /**
+   * Process a given task
+   */
+  protected processTask = async (task: Task, signal: CancellationSignal): Promise<TaskResult> => {
+    const { data, id, requestId } = task;
+    const { domain } = data;
+
+    const resolver = createResolver();
+    cancelOnSignal(resolver, signal);
+    const records: { [x: string]: any[] } = {};
+    const errors: { [x: string]: { code: DNSErrorCode; message: string } } = {};
+
+    await Promise.all(
+      Object.keys(RECORD_QUERIES).map(async type => {
+        try {
+          records[type] = await withTimeout(RECORD_QUERIES[type](resolver, domain));
+        } catch (e) {
+          const code = classifyDNSError(e);
+          records[type] = [];
+
+          if (code !== 'NODATA') {
+            errors[type] = { code, message: e.message };
+          }
+        }
+      })
+    );
+
+    // Abandon any queries still outstanding after timing out
+    if (resolver.cancel) {
+      resolver.cancel();
+    }
+
+    const errorTypes = Object.keys(errors);
+
+    if (
+      errorTypes.length === Object.keys(RECORD_QUERIES).length &&
+      errorTypes.every(type => errors[type].code === 'NXDOMAIN')
+    ) {
+      return new TaskResult(id, requestId, 'reject', { issues: [`Domain '${domain}' does not exist (NXDOMAIN)`] });
+    }
+
+    const upstreamIssues = errorTypes
+      .filter(type => UPSTREAM_ERROR_CODES.includes(errors[type].code))
+      .map(type => `${type} query failed with ${errors[type].code}: ${errors[type].message}`);
+
+    if (upstreamIssues.length) {
+      return new TaskResult(id, requestId, 'fail', { issues: upstreamIssues, data: { records, errors } });
+    }
+
+    return new TaskResult(id, requestId, 'done', { data: { records, errors } });
+  };
+}
@@ -0,0 +1,107 @@
+/**
+ * A Service that splits a domain into its public suffix, registrable domain, and subdomain
+ */
+import { domainToUnicode } from 'url';
+
+import { Service, Task, TaskResult, TaskService } from '../taskServices';
+import { parseDomain } from '../domainName';
+import DataFileLoader from '../DataFileLoader';
+import { matchPublicSuffix, parsePublicSuffixRules, PublicSuffixRules } from './domain-parse/publicSuffix';
+import { PUBLIC_SUFFIX_RULES } from './domain-parse/publicSuffixList';
+
+// Path to a current copy of public_suffix_list.dat, to use instead of the bundled snapshot
+const DOMAIN_PSL_PATH = process.env.DOMAIN_PSL_PATH || '';
+
+/**
+ * Unicode form of an ASCII name, or null
+ */
+const toUnicode = (ascii: string | null): string | null => (ascii === null ? null : domainToUnicode(ascii));
+
+/**
+ * Domain Parsing Task Service
+ *
+ * Uses the bundled Public Suffix List snapshot, unless DOMAIN_PSL_PATH names a list file that
+ * loads, which is reloaded whenever it changes.
+ */
+@Service({
+  name: 'domain-parse',
+  description:
+    'Parse a domain name into its public suffix, registrable domain, and subdomain, in ASCII and Unicode forms, per the Public Suffix List',
+  returnType: {
+    domain: 'string',
+    publicSuffix: 'string',
+    registrableDomain: 'string | null',
+    subdomain: 'string | null',
+    labels: 'array',
+    subdomainLabels: 'array',
+    isIDN: 'boolean',
+    isPublicSuffix: 'boolean',
+    knownSuffix: 'boolean',
+    unicode: {
+      domain: 'string',
+      publicSuffix: 'string',
+      registrableDomain: 'string | null',
+      subdomain: 'string | null'
+    },
+    listSource: 'string'
+  },
+  addressTypes: ['domain', 'url', 'email'],
+  cacheTTL: 86400,
+  requiredData: {
+    domain: 'string'
+  }
+})
+export default class DomainParseService extends TaskService {
+  readonly #bundledRules: PublicSuffixRules = parsePublicSuffixRules(PUBLIC_SUFFIX_RULES);
+
+  readonly #listFile: DataFileLoader<PublicSuffixRules> | null = DOMAIN_PSL_PATH
+    ? new DataFileLoader(DOMAIN_PSL_PATH, contents => parsePublicSuffixRules(contents.toString('utf8')))
+    : null;
+
+  /**
+   * Process a given task
+   */
+  protected processTask = (task: Task): Promise<TaskResult> => {
+    const { data, id, requestId } = task;
+    const { domain } = data;
+
+    const parsed = parseDomain(domain);
+    if (!parsed) {
+      return Promise.resolve(
+        new TaskResult(id, requestId, 'reject', { issues: [`'${domain}' is not a valid domain name`] })
+      );
+    }
+
+    const fileRules = this.#listFile ? this.#listFile.get() : null;
+    const { publicSuffix, suffixLabels, listed } = matchPublicSuffix(fileRules || this.#bundledRules, parsed.labels);
+
+    const { labels } = parsed;
+    const isPublicSuffix = suffixLabels === labels.length;
+
+    // The registrable domain is the public suffix plus one label
+    const registrableDomain = isPublicSuffix ? null : labels.slice(-suffixLabels - 1).join('.');
+    const subdomainLabels = isPublicSuffix ? [] : labels.slice(0, -suffixLabels - 1);
+    const subdomain = subdomainLabels.length ? subdomainLabels.join('.') : null;
+
+    const result = {
+      domain: parsed.ascii,
+      publicSuffix,
+      registrableDomain,
+      subdomain,
+      labels,
+      subdomainLabels,
+      isIDN: parsed.isIDN,
+      isPublicSuffix,
+      knownSuffix: listed,
+      unicode: {
+        domain: parsed.unicode,
+        publicSuffix: toUnicode(publicSuffix),
+        registrableDomain: toUnicode(registrableDomain),
+        subdomain: toUnicode(subdomain)
+      },
+      listSource: fileRules ? 'file' : 'bundled'
+    };
+
+    return Promise.resolve(new TaskResult(id, requestId, 'done', { data: result }));
+  };
+}
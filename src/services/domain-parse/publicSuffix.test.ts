@@ -0,0 +1,56 @@
+import { strict as assert } from 'assert';
+
+import { matchPublicSuffix, parsePublicSuffixRules } from './publicSuffix';
+
+const LIST = `// ===BEGIN ICANN DOMAINS===
+com
+uk
+co.uk
+
+// Wildcards, and exceptions to them
+*.ck
+!www.ck
+
+// Internationalized rules are matched in ASCII
+中国
+
+github.io    trailing words are ignored
+`;
+
+describe('publicSuffix', () => {
+  const rules = parsePublicSuffixRules(LIST);
+
+  describe('parsePublicSuffixRules', () => {
+    it('parses rules and exceptions, skipping comments and blank lines', () => {
+      assert.deepEqual(Array.from(rules.rules), ['com', 'uk', 'co.uk', '*.ck', 'xn--fiqs8s', 'github.io']);
+      assert.deepEqual(Array.from(rules.exceptions), ['www.ck']);
+    });
+
+    it('throws for lists without rules', () => {
+      assert.throws(() => parsePublicSuffixRules('// just a comment\n'), /No Public Suffix List rules found/);
+    });
+  });
+
+  describe('matchPublicSuffix', () => {
+    const match = (domain: string) => matchPublicSuffix(rules, domain.split('.'));
+
+    it('prefers the longest matching rule', () => {
+      assert.deepEqual(match('www.example.co.uk'), { publicSuffix: 'co.uk', suffixLabels: 2, listed: true });
+      assert.deepEqual(match('example.uk'), { publicSuffix: 'uk', suffixLabels: 1, listed: true });
+      assert.deepEqual(match('user.github.io'), { publicSuffix: 'github.io', suffixLabels: 2, listed: true });
+    });
+
+    it('matches wildcards, unless an exception prevails', () => {
+      assert.deepEqual(match('example.co.ck'), { publicSuffix: 'co.ck', suffixLabels: 2, listed: true });
+      assert.deepEqual(match('www.ck'), { publicSuffix: 'ck', suffixLabels: 1, listed: true });
+    });
+
+    it('matches internationalized rules in ASCII', () => {
+      assert.deepEqual(match('example.xn--fiqs8s'), { publicSuffix: 'xn--fiqs8s', suffixLabels: 1, listed: true });
+    });
+
+    it('falls back to the TLD for unlisted TLDs', () => {
+      assert.deepEqual(match('example.unlisted'), { publicSuffix: 'unlisted', suffixLabels: 1, listed: false });
+    });
+  });
+});
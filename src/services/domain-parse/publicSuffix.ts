@@ -0,0 +1,92 @@
+/**
+ * Public Suffix List matching
+ *
+ * @see https://github.com/publicsuffix/list/wiki/Format for the algorithm
+ */
+import { domainToASCII } from 'url';
+
+/**
+ * A domain's public suffix, per the list
+ */
+export interface PublicSuffixMatch {
+  // ASCII public suffix, e.g. `co.uk`
+  publicSuffix: string;
+  // Number of labels in the public suffix
+  suffixLabels: number;
+  // Whether a list rule matched, rather than the implicit `*` rule (i.e. the TLD is unknown)
+  listed: boolean;
+}
+
+/**
+ * Parsed Public Suffix List rules, normalized to ASCII
+ */
+export interface PublicSuffixRules {
+  rules: Set<string>;
+  exceptions: Set<string>;
+}
+
+/**
+ * Convert a rule's labels to ASCII, leaving wildcards be
+ */
+const ruleToASCII = (rule: string): string =>
+  rule
+    .split('.')
+    .map(label => (label === '*' ? label : domainToASCII(label)))
+    .join('.');
+
+/**
+ * Parse Public Suffix List rules from the list file's format, throwing if there are none
+ *
+ * Each line's first whitespace-delimited word is a rule; blank lines and `//` comments are skipped.
+ */
+export const parsePublicSuffixRules = (list: string): PublicSuffixRules => {
+  const rules = new Set<string>();
+  const exceptions = new Set<string>();
+
+  for (const line of list.split(/\r?\n/)) {
+    const [rule] = line.trim().split(/\s+/);
+
+    if (!rule || rule.startsWith('//')) {
+      continue;
+    }
+
+    if (rule.startsWith('!')) {
+      exceptions.add(ruleToASCII(rule.slice(1).toLowerCase()));
+    } else {
+      rules.add(ruleToASCII(rule.toLowerCase()));
+    }
+  }
+
+  if (!rules.size) {
+    throw new Error('No Public Suffix List rules found');
+  }
+
+  return { rules, exceptions };
+};
+
+/**
+ * Find the public suffix of a domain's ASCII labels
+ *
+ * The longest matching rule prevails, and exception rules prevail over all others.
+ */
+export const matchPublicSuffix = ({ rules, exceptions }: PublicSuffixRules, labels: string[]): PublicSuffixMatch => {
+  // Check suffixes longest first, so the first match is the prevailing rule
+  for (let i = 0; i < labels.length; i++) {
+    const suffix = labels.slice(i).join('.');
+    const suffixLabels = labels.length - i;
+
+    // An exception's public suffix is the exception less its leftmost label
+    if (exceptions.has(suffix)) {
+      return { publicSuffix: labels.slice(i + 1).join('.'), suffixLabels: suffixLabels - 1, listed: true };
+    }
+
+    const wildcard = suffixLabels > 1 ? `*.${labels.slice(i + 1).join('.')}` : null;
+
+    if (rules.has(suffix) || (wildcard && rules.has(wildcard))) {
+      return { publicSuffix: suffix, suffixLabels, listed: true };
+    }
+  }
+
+  // The implicit `*` rule: the TLD is the public suffix
+  return { publicSuffix: labels[labels.length - 1], suffixLabels: 1, listed: false };
+};
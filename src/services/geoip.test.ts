@@ -0,0 +1,134 @@
+import 'reflect-metadata';
+import { strict as assert } from 'assert';
+import { writeFileSync } from 'fs';
+
+import { Task, TaskResult } from '../taskServices';
+import { TEST_GEOIP_DATABASE_PATH } from '../testEnvironment';
+import { TestMMDBNetwork, buildTestMMDB } from '../testMMDB';
+import GeoIPService from './geoip';
+
+const task = (ip: string): Task => ({ id: 'task', requestId: 'request', serviceName: 'geoip', data: { ip } });
+
+const london = {
+  country: { iso_code: 'GB', names: { en: 'United Kingdom', de: 'Vereinigtes Königreich' } },
+  subdivisions: [{ iso_code: 'ENG', names: { en: 'England' } }],
+  city: { names: { en: 'London' } },
+  location: { latitude: 51.5142, longitude: -0.0931, accuracy_radius: 20, time_zone: 'Europe/London' }
+};
+
+const paris = {
+  country: { iso_code: 'FR', names: { en: 'France' } },
+  city: { names: { en: 'Paris' } }
+};
+
+/**
+ * Write the database file, as a City database built at a given time
+ */
+const writeDatabase = (networks: TestMMDBNetwork[], builtAt: string): void =>
+  writeFileSync(TEST_GEOIP_DATABASE_PATH, buildTestMMDB(networks, 'Test-City', new Date(builtAt)));
+
+/**
+ * Get the city found in a result, if any
+ */
+const cityOf = ({ resultData }: TaskResult): string | undefined => (resultData.data || {}).city;
+
+/**
+ * Look up an IP until a result passes a check, as databases reload on polling for changes
+ */
+const lookUntil = async (
+  service: GeoIPService,
+  ip: string,
+  check: (result: TaskResult) => boolean
+): Promise<TaskResult> => {
+  const deadline = Date.now() + 2000;
+
+  for (;;) {
+    const result = await service.do(task(ip));
+    if (check(result) || Date.now() > deadline) {
+      return result;
+    }
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+};
+
+describe('GeoIPService', () => {
+  // Created before the database exists, so it has to load it once written
+  const service = new GeoIPService();
+
+  it('fails while the database is unavailable', async () => {
+    const result = await service.do(task('192.0.2.1'));
+    const { issues = [] } = result.resultData;
+
+    assert.equal(result.status, 'fail');
+    assert.ok(issues[0].startsWith('GeoIP database unavailable'), issues[0]);
+  });
+
+  it('loads the database once it exists', async () => {
+    writeDatabase([{ cidr: '192.0.2.0/24', record: london }], '2020-01-01');
+
+    const result = await lookUntil(service, '192.0.2.1', ({ status }) => status === 'done');
+
+    assert.equal(result.status, 'done');
+    assert.deepEqual(result.resultData.data, {
+      found: true,
+      network: '192.0.2.0/24',
+      country: { isoCode: 'GB', name: 'United Kingdom' },
+      region: { isoCode: 'ENG', name: 'England' },
+      city: 'London',
+      location: { latitude: 51.5142, longitude: -0.0931, accuracyRadius: 20 },
+      timezone: 'Europe/London',
+      database: { type: 'Test-City', builtAt: '2020-01-01T00:00:00.000Z' }
+    });
+  });
+
+  it('looks up IPv4-mapped IPv6 addresses by their IPv4 address', async () => {
+    const result = await service.do(task('::ffff:192.0.2.1'));
+    const { data = {} } = result.resultData;
+
+    assert.equal(data.city, 'London');
+    assert.equal(data.network, '192.0.2.0/24');
+  });
+
+  it('finds nothing for IPs not in the database', async () => {
+    const result = await service.do(task('198.51.100.1'));
+
+    assert.equal(result.status, 'done');
+    assert.deepEqual(result.resultData.data, {
+      found: false,
+      database: { type: 'Test-City', builtAt: '2020-01-01T00:00:00.000Z' }
+    });
+  });
+
+  it('reloads the database when it changes', async () => {
+    writeDatabase(
+      [
+        { cidr: '192.0.2.0/24', record: paris },
+        { cidr: '198.51.100.0/25', record: london }
+      ],
+      '2021-01-01'
+    );
+
+    const result = await lookUntil(service, '192.0.2.1', found => cityOf(found) === 'Paris');
+    const { data = {} } = result.resultData;
+
+    assert.equal(data.city, 'Paris');
+    assert.equal(data.region, null);
+    assert.equal(data.location, null);
+    assert.equal(data.database.builtAt, '2021-01-01T00:00:00.000Z');
+
+    const moved = await service.do(task('198.51.100.1'));
+    assert.equal(cityOf(moved), 'London');
+    assert.equal((moved.resultData.data || {}).network, '198.51.100.0/25');
+  });
+
+  it('keeps the loaded database when the file changes to something invalid', async () => {
+    writeFileSync(TEST_GEOIP_DATABASE_PATH, 'not a database');
+
+    // Give the change time to be noticed
+    await new Promise(resolve => setTimeout(resolve, 100));
+
+    const result = await service.do(task('192.0.2.1'));
+    assert.equal(result.status, 'done');
+    assert.equal(cityOf(result), 'Paris');
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * A Service that geolocates an IP address using a local MaxMind-format database
+ */
+import { CityResponse, Reader } from 'mmdb-lib';
+
+import { Service, Task, TaskResult, TaskService } from '../taskServices';
+import { parseCIDR, parseIP } from '../ipAddress';
+import DataFileLoader from '../DataFileLoader';
+import { resolvedIPDependency } from './dns';
+
+// Path to a MaxMind-format (.mmdb) City or Country database, e.g. GeoLite2-City.mmdb
+const GEOIP_DATABASE_PATH = process.env.GEOIP_DATABASE_PATH || '';
+
+// Language of place names in results
+const GEOIP_LANGUAGE = process.env.GEOIP_LANGUAGE || 'en';
+
+/**
+ * Get a place name in the configured language, falling back to English
+ */
+const placeName = (place?: { names: object }): string | null => {
+  if (!place) {
+    return null;
+  }
+
+  const names = place.names as { [x: string]: string | undefined };
+
+  return names[GEOIP_LANGUAGE] || names.en || null;
+};
+
+/**
+ * GeoIP Task Service
+ *
+ * The database is loaded once per worker process, when the service is instantiated, and hot-swapped
+ * whenever the file changes. Lookups fail cleanly if the database is missing or invalid.
+ *
+ * Domains (and URLs with domains) are geolocated by the first address the dns service resolves.
+ */
+@Service({
+  name: 'geoip',
+  description:
+    "Geolocate an IP address, or a domain's first resolved address: country, region, city, coordinates, and timezone",
+  returnType: {
+    found: 'boolean',
+    network: 'string | null',
+    country: 'object | null',
+    region: 'object | null',
+    city: 'string | null',
+    location: 'object | null',
+    timezone: 'string | null',
+    database: 'object'
+  },
+  addressTypes: ['ip', 'domain', 'url'],
+  cacheTTL: 86400,
+  dependsOn: [resolvedIPDependency],
+  requiredData: {
+    ip: 'string'
+  }
+})
+export default class GeoIPService extends TaskService {
+  /**
+   * The loaded database, or null if no database is configured
+   */
+  readonly #database: DataFileLoader<Reader<CityResponse>> | null = GEOIP_DATABASE_PATH
+    ? new DataFileLoader(GEOIP_DATABASE_PATH, contents => new Reader<CityResponse>(contents))
+    : null;
+
+  /**
+   * Process a given task
+   */
+  protected processTask = (task: Task): Promise<TaskResult> => {
+    const { data, id, requestId } = task;
+    const { ip } = data;
+
+    if (!this.#database) {
+      return Promise.resolve(
+        new TaskResult(id, requestId, 'fail', { issues: ['No GeoIP database configured (GEOIP_DATABASE_PATH)'] })
+      );
+    }
+
+    const reader = this.#database.get();
+    if (!reader) {
+      return Promise.resolve(
+        new TaskResult(id, requestId, 'fail', {
+          issues: [`GeoIP database unavailable: ${this.#database.getError()}`]
+        })
+      );
+    }
+
+    const parsed = parseIP(ip);
+    if (!parsed) {
+      return Promise.resolve(
+        new TaskResult(id, requestId, 'reject', { issues: [`'${ip}' is not a valid IP address`] })
+      );
+    }
+
+    const { databaseType, buildEpoch } = reader.metadata;
+    const database = { type: databaseType, builtAt: buildEpoch.toISOString() };
+
+    // Databases locate IPv4-mapped IPv6 addresses by their IPv4 address; zone IDs are meaningless
+    const lookupAddress = parsed.mappedIPv4 || parsed.canonical.split('%')[0];
+
+    let record: CityResponse | null;
+    let prefixLength: number;
+    try {
+      [record, prefixLength] = reader.getWithPrefixLength(lookupAddress);
+    } catch (e) {
+      // e.g. IPv6 lookups in IPv4-only databases
+      return Promise.resolve(
+        new TaskResult(id, requestId, 'reject', { issues: [`GeoIP database can't look up '${ip}': ${e.message}`] })
+      );
+    }
+
+    if (!record) {
+      return Promise.resolve(new TaskResult(id, requestId, 'done', { data: { found: false, database } }));
+    }
+
+    const { country, subdivisions, city, location } = record;
+    const network = parseCIDR(`${lookupAddress}/${prefixLength}`);
+    const region = subdivisions && subdivisions.length ? subdivisions[0] : undefined;
+
+    const result = {
+      found: true,
+      network: network ? network.canonical : null,
+      country: country ? { isoCode: country.iso_code, name: placeName(country) } : null,
+      region: region ? { isoCode: region.iso_code, name: placeName(region) } : null,
+      city: placeName(city),
+      location: location
+        ? { latitude: location.latitude, longitude: location.longitude, accuracyRadius: location.accuracy_radius }
+        : null,
+      timezone: (location && location.time_zone) || null,
+      database
+    };
+
+    return Promise.resolve(new TaskResult(id, requestId, 'done', { data: result }));
+  };
+}
@@ -11,8 +11,18 @@
  *    config.name passed to @Service in step 1)
  * 5. Add it to `defaultServicesString` below, if it belongs there
  */
+import ASNService from './asn';
+import DNSService from './dns';
+import DomainParseService from './domain-parse';
+import GeoIPService from './geoip';
+import IPClassificationService from './ip-classification';
+import IPReputationService from './ip-reputation';
 import IPValidationService from './ip-validation';
 import JobWorkerMock from './job-worker-mock';
+import ReachabilityService from './reachability';
+import RDAPService from './rdap';
+import ReverseDNSService from './reverse-dns';
+import TLSService from './tls';
 import { TaskService } from '../taskServices';
 import { Concrete } from '../utils';
 
@@ -21,7 +31,20 @@ const DEFAULT_SERVICES_CONFIG = process.env.DEFAULT_SERVICES || false;
 /**
  * Available Services
  */
-export const AvailableServices: Concrete<TaskService>[] = [IPValidationService, JobWorkerMock];
+export const AvailableServices: Concrete<TaskService>[] = [
+  IPValidationService,
+  JobWorkerMock,
+  DNSService,
+  IPClassificationService,
+  GeoIPService,
+  ASNService,
+  RDAPService,
+  ReverseDNSService,
+  ReachabilityService,
+  TLSService,
+  IPReputationService,
+  DomainParseService
+];
 
 /**
  * Available Service Names
@@ -31,7 +54,20 @@ export const AvailableServices: Concrete<TaskService>[] = [IPValidationService,
  * @TODO at the very least, build this & AvailableServices from a map. One place to update.
  * @TODO maybe build procedurally from meta-reflection to obviate manual editing
  */
-export const AvailableServiceNames = ['ip-validation', 'mock-worker'] as const;
+export const AvailableServiceNames = [
+  'ip-validation',
+  'mock-worker',
+  'dns',
+  'ip-classification',
+  'geoip',
+  'asn',
+  'rdap',
+  'reverse-dns',
+  'reachability',
+  'tls',
+  'ip-reputation',
+  'domain-parse'
+] as const;
 
 /**
  * Type a value to be an Available Service's name
@@ -54,4 +90,17 @@ export const DefaultServices: Array<AvailableServiceName> = (defaultServices as
 );
 
 // Services
-export { IPValidationService, JobWorkerMock };
+export {
+  ASNService,
+  DNSService,
+  DomainParseService,
+  GeoIPService,
+  IPClassificationService,
+  IPReputationService,
+  IPValidationService,
+  JobWorkerMock,
+  ReachabilityService,
+  RDAPService,
+  ReverseDNSService,
+  TLSService
+};
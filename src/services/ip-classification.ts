@@ -0,0 +1,51 @@
+/**
+ * A Service that classifies an IP address by IANA special-purpose ranges
+ */
+import { Service, Task, TaskResult, TaskService } from '../taskServices';
+import { classifyIP } from '../ipClassification';
+import { parseIP } from '../ipAddress';
+
+/**
+ * IP Classification Task Service
+ */
+@Service({
+  name: 'ip-classification',
+  description:
+    'Classify an IP address as private, loopback, link-local, CGNAT, multicast, documentation, reserved, or global, per IANA special-purpose registries',
+  returnType: {
+    category: 'string',
+    globallyReachable: 'boolean',
+    bogon: 'boolean',
+    ranges: 'array',
+    mappedIPv4: 'object'
+  },
+  addressTypes: ['ip'],
+  requiredData: {
+    ip: 'string'
+  }
+})
+export default class IPClassificationService extends TaskService {
+  /**
+   * Process a given task
+   */
+  protected processTask = (task: Task): Promise<TaskResult> => {
+    const { data, id, requestId } = task;
+    const { ip } = data;
+
+    const parsed = parseIP(ip);
+
+    if (!parsed) {
+      return Promise.resolve(
+        new TaskResult(id, requestId, 'reject', { issues: [`'${ip}' is not a valid IP address`] })
+      );
+    }
+
+    const classification = classifyIP(parsed.bytes);
+
+    if (parsed.mappedIPv4) {
+      classification.mappedIPv4 = classifyIP(parsed.bytes.slice(12));
+    }
+
+    return Promise.resolve(new TaskResult(id, requestId, 'done', { data: classification }));
+  };
+}
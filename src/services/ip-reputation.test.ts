@@ -0,0 +1,105 @@
+import 'reflect-metadata';
+import { strict as assert } from 'assert';
+import { writeFileSync } from 'fs';
+
+import { Task, TaskResult } from '../taskServices';
+import { TEST_IP_REPUTATION_LIST_PATHS } from '../testEnvironment';
+import IPReputationService from './ip-reputation';
+
+const [SPAM_LIST_PATH, BOTNET_LIST_PATH] = TEST_IP_REPUTATION_LIST_PATHS;
+
+const SPAM_LIST = `# name: example-spam
+# category: spam
+198.51.100.0/24 Spam source
+!198.51.100.7
+2001:db8::/32
+`;
+
+const task = (ip: string): Task => ({ id: 'task', requestId: 'request', serviceName: 'ip-reputation', data: { ip } });
+
+/**
+ * Check an IP until a result passes a check, as lists reload on polling for changes
+ */
+const checkUntil = async (
+  service: IPReputationService,
+  ip: string,
+  check: (data: { [x: string]: any }) => boolean
+): Promise<TaskResult> => {
+  const deadline = Date.now() + 2000;
+
+  for (;;) {
+    const result = await service.do(task(ip));
+    if (check(result.resultData.data || {}) || Date.now() > deadline) {
+      return result;
+    }
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+};
+
+describe('IPReputationService', () => {
+  let service: IPReputationService;
+
+  before(() => {
+    // The botnet list is only written later, so is unavailable at first
+    writeFileSync(SPAM_LIST_PATH, SPAM_LIST);
+    service = new IPReputationService();
+  });
+
+  it('finds IPs listed by a block, with its reason', async () => {
+    const result = await service.do(task('198.51.100.1'));
+
+    assert.equal(result.status, 'done');
+    assert.deepEqual(result.resultData.data, {
+      listed: true,
+      matches: [{ list: 'example-spam', category: 'spam', entry: '198.51.100.0/24', reason: 'Spam source' }],
+      categories: ['spam'],
+      lists: { checked: 1, unavailable: ['botnet.list'] }
+    });
+  });
+
+  it("doesn't list excluded IPs, or IPs on no list", async () => {
+    const excluded = await service.do(task('198.51.100.7'));
+    const unlisted = await service.do(task('192.0.2.1'));
+
+    assert.equal(excluded.resultData.data && excluded.resultData.data.listed, false);
+    assert.equal(unlisted.resultData.data && unlisted.resultData.data.listed, false);
+  });
+
+  it('checks IPv6 addresses, and IPv4-mapped IPv6 addresses as IPv4', async () => {
+    const ipv6 = await service.do(task('2001:db8::1'));
+    const mapped = await service.do(task('::ffff:198.51.100.1'));
+
+    assert.equal(ipv6.resultData.data && ipv6.resultData.data.listed, true);
+    assert.equal(mapped.resultData.data && mapped.resultData.data.listed, true);
+  });
+
+  it('loads lists once they exist, reporting matches on each', async () => {
+    writeFileSync(BOTNET_LIST_PATH, '# category: botnet\n198.51.100.1\n198.51.100.2\n');
+
+    const result = await checkUntil(service, '198.51.100.1', data => data.lists.checked === 2);
+    const { data = {} } = result.resultData;
+
+    assert.deepEqual(data.lists, { checked: 2, unavailable: [] });
+    assert.deepEqual(
+      data.matches.map(({ list, entry }: { list: string; entry: string }) => `${list} ${entry}`),
+      ['example-spam 198.51.100.0/24', 'botnet 198.51.100.1/32']
+    );
+    assert.deepEqual(data.categories, ['spam', 'botnet']);
+  });
+
+  it('reloads lists when they change', async () => {
+    writeFileSync(SPAM_LIST_PATH, SPAM_LIST.replace('198.51.100.0/24 Spam source', '203.0.113.0/24'));
+
+    const delisted = await checkUntil(service, '198.51.100.3', data => !data.listed);
+    const listed = await service.do(task('203.0.113.1'));
+
+    assert.equal(delisted.resultData.data && delisted.resultData.data.listed, false);
+    assert.equal(listed.resultData.data && listed.resultData.data.listed, true);
+  });
+
+  it('rejects invalid IPs', async () => {
+    const result = await service.do(task('198.51.100.256'));
+
+    assert.equal(result.status, 'reject');
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * A Service that checks an IP against locally configured blocklists
+ */
+import { basename } from 'path';
+
+import { Service, Task, TaskResult, TaskService } from '../taskServices';
+import { parseIP } from '../ipAddress';
+import DataFileLoader from '../DataFileLoader';
+import parseBlocklist, { Blocklist } from './ip-reputation/blocklist';
+
+// Comma-separated paths of blocklist files; see ./ip-reputation/blocklist for the format
+const IP_REPUTATION_LISTS = process.env.IP_REPUTATION_LISTS || '';
+
+/**
+ * A blocklist an IP is listed on
+ */
+interface BlocklistMatch {
+  list: string;
+  category: string;
+  // The listed block containing the IP
+  entry: string;
+  reason: string | null;
+}
+
+/**
+ * IP Reputation Task Service
+ *
+ * Each list is loaded once per worker process into its own longest-prefix-match table, and
+ * reloaded whenever its file changes, so checking an IP costs at most one trie walk per list. An
+ * IP is listed when the most specific entry containing it isn't an exclusion.
+ *
+ * Lists that fail to load are reported as unavailable; the task fails only if every list is.
+ */
+@Service({
+  name: 'ip-reputation',
+  description: 'Check an IP address against local blocklists, reporting which lists it is on and their categories',
+  returnType: {
+    listed: 'boolean',
+    matches: 'array',
+    categories: 'array',
+    lists: { checked: 'number', unavailable: 'array' }
+  },
+  addressTypes: ['ip'],
+  cacheTTL: 900,
+  requiredData: {
+    ip: 'string'
+  }
+})
+export default class IPReputationService extends TaskService {
+  readonly #lists: Array<DataFileLoader<Blocklist>> = IP_REPUTATION_LISTS.split(',')
+    .map(path => path.trim())
+    .filter(Boolean)
+    .map(path => new DataFileLoader(path, parseBlocklist));
+
+  /**
+   * Process a given task
+   */
+  protected processTask = (task: Task): Promise<TaskResult> => {
+    const { data, id, requestId } = task;
+    const { ip } = data;
+
+    if (!this.#lists.length) {
+      return Promise.resolve(
+        new TaskResult(id, requestId, 'fail', { issues: ['No blocklists configured (IP_REPUTATION_LISTS)'] })
+      );
+    }
+
+    const parsed = parseIP(ip);
+    if (!parsed) {
+      return Promise.resolve(
+        new TaskResult(id, requestId, 'reject', { issues: [`'${ip}' is not a valid IP address`] })
+      );
+    }
+
+    // Lists hold IPv4-mapped IPv6 addresses as IPv4
+    const bytes = parsed.mappedIPv4 ? parsed.bytes.slice(12) : parsed.bytes;
+
+    const matches: BlocklistMatch[] = [];
+    const unavailable: string[] = [];
+    let checked = 0;
+
+    this.#lists.forEach(loader => {
+      const list = loader.get();
+      if (!list) {
+        // File names only, to not expose the server's filesystem layout
+        unavailable.push(basename(loader.getPath()));
+        return;
+      }
+
+      checked++;
+
+      const match = list.entries.lookup(bytes);
+      if (match && !match.value.excluded) {
+        matches.push({
+          list: list.name,
+          category: list.category,
+          entry: match.cidr.canonical,
+          reason: match.value.reason
+        });
+      }
+    });
+
+    if (!checked) {
+      return Promise.resolve(
+        new TaskResult(id, requestId, 'fail', { issues: ['No blocklists available', ...unavailable] })
+      );
+    }
+
+    const result = {
+      listed: matches.length > 0,
+      matches,
+      categories: matches.map(match => match.category).filter((category, i, all) => all.indexOf(category) === i),
+      lists: { checked, unavailable }
+    };
+
+    return Promise.resolve(new TaskResult(id, requestId, 'done', { data: result }));
+  };
+}
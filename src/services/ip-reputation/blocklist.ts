@@ -0,0 +1,92 @@
+/**
+ * Parse DNSBL-style blocklist files into longest-prefix-match tables
+ *
+ * The format is a subset of rbldnsd's `ip4set`/`ip6trie` data files, one entry per line:
+ *
+ *   192.0.2.1                    a single address
+ *   198.51.100.0/24 Spam source  a CIDR block, with an optional reason after whitespace
+ *   !198.51.100.7                an exclusion, delisting an address within a listed block
+ *
+ * Blank lines and lines starting with `#` or `;` are skipped, as are unparseable lines. The list's
+ * name and category may be given in header comments:
+ *
+ *   # name: example-drop
+ *   # category: spam
+ *
+ * Otherwise the name is the file's name without its extension, and the category is 'unknown'.
+ */
+import { basename, extname } from 'path';
+
+import { parseCIDR } from '../../ipAddress';
+import PrefixTrie from '../../PrefixTrie';
+
+/**
+ * An entry in a blocklist
+ */
+export interface BlocklistEntry {
+  // Whether the entry delists, rather than lists, its addresses
+  excluded: boolean;
+  reason: string | null;
+}
+
+/**
+ * A parsed blocklist
+ */
+export interface Blocklist {
+  name: string;
+  category: string;
+  entries: PrefixTrie<BlocklistEntry>;
+}
+
+/**
+ * Parse a blocklist file's contents
+ *
+ * Lists may legitimately be empty, so files without valid entries parse as empty lists.
+ *
+ * @param contents {Buffer} Raw file contents
+ * @param path {string} Path of the file, for its default name
+ */
+const parseBlocklist = (contents: Buffer, path: string): Blocklist => {
+  let name = basename(path, extname(path));
+  let category = 'unknown';
+  const entries = new PrefixTrie<BlocklistEntry>();
+
+  for (const rawLine of contents.toString('utf8').split(/\r?\n/)) {
+    const line = rawLine.trim();
+
+    if (!line) {
+      continue;
+    }
+
+    if (line.startsWith('#') || line.startsWith(';')) {
+      const header = /^[#;]\s*(name|category):\s*(\S.*)$/i.exec(line);
+      if (header) {
+        if (header[1].toLowerCase() === 'name') {
+          name = header[2].trim();
+        } else {
+          category = header[2].trim();
+        }
+      }
+      continue;
+    }
+
+    const [address, ...reasonWords] = line.split(/\s+/);
+    const excluded = address.startsWith('!');
+    const block = excluded ? address.slice(1) : address;
+
+    // Single addresses are full-length blocks
+    const cidr = parseCIDR(block.includes('/') ? block : `${block}/${block.includes(':') ? 128 : 32}`);
+    if (!cidr) {
+      continue;
+    }
+
+    // Strip comments trailing the reason, e.g. `; SBL123`
+    const reason = reasonWords.join(' ').replace(/^[;#]\s*/, '') || null;
+
+    entries.insert(cidr, { excluded, reason });
+  }
+
+  return { name, category, entries };
+};
+
+export default parseBlocklist;
@@ -2,17 +2,24 @@
  * A Service that determines whether an IP address is valid
  */
 import { Service, Task, TaskResult, TaskService } from '../taskServices';
-import { isIPValid } from '../utils';
+import { parseIP } from '../ipAddress';
 
 /**
  * IP Validation Task Service
  *
- * NOTE: Currently only supports IPv4
+ * Supports IPv4 and IPv6, including compressed forms, zone IDs, and IPv4-mapped IPv6.
  */
 @Service({
   name: 'ip-validation',
-  description: 'Determine whether a string is a valid IPv4 address',
-  returnType: typeof Boolean,
+  description: 'Determine whether a string is a valid IPv4 or IPv6 address, and its family and canonical form',
+  returnType: {
+    valid: 'boolean',
+    family: 'number',
+    canonical: 'string',
+    zone: 'string',
+    mappedIPv4: 'string'
+  },
+  addressTypes: ['ip'],
   requiredData: {
     ip: 'string'
   }
@@ -25,9 +32,17 @@ export default class IPValidationService extends TaskService {
     const { data, id, requestId } = task;
     const { ip } = data;
 
-    const valid = isIPValid(ip);
+    const parsed = parseIP(ip);
 
-    const result = new TaskResult(id, requestId, 'done', { data: { valid } });
+    if (!parsed) {
+      return Promise.resolve(new TaskResult(id, requestId, 'done', { data: { valid: false } }));
+    }
+
+    const { family, canonical, zone, mappedIPv4 } = parsed;
+
+    const result = new TaskResult(id, requestId, 'done', {
+      data: { valid: true, family, canonical, zone, mappedIPv4 }
+    });
 
     return Promise.resolve(result);
   };
@@ -1,11 +1,22 @@
-import { Service, Task, TaskResult, TaskResultStatuses, TaskService } from '../taskServices';
+import { Service, Task, TaskResult, TaskResultStatus, TaskService } from '../taskServices';
+
+// Statuses workers produce; 'skip' and 'timeout' are only ever assigned by the server, so can't be mocked
+const MOCK_RESULTS: TaskResultStatus[] = ['done', 'fail', 'reject'];
 
 @Service({
   name: 'mock-worker',
   description: 'Mock job queue worker results',
-  returnType: typeof Boolean,
-  requiredData: {
+  returnType: {
     mockResult: 'string'
+  },
+  requiredData: {
+    mockResult: { type: 'string', description: 'Status the task resolves with', enum: MOCK_RESULTS }
+  },
+  example: {
+    address: '8.8.8.8',
+    data: {
+      mockResult: 'done'
+    }
   }
 })
 export default class JobWorkerMock extends TaskService {
@@ -13,18 +24,11 @@ export default class JobWorkerMock extends TaskService {
     const { data, id, requestId } = task;
     const { mockResult } = data;
 
-    const isValid = TaskResultStatuses.includes(mockResult);
-
-    const returnData = isValid
-      ? { data: { mockResult: mockResult } }
-      : { error: `Passed invalid mockResult '${mockResult}'. Must be one of: ${TaskResultStatuses.toString()}.` };
-
+    // mockResult is one of MOCK_RESULTS, as requiredData is validated before tasks are processed
     if ('fail' === mockResult) {
       throw new Error('mock-worker failing as directed');
     }
 
-    const status = isValid ? mockResult : 'reject';
-
-    return Promise.resolve(new TaskResult(id, requestId, status, returnData));
+    return Promise.resolve(new TaskResult(id, requestId, mockResult, { data: { mockResult } }));
   };
 }
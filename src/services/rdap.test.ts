@@ -0,0 +1,172 @@
+import 'reflect-metadata';
+import { strict as assert } from 'assert';
+import { createServer, Server } from 'http';
+
+import { Task } from '../taskServices';
+import { TEST_RDAP_PORT } from '../testEnvironment';
+import RDAPService from './rdap';
+
+const registry = `http://127.0.0.1:${TEST_RDAP_PORT}`;
+
+const task = (data: { [x: string]: any }): Task => ({ id: 'task', requestId: 'request', serviceName: 'rdap', data });
+
+const network = {
+  objectClassName: 'ip network',
+  handle: 'NET-192-0-2-0-1',
+  name: 'TEST-NET-1',
+  startAddress: '192.0.2.0',
+  endAddress: '192.0.2.255',
+  ipVersion: 'v4',
+  status: ['active'],
+  entities: [
+    {
+      handle: 'ABUSE-1',
+      roles: ['abuse'],
+      vcardArray: [
+        'vcard',
+        [
+          ['fn', {}, 'text', 'Abuse Desk'],
+          ['email', {}, 'text', 'abuse@example.test']
+        ]
+      ]
+    }
+  ],
+  events: [{ eventAction: 'registration', eventDate: '2010-01-01T00:00:00Z' }]
+};
+
+const domain = {
+  objectClassName: 'domain',
+  handle: 'D1-TEST',
+  ldhName: 'example.test',
+  nameservers: [{ objectClassName: 'nameserver', ldhName: 'ns1.example.test' }]
+};
+
+/**
+ * Responses by path: JSON bodies, or redirect locations
+ */
+const routes: { [path: string]: { status: number; body?: any; location?: string } } = {
+  '/ip/192.0.2.1': { status: 200, body: network },
+  '/ip/192.0.2.2': { status: 404 },
+  '/ip/192.0.2.3': { status: 500 },
+  '/ip/192.0.2.4': { status: 200, body: 'not json' },
+  '/domain/example.test': { status: 302, location: '/registry/domain/example.test' },
+  '/registry/domain/example.test': { status: 200, body: domain },
+  '/domain/loopback.test': { status: 302, location: `http://127.0.0.2:${TEST_RDAP_PORT}/domain/loopback.test` },
+  '/domain/localhost.test': { status: 302, location: `http://localhost:${TEST_RDAP_PORT}/domain/localhost.test` },
+  '/domain/loop.test': { status: 302, location: '/domain/loop.test' }
+};
+
+describe('RDAPService', () => {
+  const service = new RDAPService();
+
+  let server: Server;
+  let requested: string[];
+
+  before(done => {
+    server = createServer((request, response) => {
+      const route = routes[request.url || ''] || { status: 404 };
+      requested.push(request.url || '');
+
+      response.statusCode = route.status;
+      if (route.location) {
+        response.setHeader('Location', route.location);
+      }
+      if (route.body) {
+        response.setHeader('Content-Type', 'application/rdap+json');
+      }
+      response.end(typeof route.body === 'string' ? route.body : JSON.stringify(route.body));
+    });
+
+    server.listen(TEST_RDAP_PORT, '127.0.0.1', done);
+  });
+
+  after(done => {
+    server.close(done);
+  });
+
+  beforeEach(() => {
+    requested = [];
+  });
+
+  it('normalizes the registration found', async () => {
+    const result = await service.do(task({ ip: '192.0.2.1' }));
+    const { data = {} } = result.resultData;
+
+    assert.equal(result.status, 'done');
+    assert.equal(data.found, true);
+    assert.equal(data.registry, registry);
+    assert.equal(data.objectClass, 'ip network');
+    assert.equal(data.handle, 'NET-192-0-2-0-1');
+    assert.equal(data.abuse.email, 'abuse@example.test');
+    assert.equal(data.dates.registration, '2010-01-01T00:00:00Z');
+    assert.equal(data.network.startAddress, '192.0.2.0');
+  });
+
+  it('queries IPv4-mapped IPv6 addresses as IPv4', async () => {
+    const result = await service.do(task({ ip: '::ffff:192.0.2.1' }));
+
+    assert.equal(result.status, 'done');
+    assert.deepEqual(requested, ['/ip/192.0.2.1']);
+  });
+
+  it('finds nothing when the registry has no record', async () => {
+    const result = await service.do(task({ ip: '192.0.2.2' }));
+
+    assert.equal(result.status, 'done');
+    assert.deepEqual(result.resultData.data, { found: false, registry });
+  });
+
+  it('fails when the registry errors, or sends invalid JSON', async () => {
+    const errored = await service.do(task({ ip: '192.0.2.3' }));
+    const invalid = await service.do(task({ ip: '192.0.2.4' }));
+
+    assert.equal(errored.status, 'fail');
+    assert.deepEqual(errored.resultData.issues, [`RDAP server ${registry} responded with status 500`]);
+    assert.equal(invalid.status, 'fail');
+    assert.deepEqual(invalid.resultData.issues, [`RDAP server ${registry} sent invalid JSON`]);
+  });
+
+  it("follows redirects within the registry's host", async () => {
+    const result = await service.do(task({ domain: 'example.test' }));
+    const { data = {} } = result.resultData;
+
+    assert.equal(result.status, 'done');
+    assert.deepEqual(requested, ['/domain/example.test', '/registry/domain/example.test']);
+    assert.equal(data.domain.ldhName, 'example.test');
+    assert.deepEqual(data.domain.nameservers, ['ns1.example.test']);
+  });
+
+  it("refuses redirects off the registry's host to non-global IPs", async () => {
+    const result = await service.do(task({ domain: 'loopback.test' }));
+    const { issues = [] } = result.resultData;
+
+    assert.equal(result.status, 'fail');
+    assert.deepEqual(requested, ['/domain/loopback.test']);
+    assert.ok(issues[0].includes('Refusing to follow redirect'), issues[0]);
+  });
+
+  it("refuses redirects off the registry's host to hostnames resolving to non-global IPs", async () => {
+    const result = await service.do(task({ domain: 'localhost.test' }));
+    const { issues = [] } = result.resultData;
+
+    assert.equal(result.status, 'fail');
+    assert.deepEqual(requested, ['/domain/localhost.test']);
+    assert.ok(issues[0].includes('Refusing to connect'), issues[0]);
+  });
+
+  it('fails after too many redirects', async () => {
+    const result = await service.do(task({ domain: 'loop.test' }));
+    const { issues = [] } = result.resultData;
+
+    assert.equal(result.status, 'fail');
+    assert.equal(requested.length, 4);
+    assert.ok(issues[0].includes('Too many redirects'), issues[0]);
+  });
+
+  it('rejects invalid addresses', async () => {
+    const result = await service.do(task({ asn: -1 }));
+
+    assert.equal(result.status, 'reject');
+    assert.deepEqual(requested, []);
+  });
+});
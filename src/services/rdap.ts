@@ -0,0 +1,217 @@
+/**
+ * A Service that looks up the registration of an IP, CIDR block, ASN, or domain with RDAP
+ */
+import { isIP } from 'net';
+import { domainToASCII, URL } from 'url';
+
+import { Service, Task, TaskResult, TaskService } from '../taskServices';
+import CancellationSignal from '../CancellationSignal';
+import { httpRequest, HttpResponse } from '../httpClient';
+import { parseCIDR, parseIP } from '../ipAddress';
+import { describeNonGlobalAddress, lookupGlobalAddress, NonGlobalAddressError } from '../ipClassification';
+import RDAPBootstrap, { fileBootstrapLoader, httpBootstrapLoader } from './rdap/bootstrap';
+import normalizeRDAP from './rdap/normalize';
+
+// Base URL of an RDAP server to query for everything, bypassing the bootstrap (e.g. a test fixture)
+const RDAP_BASE_URL = process.env.RDAP_BASE_URL || '';
+// Directory of local bootstrap registry files (asn.json, dns.json, ipv4.json, ipv6.json), instead of fetching
+const RDAP_BOOTSTRAP_PATH = process.env.RDAP_BOOTSTRAP_PATH || '';
+// Where to fetch bootstrap registry files from, when not local
+const RDAP_BOOTSTRAP_URL = process.env.RDAP_BOOTSTRAP_URL || 'https://data.iana.org/rdap';
+// Seconds to cache fetched bootstrap registries
+const RDAP_BOOTSTRAP_TTL_S = Number(process.env.RDAP_BOOTSTRAP_TTL_S) || 86400;
+// Milliseconds to wait for each RDAP (or bootstrap) response
+const RDAP_TIMEOUT_MS = Number(process.env.RDAP_TIMEOUT_MS) || 10000;
+// Redirects to follow; registries redirect queries for resources they don't hold
+const RDAP_MAX_REDIRECTS = 3;
+
+/**
+ * GET an RDAP URL, following redirects
+ *
+ * Redirects within the queried registry's host are trusted. Others may lead anywhere, so are only
+ * followed to global addresses, like callbacks (see CallbackDispatcher).
+ *
+ * @param registryHost {string} Host of the URL first queried
+ */
+const fetchRDAP = (
+  url: string,
+  signal: CancellationSignal,
+  redirects: number = RDAP_MAX_REDIRECTS,
+  registryHost: string = new URL(url).host
+): Promise<HttpResponse & { url: string }> => {
+  const { host, hostname } = new URL(url);
+  const external = host !== registryHost;
+
+  // Hostnames are checked as they're resolved to connect (see lookupGlobalAddress); IPs aren't
+  // looked up, so are checked here
+  const ip = hostname.replace(/^\[(.*)\]$/, '$1');
+  const nonGlobal = external && isIP(ip) ? describeNonGlobalAddress([ip]) : null;
+  if (nonGlobal) {
+    return Promise.reject(new NonGlobalAddressError(`Refusing to follow redirect to ${url}: ${nonGlobal}`));
+  }
+
+  return httpRequest(url, {
+    headers: { Accept: 'application/rdap+json' },
+    timeout: RDAP_TIMEOUT_MS,
+    signal,
+    lookup: external ? lookupGlobalAddress : undefined
+  }).then(response => {
+    const { statusCode, headers } = response;
+
+    if (statusCode >= 300 && statusCode < 400 && headers.location) {
+      if (!redirects) {
+        throw new Error(`Too many redirects querying ${url}`);
+      }
+      return fetchRDAP(new URL(headers.location, url).toString(), signal, redirects - 1, registryHost);
+    }
+
+    return { ...response, url };
+  });
+};
+
+/**
+ * RDAP Task Service
+ *
+ * Finds the authoritative registry with IANA bootstrap data, then queries it. Results are:
+ *   - 'done' with the normalized registration, or `found: false` if the registry has no record
+ *   - 'fail' when bootstrap data or the registry is unavailable, or the registry misbehaves
+ *   - 'reject' for invalid addresses, and addresses no registry serves (e.g. private IPs)
+ *
+ * Registries are often briefly unavailable or rate limiting, so failures are retried.
+ *
+ * Takes `ip`, `cidr`, `asn`, or `domain` data, so has no `requiredData`.
+ */
+@Service({
+  name: 'rdap',
+  description:
+    'Look up the registration of an IP address, CIDR block, ASN, or domain with RDAP: registrant, network, abuse contact, and dates',
+  returnType: {
+    found: 'boolean',
+    registry: 'string',
+    objectClass: 'string',
+    handle: 'string | null',
+    name: 'string | null',
+    status: 'array',
+    registrant: 'object | null',
+    registrar: 'object | null',
+    abuse: 'object | null',
+    dates: { registration: 'string | null', expiration: 'string | null', lastChanged: 'string | null' },
+    network: 'object',
+    domain: 'object'
+  },
+  addressTypes: ['ip', 'cidr', 'asn', 'domain', 'url', 'email'],
+  cacheTTL: 86400,
+  retry: { attempts: 3, backoff: { type: 'exponential', delay: 500, jitter: 0.5 } },
+  requiredData: {}
+})
+export default class RDAPService extends TaskService {
+  readonly #bootstrap = new RDAPBootstrap(
+    RDAP_BOOTSTRAP_PATH
+      ? fileBootstrapLoader(RDAP_BOOTSTRAP_PATH)
+      : httpBootstrapLoader(RDAP_BOOTSTRAP_URL, RDAP_BOOTSTRAP_TTL_S, RDAP_TIMEOUT_MS)
+  );
+
+  /**
+   * Process a given task
+   */
+  protected processTask = async (task: Task, signal: CancellationSignal): Promise<TaskResult> => {
+    const { data, id, requestId } = task;
+    const reject = (issue: string) => new TaskResult(id, requestId, 'reject', { issues: [issue] });
+
+    let path: string;
+    let findBaseUrls: () => Promise<string[]>;
+    let queried: string;
+
+    if (data.cidr) {
+      const cidr = parseCIDR(data.cidr.canonical);
+      if (!cidr) {
+        return reject(`'${data.cidr.canonical}' is not a valid CIDR block`);
+      }
+
+      queried = cidr.canonical;
+      path = `ip/${cidr.canonical}`;
+      findBaseUrls = () => this.#bootstrap.findForCIDR(cidr);
+    } else if (data.asn !== undefined) {
+      if (!Number.isInteger(data.asn) || data.asn < 0) {
+        return reject(`'${data.asn}' is not a valid ASN`);
+      }
+
+      queried = `AS${data.asn}`;
+      path = `autnum/${data.asn}`;
+      findBaseUrls = () => this.#bootstrap.findForASN(data.asn);
+    } else if (data.ip) {
+      const parsed = parseIP(data.ip);
+      if (!parsed) {
+        return reject(`'${data.ip}' is not a valid IP address`);
+      }
+
+      // Registries hold IPv4-mapped IPv6 addresses as IPv4
+      const ip = parsed.mappedIPv4 ? parseIP(parsed.mappedIPv4) || parsed : parsed;
+
+      queried = ip.canonical;
+      path = `ip/${ip.canonical.split('%')[0]}`;
+      findBaseUrls = () => this.#bootstrap.findForIP(ip);
+    } else if (data.domain) {
+      // Registries expect A-labels for internationalized domains
+      const domain = domainToASCII(String(data.domain).replace(/\.$/, ''));
+      if (!domain) {
+        return reject(`'${data.domain}' is not a valid domain`);
+      }
+
+      queried = domain;
+      path = `domain/${domain}`;
+      findBaseUrls = () => this.#bootstrap.findForDomain(domain);
+    } else {
+      return reject('Task missing `ip`, `cidr`, `asn`, or `domain` data required by rdap');
+    }
+
+    let baseUrls: string[];
+    try {
+      baseUrls = RDAP_BASE_URL
+        ? [RDAP_BASE_URL.endsWith('/') ? RDAP_BASE_URL : `${RDAP_BASE_URL}/`]
+        : await findBaseUrls();
+    } catch (e) {
+      return new TaskResult(id, requestId, 'fail', { issues: [`RDAP bootstrap data unavailable: ${e.message}`] });
+    }
+
+    if (!baseUrls.length) {
+      return reject(`No RDAP service is registered for '${queried}'`);
+    }
+
+    const issues: string[] = [];
+
+    // Base URLs are alternatives for the same registry; fall back to the next only on network errors
+    for (const baseUrl of baseUrls) {
+      let response: HttpResponse & { url: string };
+      try {
+        response = await fetchRDAP(`${baseUrl}${path}`, signal);
+      } catch (e) {
+        issues.push(`Querying ${baseUrl} failed: ${e.message}`);
+        continue;
+      }
+
+      const registry = new URL(response.url).origin;
+
+      if (response.statusCode === 404) {
+        return new TaskResult(id, requestId, 'done', { data: { found: false, registry } });
+      }
+
+      if (response.statusCode !== 200) {
+        return new TaskResult(id, requestId, 'fail', {
+          issues: [`RDAP server ${registry} responded with status ${response.statusCode}`]
+        });
+      }
+
+      let json: any;
+      try {
+        json = JSON.parse(response.body);
+      } catch (e) {
+        return new TaskResult(id, requestId, 'fail', { issues: [`RDAP server ${registry} sent invalid JSON`] });
+      }
+
+      return new TaskResult(id, requestId, 'done', { data: { found: true, registry, ...normalizeRDAP(json) } });
+    }
+
+    return new TaskResult(id, requestId, 'fail', { issues });
+  };
+}
@@ -0,0 +1,266 @@
+/**
+ * IANA RDAP bootstrap registries: which RDAP servers are authoritative for which IPs, ASNs, and domains
+ *
+ * Registries are in the RFC 9224 JSON format published at https://data.iana.org/rdap/ (`asn.json`,
+ * `dns.json`, `ipv4.json`, `ipv6.json`), and come from a pluggable `BootstrapLoader`: fetched over
+ * HTTP and cached, or read from local copies of the files.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc9224
+ */
+import { httpRequest } from '../../httpClient';
+import { IPFamily, parseCIDR, ParsedCIDR, ParsedIP } from '../../ipAddress';
+import DataFileLoader from '../../DataFileLoader';
+import Debug from '../../debug';
+import PrefixTrie from '../../PrefixTrie';
+
+const debug = Debug.extend('service:rdap:bootstrap');
+
+export type BootstrapRegistryName = 'asn' | 'dns' | 'ipv4' | 'ipv6';
+
+/**
+ * A bootstrap registry file
+ */
+export interface BootstrapRegistry {
+  version: string;
+  publication: string;
+  // Each service is a pair of entries (TLDs, CIDR blocks, or ASN ranges) and the RDAP base URLs serving them
+  services: Array<[string[], string[]]>;
+}
+
+/**
+ * Get a bootstrap registry's current contents, rejecting if unavailable
+ */
+export type BootstrapLoader = (registry: BootstrapRegistryName) => Promise<BootstrapRegistry>;
+
+/**
+ * Throw unless parsed JSON has the shape of a bootstrap registry
+ */
+const validateRegistry = (json: any): BootstrapRegistry => {
+  const isStrings = (value: any) => Array.isArray(value) && value.every(item => typeof item === 'string');
+
+  if (
+    !json ||
+    !Array.isArray(json.services) ||
+    !json.services.every((service: any) => Array.isArray(service) && isStrings(service[0]) && isStrings(service[1]))
+  ) {
+    throw new Error('Not an RDAP bootstrap registry');
+  }
+
+  return json;
+};
+
+/**
+ * Create a loader that fetches registries from a URL, e.g. `https://data.iana.org/rdap`
+ *
+ * Each registry is cached in memory for `ttlSeconds`. If refreshing a stale registry fails, the
+ * stale copy is used until the next attempt.
+ */
+export const httpBootstrapLoader = (baseUrl: string, ttlSeconds: number, timeout?: number): BootstrapLoader => {
+  const cache: { [x: string]: { registry: BootstrapRegistry; fetchedAt: number } } = {};
+  // Fetches in progress, so concurrent tasks share one request
+  const pending: { [x: string]: Promise<BootstrapRegistry> } = {};
+
+  const fetchRegistry = (name: BootstrapRegistryName): Promise<BootstrapRegistry> => {
+    const url = `${baseUrl.replace(/\/+$/, '')}/${name}.json`;
+    debug(`fetching ${url}`);
+
+    return httpRequest(url, { headers: { Accept: 'application/json' }, timeout }).then(({ statusCode, body }) => {
+      if (statusCode !== 200) {
+        throw new Error(`Fetching ${url} failed with status ${statusCode}`);
+      }
+
+      const registry = validateRegistry(JSON.parse(body));
+      cache[name] = { registry, fetchedAt: Date.now() };
+
+      return registry;
+    });
+  };
+
+  return (name: BootstrapRegistryName): Promise<BootstrapRegistry> => {
+    const cached = cache[name];
+
+    if (cached && Date.now() - cached.fetchedAt < ttlSeconds * 1000) {
+      return Promise.resolve(cached.registry);
+    }
+
+    if (!pending[name]) {
+      pending[name] = fetchRegistry(name).then(
+        registry => {
+          delete pending[name];
+          return registry;
+        },
+        error => {
+          delete pending[name];
+          debug(`fetching ${name} registry failed: ${error.message}`);
+
+          if (cached) {
+            return cached.registry;
+          }
+          throw error;
+        }
+      );
+    }
+
+    return pending[name];
+  };
+};
+
+/**
+ * Create a loader that reads registries from `<directory>/<registry>.json`, reloading on change
+ */
+export const fileBootstrapLoader = (directory: string): BootstrapLoader => {
+  const files: { [x: string]: DataFileLoader<BootstrapRegistry> } = {};
+
+  return (name: BootstrapRegistryName): Promise<BootstrapRegistry> => {
+    if (!files[name]) {
+      files[name] = new DataFileLoader(`${directory.replace(/\/+$/, '')}/${name}.json`, contents =>
+        validateRegistry(JSON.parse(contents.toString('utf8')))
+      );
+    }
+
+    const registry = files[name].get();
+
+    return registry
+      ? Promise.resolve(registry)
+      : Promise.reject(new Error(`Bootstrap registry ${name} unavailable: ${files[name].getError()}`));
+  };
+};
+
+/**
+ * Order a service's base URLs, preferring HTTPS per RFC 9224, and ensure trailing slashes
+ */
+const normalizeBaseUrls = (urls: string[]): string[] =>
+  urls
+    .map(url => (url.endsWith('/') ? url : `${url}/`))
+    .sort((a, b) => Number(b.startsWith('https:')) - Number(a.startsWith('https:')));
+
+/**
+ * A range of ASNs and the RDAP base URLs serving them
+ */
+interface ASNRange {
+  first: number;
+  last: number;
+  urls: string[];
+}
+
+/**
+ * Find RDAP servers for IPs, ASNs, and domains, per the bootstrap registries
+ */
+export default class RDAPBootstrap {
+  readonly #load: BootstrapLoader;
+
+  /**
+   * Lookup structures built from each registry, rebuilt only when a registry's contents change
+   */
+  readonly #ipIndexes = new WeakMap<BootstrapRegistry, PrefixTrie<string[]>>();
+
+  readonly #dnsIndexes = new WeakMap<BootstrapRegistry, Map<string, string[]>>();
+
+  readonly #asnIndexes = new WeakMap<BootstrapRegistry, ASNRange[]>();
+
+  constructor(load: BootstrapLoader) {
+    this.#load = load;
+  }
+
+  /**
+   * Get the IP prefix index of an ipv4 or ipv6 registry
+   */
+  #loadIPIndex = (family: IPFamily): Promise<PrefixTrie<string[]>> =>
+    this.#load(family === 4 ? 'ipv4' : 'ipv6').then(registry => {
+      let index = this.#ipIndexes.get(registry);
+
+      if (!index) {
+        index = new PrefixTrie<string[]>();
+        for (const [prefixes, urls] of registry.services) {
+          for (const prefix of prefixes) {
+            const cidr = parseCIDR(prefix);
+            if (cidr) {
+              index.insert(cidr, normalizeBaseUrls(urls));
+            }
+          }
+        }
+        this.#ipIndexes.set(registry, index);
+      }
+
+      return index;
+    });
+
+  /**
+   * Get base URLs of RDAP servers for an IP address, most preferred first; empty if none
+   */
+  findForIP = (ip: ParsedIP): Promise<string[]> =>
+    this.#loadIPIndex(ip.family).then(index => {
+      const match = index.lookup(ip.bytes);
+
+      return match ? match.value : [];
+    });
+
+  /**
+   * Get base URLs of RDAP servers for a CIDR block, most preferred first; empty if none
+   *
+   * Only registered prefixes containing the whole block match.
+   */
+  findForCIDR = (cidr: ParsedCIDR): Promise<string[]> =>
+    this.#loadIPIndex(cidr.family).then(index => {
+      const match = index.lookupAll(cidr.bytes).find(item => item.cidr.prefixLength <= cidr.prefixLength);
+
+      return match ? match.value : [];
+    });
+
+  /**
+   * Get base URLs of RDAP servers for a domain, most preferred first; empty if none
+   *
+   * Matches the longest registered label suffix, e.g. `co.uk` before `uk`, should any exist.
+   */
+  findForDomain = (domain: string): Promise<string[]> =>
+    this.#load('dns').then(registry => {
+      let index = this.#dnsIndexes.get(registry);
+
+      if (!index) {
+        index = new Map();
+        for (const [suffixes, urls] of registry.services) {
+          for (const suffix of suffixes) {
+            index.set(suffix.toLowerCase(), normalizeBaseUrls(urls));
+          }
+        }
+        this.#dnsIndexes.set(registry, index);
+      }
+
+      const labels = domain.toLowerCase().split('.');
+      for (let i = 0; i < labels.length; i++) {
+        const urls = index.get(labels.slice(i).join('.'));
+        if (urls) {
+          return urls;
+        }
+      }
+
+      return [];
+    });
+
+  /**
+   * Get base URLs of RDAP servers for an ASN, most preferred first; empty if none
+   *
+   * Entries are single ASNs (e.g. `1877`) or inclusive ranges (e.g. `1-1876`).
+   */
+  findForASN = (asn: number): Promise<string[]> =>
+    this.#load('asn').then(registry => {
+      let index = this.#asnIndexes.get(registry);
+
+      if (!index) {
+        index = [];
+        for (const [ranges, urls] of registry.services) {
+          for (const range of ranges) {
+            const [first, last = first]: number[] = range.split('-').map(Number);
+            if (Number.isInteger(first) && Number.isInteger(last)) {
+              index.push({ first, last, urls: normalizeBaseUrls(urls) });
+            }
+          }
+        }
+        this.#asnIndexes.set(registry, index);
+      }
+
+      const match = index.find(({ first, last }) => asn >= first && asn <= last);
+
+      return match ? match.urls : [];
+    });
+}
@@ -0,0 +1,194 @@
+/**
+ * Normalize RDAP responses from any registry into one flat shape
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc9083 for the response format
+ */
+
+/**
+ * A contact, from an RDAP entity's jCard
+ */
+export interface RDAPContact {
+  handle: string | null;
+  name: string | null;
+  org: string | null;
+  email: string | null;
+  phone: string | null;
+}
+
+/**
+ * A normalized RDAP response
+ */
+export interface NormalizedRDAP {
+  objectClass: string;
+  handle: string | null;
+  name: string | null;
+  status: string[];
+  registrant: RDAPContact | null;
+  registrar: RDAPContact | null;
+  abuse: RDAPContact | null;
+  dates: {
+    registration: string | null;
+    expiration: string | null;
+    lastChanged: string | null;
+  };
+  // IP networks only
+  network?: {
+    startAddress: string | null;
+    endAddress: string | null;
+    cidrs: string[];
+    ipVersion: string | null;
+    type: string | null;
+    country: string | null;
+    parentHandle: string | null;
+  };
+  // Domains only
+  domain?: {
+    ldhName: string | null;
+    unicodeName: string | null;
+    nameservers: string[];
+    dnssec: boolean | null;
+  };
+}
+
+/**
+ * Read a property from a jCard (`["vcard", [[name, params, type, value], ...]]`)
+ */
+const vcardProperty = (vcardArray: any, property: string): string | null => {
+  if (!Array.isArray(vcardArray) || !Array.isArray(vcardArray[1])) {
+    return null;
+  }
+
+  const entry = vcardArray[1].find((item: any) => Array.isArray(item) && item[0] === property);
+  if (!entry) {
+    return null;
+  }
+
+  // Structured values (e.g. `org` with units) are arrays
+  const value = Array.isArray(entry[3]) ? entry[3].filter(Boolean).join(', ') : entry[3];
+  if (typeof value !== 'string' || !value) {
+    return null;
+  }
+
+  // Phone numbers may be `tel:` URIs
+  return property === 'tel' ? value.replace(/^tel:/, '') : value;
+};
+
+/**
+ * Normalize an RDAP entity to a contact
+ */
+const toContact = (entity: any): RDAPContact => ({
+  handle: typeof entity.handle === 'string' ? entity.handle : null,
+  name: vcardProperty(entity.vcardArray, 'fn'),
+  org: vcardProperty(entity.vcardArray, 'org'),
+  email: vcardProperty(entity.vcardArray, 'email'),
+  phone: vcardProperty(entity.vcardArray, 'tel')
+});
+
+/**
+ * Find the first entity with a role, searching nested entities breadth-first
+ *
+ * Registries nest differently, e.g. the abuse contact may be top-level, or under the registrant.
+ */
+const findEntity = (entities: any, role: string): any | null => {
+  let level: any[] = Array.isArray(entities) ? entities : [];
+
+  while (level.length) {
+    const found = level.find(entity => entity && Array.isArray(entity.roles) && entity.roles.includes(role));
+    if (found) {
+      return found;
+    }
+
+    level = level.reduce(
+      (next: any[], entity) => (entity && Array.isArray(entity.entities) ? next.concat(entity.entities) : next),
+      []
+    );
+  }
+
+  return null;
+};
+
+/**
+ * Get the date of the first event with an action
+ */
+const eventDate = (events: any, action: string): string | null => {
+  if (!Array.isArray(events)) {
+    return null;
+  }
+
+  const event = events.find(item => item && item.eventAction === action);
+
+  return event && typeof event.eventDate === 'string' ? event.eventDate : null;
+};
+
+/**
+ * String property or null
+ */
+const stringOrNull = (value: any): string | null => (typeof value === 'string' ? value : null);
+
+/**
+ * Normalize an RDAP `ip network` or `domain` object
+ */
+const normalizeRDAP = (response: any): NormalizedRDAP => {
+  const { entities, events } = response;
+
+  const normalized: NormalizedRDAP = {
+    objectClass: stringOrNull(response.objectClassName) || 'unknown',
+    handle: stringOrNull(response.handle),
+    name: stringOrNull(response.name),
+    status: Array.isArray(response.status) ? response.status : [],
+    registrant: null,
+    registrar: null,
+    abuse: null,
+    dates: {
+      registration: eventDate(events, 'registration'),
+      expiration: eventDate(events, 'expiration'),
+      lastChanged: eventDate(events, 'last changed')
+    }
+  };
+
+  for (const role of ['registrant', 'registrar', 'abuse'] as const) {
+    const entity = findEntity(entities, role);
+    if (entity) {
+      normalized[role] = toContact(entity);
+    }
+  }
+
+  if (normalized.objectClass === 'ip network') {
+    // CIDRs come from the widely deployed `cidr0` extension
+    const cidrs = Array.isArray(response.cidr0_cidrs)
+      ? response.cidr0_cidrs
+          .map((cidr: any) => {
+            const prefix = cidr.v4prefix || cidr.v6prefix;
+            return prefix && cidr.length !== undefined ? `${prefix}/${cidr.length}` : null;
+          })
+          .filter(Boolean)
+      : [];
+
+    normalized.network = {
+      startAddress: stringOrNull(response.startAddress),
+      endAddress: stringOrNull(response.endAddress),
+      cidrs,
+      ipVersion: stringOrNull(response.ipVersion),
+      type: stringOrNull(response.type),
+      country: stringOrNull(response.country),
+      parentHandle: stringOrNull(response.parentHandle)
+    };
+  }
+
+  if (normalized.objectClass === 'domain') {
+    const { nameservers, secureDNS } = response;
+
+    normalized.domain = {
+      ldhName: stringOrNull(response.ldhName),
+      unicodeName: stringOrNull(response.unicodeName),
+      nameservers: Array.isArray(nameservers)
+        ? nameservers.map((nameserver: any) => nameserver && nameserver.ldhName).filter(Boolean)
+        : [],
+      dnssec: secureDNS && typeof secureDNS.delegationSigned === 'boolean' ? secureDNS.delegationSigned : null
+    };
+  }
+
+  return normalized;
+};
+
+export default normalizeRDAP;
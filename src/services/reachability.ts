@@ -0,0 +1,220 @@
+/**
+ * A Service that probes whether TCP ports accept connections on an IP or domain
+ */
+import { connect } from 'net';
+
+import { Service, Task, TaskResult, TaskService } from '../taskServices';
+import CancellationSignal from '../CancellationSignal';
+import { cancelOnSignal, classifyDNSError, createResolver, withTimeout } from '../dnsResolver';
+import { parseIP } from '../ipAddress';
+import { describeNonGlobalAddress } from '../ipClassification';
+import { REQUEST_TIMEOUT_MS } from '../shared';
+import Semaphore from '../Semaphore';
+
+// Most ports one task may probe
+const REACHABILITY_MAX_PORTS = Number(process.env.REACHABILITY_MAX_PORTS) || 20;
+// Milliseconds to wait for each connection before reporting the port filtered
+const REACHABILITY_PROBE_TIMEOUT_MS = Number(process.env.REACHABILITY_PROBE_TIMEOUT_MS) || 3000;
+// Most probes in flight at once per worker process, across all tasks
+const REACHABILITY_MAX_CONCURRENT_PROBES = Number(process.env.REACHABILITY_MAX_CONCURRENT_PROBES) || 100;
+// Set to 'true' to allow probing private, loopback, and other non-global addresses, e.g. on internal deployments
+const REACHABILITY_ALLOW_PRIVATE_TARGETS = process.env.REACHABILITY_ALLOW_PRIVATE_TARGETS === 'true';
+
+// Share of the request timeout a task may spend probing; the rest covers queueing and delivery
+const PROBE_BUDGET_RATIO = 0.8;
+
+export type PortState = 'open' | 'closed' | 'filtered' | 'skipped';
+
+/**
+ * Outcome of probing a port
+ */
+interface PortProbe {
+  port: number;
+  // 'open' accepted a connection, 'closed' refused it, 'filtered' didn't answer in time (or was
+  // unreachable), and 'skipped' wasn't probed before the task ran out of time or was cancelled
+  state: PortState;
+  // Milliseconds until the port answered, for open and closed ports
+  latencyMs?: number;
+  error?: string;
+}
+
+/**
+ * Milliseconds elapsed since an `hrtime()`, to two decimal places
+ */
+const elapsedMs = (start: [number, number]): number => {
+  const [seconds, nanoseconds] = process.hrtime(start);
+  return Math.round(seconds * 1e5 + nanoseconds / 1e4) / 100;
+};
+
+/**
+ * Attempt a TCP connection, resolving with the port's state; never rejects
+ *
+ * The connection is destroyed, and the port reported 'skipped', if the signal is cancelled first.
+ */
+const probePort = (host: string, port: number, timeout: number, signal: CancellationSignal): Promise<PortProbe> =>
+  new Promise(resolve => {
+    const start = process.hrtime();
+    const socket = connect({ host, port });
+    let settled = false;
+    let stopCancelling = (): void => undefined;
+
+    const finish = (probe: PortProbe) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+
+      clearTimeout(timer);
+      stopCancelling();
+      socket.destroy();
+      resolve(probe);
+    };
+
+    const timer = setTimeout(() => finish({ port, state: 'filtered', error: 'timeout' }), timeout);
+    stopCancelling = signal.onCancel(() => finish({ port, state: 'skipped', error: 'cancelled' }));
+
+    socket.once('connect', () => finish({ port, state: 'open', latencyMs: elapsedMs(start) }));
+    socket.once('error', (error: Error & { code?: string }) => {
+      if (error.code === 'ECONNREFUSED') {
+        finish({ port, state: 'closed', latencyMs: elapsedMs(start) });
+      } else {
+        // e.g. EHOSTUNREACH, ENETUNREACH
+        finish({ port, state: 'filtered', error: error.code || error.message });
+      }
+    });
+  });
+
+/**
+ * Deduplicate requested ports, already validated per `requiredData`, or get issues if too many remain
+ */
+const parsePorts = (ports: number[]): number[] | { issues: string[] } => {
+  const unique = ports.filter((port, i) => ports.indexOf(port) === i);
+  if (unique.length > REACHABILITY_MAX_PORTS) {
+    return { issues: [`Too many ports (${unique.length}); at most ${REACHABILITY_MAX_PORTS} may be probed at once`] };
+  }
+
+  return unique;
+};
+
+/**
+ * Reachability Task Service
+ *
+ * Probes ports concurrently, within a per-process cap on probes in flight. Each task must finish
+ * inside the request timeout, so probes are cut short, and ports left unprobed are 'skipped', as
+ * the task's time budget runs out.
+ *
+ * Takes either `ip` or `domain` data; domains are probed at their first A (or else AAAA) address.
+ * Targets must be global addresses, and domains must resolve only to global addresses, so requests
+ * can't scan internal networks, unless REACHABILITY_ALLOW_PRIVATE_TARGETS is set.
+ *
+ * @TODO measure the time budget from when the request was made, rather than when the task started
+ */
+@Service({
+  name: 'reachability',
+  description: 'Probe TCP ports on an IP address or domain, reporting each open, closed, or filtered, with latency',
+  returnType: {
+    address: 'string',
+    ports: 'array',
+    open: 'array'
+  },
+  addressTypes: ['ip', 'domain', 'url'],
+  requiredData: {
+    ports: {
+      type: 'array',
+      description: 'TCP ports to probe',
+      items: { type: 'integer', minimum: 1, maximum: 65535 },
+      minItems: 1
+    }
+  },
+  example: {
+    address: 'example.com',
+    data: { ports: [80, 443] }
+  }
+})
+export default class ReachabilityService extends TaskService {
+  /**
+   * Caps probes in flight across all of this process's tasks, so no request can exhaust sockets
+   */
+  readonly #probeSlots = new Semaphore(REACHABILITY_MAX_CONCURRENT_PROBES);
+
+  /**
+   * Process a given task
+   */
+  protected processTask = async (task: Task, signal: CancellationSignal): Promise<TaskResult> => {
+    const { data, id, requestId } = task;
+    const deadline = Date.now() + REQUEST_TIMEOUT_MS * PROBE_BUDGET_RATIO;
+
+    const ports = parsePorts(data.ports);
+    if (!Array.isArray(ports)) {
+      return new TaskResult(id, requestId, 'reject', ports);
+    }
+
+    let address: string;
+    // Every address the target is, or resolves to, for refusing non-global targets
+    let addresses: string[];
+
+    if (data.ip) {
+      const parsed = parseIP(data.ip);
+      if (!parsed) {
+        return new TaskResult(id, requestId, 'reject', { issues: [`'${data.ip}' is not a valid IP address`] });
+      }
+      address = parsed.mappedIPv4 || parsed.canonical;
+      addresses = [parsed.canonical];
+    } else if (data.domain) {
+      const resolver = createResolver();
+      cancelOnSignal(resolver, signal);
+      try {
+        addresses = await withTimeout(resolver.resolve4(data.domain)).catch(() =>
+          withTimeout(resolver.resolve6(data.domain))
+        );
+        address = addresses[0];
+      } catch (e) {
+        if (resolver.cancel) {
+          resolver.cancel();
+        }
+
+        const code = classifyDNSError(e);
+        const issues = [`Resolving '${data.domain}' failed with ${code}: ${e.message}`];
+
+        // A domain without addresses can't be probed; a failed lookup might succeed later
+        return new TaskResult(id, requestId, code === 'NXDOMAIN' || code === 'NODATA' ? 'reject' : 'fail', {
+          issues
+        });
+      }
+    } else {
+      return new TaskResult(id, requestId, 'reject', {
+        issues: ['Task missing `ip` or `domain` data required by reachability']
+      });
+    }
+
+    const nonGlobal = REACHABILITY_ALLOW_PRIVATE_TARGETS
+      ? null
+      : describeNonGlobalAddress(addresses, data.ip ? undefined : data.domain);
+    if (nonGlobal) {
+      return new TaskResult(id, requestId, 'reject', {
+        issues: [`${nonGlobal}; only globally reachable addresses may be probed`]
+      });
+    }
+
+    const probes = await Promise.all(
+      ports.map(port =>
+        this.#probeSlots.use(
+          (): Promise<PortProbe> => {
+            const remaining = deadline - Date.now();
+
+            // Ports not yet probed when cancelled aren't worth probing
+            if (remaining <= 0 || signal.isCancelled()) {
+              return Promise.resolve({ port, state: 'skipped' });
+            }
+
+            return probePort(address, port, Math.min(REACHABILITY_PROBE_TIMEOUT_MS, remaining), signal);
+          }
+        )
+      )
+    );
+
+    const open = probes.filter(probe => probe.state === 'open').map(probe => probe.port);
+
+    return new TaskResult(id, requestId, 'done', { data: { address, ports: probes, open } });
+  };
+}
@@ -0,0 +1,113 @@
+import 'reflect-metadata';
+import { strict as assert } from 'assert';
+import { Socket } from 'dgram';
+
+import { Task } from '../taskServices';
+import { TEST_DNS_PORT } from '../testEnvironment';
+import { startTestDNSServer } from '../testDNSServer';
+import ReverseDNSService from './reverse-dns';
+
+const task = (ip: string): Task => ({ id: 'task', requestId: 'request', serviceName: 'reverse-dns', data: { ip } });
+
+describe('ReverseDNSService', () => {
+  const service = new ReverseDNSService();
+
+  let server: Socket;
+
+  before(async () => {
+    server = await startTestDNSServer(TEST_DNS_PORT, {
+      // 192.0.2.1 resolves back from one of its hostnames
+      '1.2.0.192.in-addr.arpa': { PTR: ['other.example.test', 'host.example.test'] },
+      'host.example.test': { A: ['192.0.2.1'] },
+      'other.example.test': { A: ['192.0.2.99'] },
+      // 192.0.2.2 claims a hostname that doesn't exist
+      '2.2.0.192.in-addr.arpa': { PTR: ['forged.example.test'] },
+      // 192.0.2.3's hostname can't be checked
+      '3.2.0.192.in-addr.arpa': { PTR: ['broken.example.test'] },
+      'broken.example.test': { rcode: 'SERVFAIL' },
+      // 192.0.2.4's PTR query fails
+      '4.2.0.192.in-addr.arpa': { rcode: 'SERVFAIL' },
+      // 2001:db8::1 resolves back, spelled differently
+      '1.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.8.b.d.0.1.0.0.2.ip6.arpa': { PTR: ['v6.example.test'] },
+      'v6.example.test': { AAAA: ['2001:db8:0:0:0:0:0:1'] }
+    });
+  });
+
+  after(done => {
+    server.close(done);
+  });
+
+  it('confirms hostnames that resolve back to the IP', async () => {
+    const result = await service.do(task('192.0.2.1'));
+
+    assert.equal(result.status, 'done');
+    assert.deepEqual(result.resultData.data, {
+      hostnames: [
+        { hostname: 'other.example.test', forwardConfirmed: false, addresses: ['192.0.2.99'] },
+        { hostname: 'host.example.test', forwardConfirmed: true, addresses: ['192.0.2.1'] }
+      ],
+      fcrdns: true
+    });
+  });
+
+  it("doesn't confirm hostnames that don't resolve", async () => {
+    const result = await service.do(task('192.0.2.2'));
+
+    assert.equal(result.status, 'done');
+    assert.deepEqual(result.resultData.data, {
+      hostnames: [{ hostname: 'forged.example.test', forwardConfirmed: false, addresses: [] }],
+      fcrdns: false
+    });
+  });
+
+  it('finds no hostnames for IPs without PTR records', async () => {
+    const result = await service.do(task('192.0.2.5'));
+
+    assert.equal(result.status, 'done');
+    assert.deepEqual(result.resultData.data, { hostnames: [], fcrdns: false });
+  });
+
+  it('looks up IPv4-mapped IPv6 addresses as IPv4', async () => {
+    const result = await service.do(task('::ffff:192.0.2.1'));
+    const { data = {} } = result.resultData;
+
+    assert.equal(result.status, 'done');
+    assert.equal(data.fcrdns, true);
+  });
+
+  it('compares IPv6 addresses in canonical form', async () => {
+    const result = await service.do(task('2001:0db8::0001'));
+
+    assert.equal(result.status, 'done');
+    assert.deepEqual(result.resultData.data, {
+      hostnames: [{ hostname: 'v6.example.test', forwardConfirmed: true, addresses: ['2001:db8::1'] }],
+      fcrdns: true
+    });
+  });
+
+  it('fails when checking hostnames fails upstream, and none are confirmed', async () => {
+    const result = await service.do(task('192.0.2.3'));
+    const { issues = [], data = {} } = result.resultData;
+
+    assert.equal(result.status, 'fail');
+    assert.equal(issues.length, 1);
+    assert.ok(issues[0].startsWith('Forward query for broken.example.test failed with SERVFAIL'));
+    assert.equal(data.fcrdns, null);
+    assert.equal(data.hostnames[0].forwardConfirmed, null);
+  });
+
+  it('fails when the PTR query fails upstream', async () => {
+    const result = await service.do(task('192.0.2.4'));
+    const { issues = [] } = result.resultData;
+
+    assert.equal(result.status, 'fail');
+    assert.ok(issues[0].startsWith('PTR query failed with SERVFAIL'));
+    assert.equal(result.resultData.data, undefined);
+  });
+
+  it('rejects invalid IPs', async () => {
+    const result = await service.do(task('192.0.2.256'));
+
+    assert.equal(result.status, 'reject');
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * A Service that resolves an IP's PTR hostnames, and checks they resolve back to it
+ */
+import { Service, Task, TaskResult, TaskService } from '../taskServices';
+import CancellationSignal from '../CancellationSignal';
+import {
+  cancelOnSignal,
+  classifyDNSError,
+  createResolver,
+  DNSErrorCode,
+  reverseLookupName,
+  withTimeout
+} from '../dnsResolver';
+import { parseIP } from '../ipAddress';
+
+// Comma-separated DNS servers for this service only, e.g. a stand-in serving fixture PTR records.
+// Falls back to DNS_RESOLVER_SERVERS, then the system's.
+const REVERSE_DNS_RESOLVER_SERVERS = process.env.REVERSE_DNS_RESOLVER_SERVERS || undefined;
+
+// Most PTR hostnames to forward-confirm; the rest are returned unchecked
+const REVERSE_DNS_MAX_HOSTNAMES = Number(process.env.REVERSE_DNS_MAX_HOSTNAMES) || 10;
+
+/**
+ * Error codes indicating a problem with the upstream DNS server, rather than the records
+ */
+const UPSTREAM_ERROR_CODES: DNSErrorCode[] = ['SERVFAIL', 'REFUSED', 'TIMEOUT', 'ERROR'];
+
+/**
+ * A PTR hostname, and the outcome of resolving it forward
+ */
+interface ReverseHostname {
+  hostname: string;
+  // Whether the hostname resolves to the IP looked up; null if not checked, or the check failed
+  forwardConfirmed: boolean | null;
+  // Addresses the hostname resolves to, in the IP's family
+  addresses: string[];
+  error?: { code: DNSErrorCode; message: string };
+}
+
+/**
+ * Reverse DNS Task Service
+ *
+ * Forward-confirmed reverse DNS (FCrDNS) holds when any PTR hostname has an A (or AAAA, for IPv6)
+ * record for the original IP. Results are:
+ *   - 'done' when FCrDNS is known, including when the IP has no PTR records
+ *   - 'fail' when the PTR query failed upstream, or no hostname was confirmed and checking some
+ *     failed upstream, with any hostnames that were resolved
+ */
+@Service({
+  name: 'reverse-dns',
+  description: 'Resolve PTR hostnames for an IP address, and whether each resolves back to it (FCrDNS)',
+  returnType: {
+    hostnames: 'array',
+    fcrdns: 'boolean | null'
+  },
+  addressTypes: ['ip'],
+  cacheTTL: 3600,
+  timeoutMs: 8000,
+  requiredData: {
+    ip: 'string'
+  }
+})
+export default class ReverseDNSService extends TaskService {
+  /**
+   * Process a given task
+   */
+  protected processTask = async (task: Task, signal: CancellationSignal): Promise<TaskResult> => {
+    const { data, id, requestId } = task;
+    const { ip } = data;
+
+    const parsed = parseIP(ip);
+    if (!parsed) {
+      return new TaskResult(id, requestId, 'reject', { issues: [`'${ip}' is not a valid IP address`] });
+    }
+
+    // IPv4-mapped IPv6 addresses have their IPv4 address's PTR records
+    const address = parsed.mappedIPv4 || parsed.canonical.split('%')[0];
+    const bytes = parsed.mappedIPv4 ? parsed.bytes.slice(12) : parsed.bytes;
+
+    const resolver = createResolver(REVERSE_DNS_RESOLVER_SERVERS);
+    cancelOnSignal(resolver, signal);
+
+    let ptrHostnames: string[];
+    try {
+      // Query PTR records directly; `resolver.reverse()` reports upstream failures as NXDOMAIN
+      ptrHostnames = await withTimeout(resolver.resolvePtr(reverseLookupName(bytes)));
+    } catch (e) {
+      const code = classifyDNSError(e);
+
+      if (UPSTREAM_ERROR_CODES.includes(code)) {
+        if (resolver.cancel) {
+          resolver.cancel();
+        }
+        return new TaskResult(id, requestId, 'fail', { issues: [`PTR query failed with ${code}: ${e.message}`] });
+      }
+
+      // No PTR records (NXDOMAIN or NODATA)
+      ptrHostnames = [];
+    }
+
+    const hostnames: ReverseHostname[] = await Promise.all(
+      ptrHostnames.map(
+        async (hostname, i): Promise<ReverseHostname> => {
+          if (i >= REVERSE_DNS_MAX_HOSTNAMES) {
+            return { hostname, forwardConfirmed: null, addresses: [] };
+          }
+
+          try {
+            const addresses = await withTimeout(
+              bytes.length === 4 ? resolver.resolve4(hostname) : resolver.resolve6(hostname)
+            );
+
+            // Compare canonical forms, as IPv6 has many spellings
+            const canonical = addresses.map(item => {
+              const forward = parseIP(item);
+              return forward ? forward.canonical : item;
+            });
+
+            return { hostname, forwardConfirmed: canonical.includes(address), addresses: canonical };
+          } catch (e) {
+            const code = classifyDNSError(e);
+
+            if (UPSTREAM_ERROR_CODES.includes(code)) {
+              return { hostname, forwardConfirmed: null, addresses: [], error: { code, message: e.message } };
+            }
+
+            // The hostname doesn't resolve, so can't confirm
+            return { hostname, forwardConfirmed: false, addresses: [] };
+          }
+        }
+      )
+    );
+
+    // Abandon any queries still outstanding after timing out
+    if (resolver.cancel) {
+      resolver.cancel();
+    }
+
+    const fcrdns = hostnames.some(item => item.forwardConfirmed);
+    const upstreamIssues: string[] = [];
+    hostnames.forEach(({ hostname, error }) => {
+      if (error) {
+        upstreamIssues.push(`Forward query for ${hostname} failed with ${error.code}: ${error.message}`);
+      }
+    });
+
+    if (!fcrdns && upstreamIssues.length) {
+      return new TaskResult(id, requestId, 'fail', { issues: upstreamIssues, data: { hostnames, fcrdns: null } });
+    }
+
+    return new TaskResult(id, requestId, 'done', { data: { hostnames, fcrdns } });
+  };
+}
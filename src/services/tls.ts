@@ -0,0 +1,237 @@
+/**
+ * A Service that inspects the TLS certificate chain served on an IP or domain
+ */
+import { checkServerIdentity, connect, DetailedPeerCertificate, TLSSocket } from 'tls';
+
+import { Service, Task, TaskResult, TaskService } from '../taskServices';
+import CancellationSignal from '../CancellationSignal';
+import { parseIP } from '../ipAddress';
+import { describeNonGlobalAddress, lookupGlobalAddress, NonGlobalAddressError } from '../ipClassification';
+import { resolvedIPDependency } from './dns';
+
+// Port to connect to when a request doesn't specify `port`
+const TLS_DEFAULT_PORT = Number(process.env.TLS_DEFAULT_PORT) || 443;
+// Milliseconds to wait for the TLS handshake to complete
+const TLS_TIMEOUT_MS = Number(process.env.TLS_TIMEOUT_MS) || 5000;
+// Set to 'true' to allow connecting to private, loopback, and other non-global addresses, e.g. on internal deployments
+const TLS_ALLOW_PRIVATE_TARGETS = process.env.TLS_ALLOW_PRIVATE_TARGETS === 'true';
+
+const MS_PER_DAY = 86400000;
+
+/**
+ * Certificate fields present at runtime but missing from @types/node
+ */
+type InspectedCertificate = DetailedPeerCertificate & {
+  bits?: number;
+  asn1Curve?: string;
+  nistCurve?: string;
+};
+
+/**
+ * A certificate in the chain, summarized
+ */
+interface CertificateSummary {
+  subject: { [x: string]: string };
+  issuer: { [x: string]: string };
+  subjectAltNames: string[];
+  validFrom: string;
+  validTo: string;
+  daysUntilExpiry: number;
+  expired: boolean;
+  selfSigned: boolean;
+  serialNumber: string;
+  fingerprint256: string;
+  key: { type: 'RSA' | 'EC' | 'unknown'; bits: number | null; curve: string | null };
+}
+
+/**
+ * Summarize a peer certificate
+ */
+const summarizeCertificate = (cert: InspectedCertificate, now: number): CertificateSummary => {
+  const validTo = new Date(cert.valid_to);
+  const curve = cert.nistCurve || cert.asn1Curve || null;
+
+  return {
+    subject: { ...cert.subject },
+    issuer: { ...cert.issuer },
+    // e.g. `DNS:example.com, IP Address:192.0.2.1`
+    subjectAltNames: cert.subjectaltname ? cert.subjectaltname.split(', ') : [],
+    validFrom: new Date(cert.valid_from).toISOString(),
+    validTo: validTo.toISOString(),
+    daysUntilExpiry: Math.floor((validTo.getTime() - now) / MS_PER_DAY),
+    expired: validTo.getTime() < now,
+    // Roots are their own issuers
+    selfSigned: !!cert.issuerCertificate && cert.issuerCertificate.raw.equals(cert.raw),
+    serialNumber: cert.serialNumber,
+    fingerprint256: cert.fingerprint256,
+    key: {
+      type: cert.modulus ? 'RSA' : curve ? 'EC' : 'unknown',
+      bits: cert.bits || null,
+      curve
+    }
+  };
+};
+
+/**
+ * Get the chain the server sent, leaf first
+ *
+ * Each certificate links to its issuer, and a root (or the last certificate the server sent, if
+ * Node couldn't find its issuer) links to itself.
+ */
+const getChain = (socket: TLSSocket): InspectedCertificate[] => {
+  const chain: InspectedCertificate[] = [];
+  let cert = socket.getPeerCertificate(true) as InspectedCertificate;
+
+  while (cert && cert.raw && !chain.some(item => item.raw.equals(cert.raw))) {
+    chain.push(cert);
+    cert = cert.issuerCertificate;
+  }
+
+  return chain;
+};
+
+/**
+ * TLS Certificate Inspection Task Service
+ *
+ * Handshakes without rejecting untrusted certificates, so their details can still be reported.
+ * `authorized` is whether the chain validates against Node's trust store (plus any certificates in
+ * `NODE_EXTRA_CA_CERTS`) and matches the domain, or the IP if no domain was given.
+ *
+ * Takes either `ip` or `domain` data, and an optional `port`, defaulting to that of an https URL
+ * address. Domains are connected to at the first address the dns service resolves, with the domain
+ * as SNI hostname.
+ *
+ * Only global addresses are connected to, so requests can't reach internal hosts, unless
+ * TLS_ALLOW_PRIVATE_TARGETS is set. That includes the address the dns service resolved, and, if it
+ * resolved none, every address the domain resolves to when connecting.
+ */
+@Service({
+  name: 'tls',
+  description:
+    'Inspect the TLS certificate chain served on port 443 (or `data.port`, or the port of an https URL): subject, SANs, issuer, validity, key type, and whether it validates',
+  returnType: {
+    address: 'string',
+    port: 'number',
+    servername: 'string | null',
+    protocol: 'string | null',
+    cipher: 'string | null',
+    authorized: 'boolean',
+    authorizationError: 'string | null',
+    hostnameMatches: 'boolean',
+    daysUntilExpiry: 'number',
+    chain: 'array'
+  },
+  addressTypes: ['ip', 'domain', 'url'],
+  cacheTTL: 3600,
+  timeoutMs: 8000,
+  dependsOn: [resolvedIPDependency],
+  requiredData: {
+    port: { type: 'integer', optional: true, description: 'Port to connect to', minimum: 1, maximum: 65535 }
+  }
+})
+export default class TLSService extends TaskService {
+  /**
+   * Process a given task
+   */
+  protected processTask = (task: Task, signal: CancellationSignal): Promise<TaskResult> => {
+    const { data, id, requestId } = task;
+    const reject = (issue: string) => Promise.resolve(new TaskResult(id, requestId, 'reject', { issues: [issue] }));
+
+    // An https URL's port applies when not given explicitly
+    const urlPort = data.url && data.url.scheme === 'https' ? data.url.port : null;
+    const port = data.port === undefined ? urlPort || TLS_DEFAULT_PORT : data.port;
+    if (!Number.isInteger(port) || port < 1 || port > 65535) {
+      return reject('`port` must be an integer from 1 to 65535');
+    }
+
+    let host: string;
+    // SNI hostname; IPs aren't allowed as SNI
+    let servername: string | undefined;
+
+    if (data.ip) {
+      const parsed = parseIP(data.ip);
+      if (!parsed) {
+        return reject(`'${data.ip}' is not a valid IP address`);
+      }
+      host = parsed.mappedIPv4 || parsed.canonical;
+      // Domains resolved upstream are still the name the certificate should match
+      servername = data.domain ? String(data.domain).replace(/\.$/, '') : undefined;
+
+      const nonGlobal = TLS_ALLOW_PRIVATE_TARGETS ? null : describeNonGlobalAddress([parsed.canonical], servername);
+      if (nonGlobal) {
+        return reject(`${nonGlobal}; only globally reachable addresses may be inspected`);
+      }
+    } else if (data.domain) {
+      host = String(data.domain).replace(/\.$/, '');
+      servername = host;
+    } else {
+      return reject('Task missing `ip` or `domain` data required by tls');
+    }
+
+    return new Promise(resolve => {
+      const socket = connect({
+        host,
+        port,
+        servername,
+        rejectUnauthorized: false,
+        // Domains are only resolved when the dns service didn't resolve them
+        lookup: TLS_ALLOW_PRIVATE_TARGETS ? undefined : lookupGlobalAddress
+      });
+
+      const fail = (issue: string, status: 'fail' | 'reject' = 'fail') => {
+        socket.destroy();
+        resolve(new TaskResult(id, requestId, status, { issues: [issue] }));
+      };
+
+      socket.setTimeout(TLS_TIMEOUT_MS, () => fail(`TLS handshake with ${host}:${port} timed out`));
+      socket.on('error', error => {
+        if (error instanceof NonGlobalAddressError) {
+          fail(`${error.message}; only globally reachable addresses may be inspected`, 'reject');
+        } else {
+          fail(`TLS connection to ${host}:${port} failed: ${error.message}`);
+        }
+      });
+      const stopCancelling = signal.onCancel(reason => fail(`TLS connection to ${host}:${port} cancelled: ${reason}`));
+
+      socket.once('secureConnect', () => {
+        socket.setTimeout(0);
+        stopCancelling();
+
+        const now = Date.now();
+        const chain = getChain(socket);
+        const cipher = socket.getCipher();
+        const protocol = socket.getProtocol();
+        const address = socket.remoteAddress || host;
+        const { authorized } = socket;
+        const authorizationError = socket.authorizationError ? String(socket.authorizationError) : null;
+
+        socket.end();
+
+        if (!chain.length) {
+          resolve(new TaskResult(id, requestId, 'fail', { issues: [`${host}:${port} sent no certificate`] }));
+          return;
+        }
+
+        const summaries = chain.map(cert => summarizeCertificate(cert, now));
+
+        resolve(
+          new TaskResult(id, requestId, 'done', {
+            data: {
+              address,
+              port,
+              servername: servername || null,
+              protocol,
+              cipher: cipher ? cipher.name : null,
+              authorized,
+              authorizationError,
+              // Whether the leaf certificate covers the name connected to, regardless of trust
+              hostnameMatches: !checkServerIdentity(servername || host, chain[0]),
+              daysUntilExpiry: summaries[0].daysUntilExpiry,
+              chain: summaries
+            }
+          })
+        );
+      });
+    });
+  };
+}
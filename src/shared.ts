@@ -9,6 +9,7 @@ import { parse } from 'url';
 
 import { QueueEvents } from 'bullmq';
 import { Debugger } from 'debug';
+import IORedis, { Redis } from 'ioredis';
 
 import { TaskResult } from './taskServices';
 
@@ -28,6 +29,13 @@ export const QUEUE = {
   NAME: process.env.QUEUE_NAME || 'micro-micro'
 };
 
+/**
+ * Milliseconds the server waits for a request's tasks to finish before timing the request out
+ *
+ * Shared with workers, so services doing slow work (e.g. network probes) can fit inside it.
+ */
+export const REQUEST_TIMEOUT_MS = Number(process.env.REQUEST_TIMEOUT_MS) || 10000;
+
 /**
  * Instantiated QueueEvents singleton reference
  *
@@ -48,6 +56,37 @@ export const getQueueEvents = (): QueueEvents => {
   return queueEventsInstance;
 };
 
+/**
+ * Instantiated general-purpose Redis client singleton reference
+ *
+ * For our own (non-queue) keys, e.g. request batch results. Unlike QueueEvents, this connection is
+ * non-blocking, so each process can share one for everything.
+ */
+let redisClientInstance: Redis;
+
+/**
+ * Return the general-purpose Redis client singleton, instantiating if needed
+ */
+export const getRedisClient = (): Redis => {
+  if (!redisClientInstance) {
+    redisClientInstance = new IORedis(QUEUE.CONFIG.connection);
+  }
+
+  return redisClientInstance;
+};
+
+/**
+ * Build a namespaced Redis key for our own (non-queue) data
+ *
+ * e.g. `redisKey('requests', requestId)` => 'micro-micro:requests:<requestId>'
+ */
+export const redisKey = (...parts: string[]): string => [QUEUE.NAME, ...parts].join(':');
+
+/**
+ * Redis pub/sub channel the server publishes IDs of abandoned active jobs to, for queue workers to cancel
+ */
+export const JOB_CANCEL_CHANNEL = redisKey('cancel-job');
+
 /*
   QueueEvent event types
 
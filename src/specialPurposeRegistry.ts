@@ -0,0 +1,235 @@
+/**
+ * IANA special-purpose address registries, bundled for offline classification
+ *
+ * Sources:
+ *   - https://www.iana.org/assignments/iana-ipv4-special-registry/
+ *   - https://www.iana.org/assignments/iana-ipv6-special-registry/
+ *   - Multicast ranges from RFC 5771 (IPv4) and RFC 4291 (IPv6), which have their own registries
+ *
+ * To update, edit entries here from the registries' current CSVs. `globallyReachable` is the
+ * registries' "Globally Reachable" column, with "N/A" as null.
+ */
+
+/**
+ * Address categories, from most to least specific use
+ */
+export type AddressCategory =
+  | 'private'
+  | 'loopback'
+  | 'link-local'
+  | 'cgnat'
+  | 'multicast'
+  | 'documentation'
+  | 'reserved'
+  | 'global';
+
+export interface SpecialPurposeEntry {
+  prefix: string;
+  name: string;
+  rfc: string;
+  category: AddressCategory;
+  globallyReachable: boolean | null;
+}
+
+export const SPECIAL_PURPOSE_REGISTRY: SpecialPurposeEntry[] = [
+  // IPv4
+  { prefix: '0.0.0.0/8', name: 'This network', rfc: 'RFC 791', category: 'reserved', globallyReachable: false },
+  {
+    prefix: '0.0.0.0/32',
+    name: 'This host on this network',
+    rfc: 'RFC 1122',
+    category: 'reserved',
+    globallyReachable: false
+  },
+  { prefix: '10.0.0.0/8', name: 'Private-Use', rfc: 'RFC 1918', category: 'private', globallyReachable: false },
+  {
+    prefix: '100.64.0.0/10',
+    name: 'Shared Address Space',
+    rfc: 'RFC 6598',
+    category: 'cgnat',
+    globallyReachable: false
+  },
+  { prefix: '127.0.0.0/8', name: 'Loopback', rfc: 'RFC 1122', category: 'loopback', globallyReachable: false },
+  { prefix: '169.254.0.0/16', name: 'Link Local', rfc: 'RFC 3927', category: 'link-local', globallyReachable: false },
+  { prefix: '172.16.0.0/12', name: 'Private-Use', rfc: 'RFC 1918', category: 'private', globallyReachable: false },
+  {
+    prefix: '192.0.0.0/24',
+    name: 'IETF Protocol Assignments',
+    rfc: 'RFC 6890',
+    category: 'reserved',
+    globallyReachable: false
+  },
+  {
+    prefix: '192.0.0.0/29',
+    name: 'IPv4 Service Continuity Prefix',
+    rfc: 'RFC 7335',
+    category: 'reserved',
+    globallyReachable: false
+  },
+  {
+    prefix: '192.0.0.8/32',
+    name: 'IPv4 dummy address',
+    rfc: 'RFC 7600',
+    category: 'reserved',
+    globallyReachable: false
+  },
+  {
+    prefix: '192.0.0.9/32',
+    name: 'Port Control Protocol Anycast',
+    rfc: 'RFC 7723',
+    category: 'global',
+    globallyReachable: true
+  },
+  {
+    prefix: '192.0.0.10/32',
+    name: 'Traversal Using Relays around NAT Anycast',
+    rfc: 'RFC 8155',
+    category: 'global',
+    globallyReachable: true
+  },
+  {
+    prefix: '192.0.0.170/32',
+    name: 'NAT64/DNS64 Discovery',
+    rfc: 'RFC 8880',
+    category: 'reserved',
+    globallyReachable: false
+  },
+  {
+    prefix: '192.0.0.171/32',
+    name: 'NAT64/DNS64 Discovery',
+    rfc: 'RFC 8880',
+    category: 'reserved',
+    globallyReachable: false
+  },
+  {
+    prefix: '192.0.2.0/24',
+    name: 'Documentation (TEST-NET-1)',
+    rfc: 'RFC 5737',
+    category: 'documentation',
+    globallyReachable: false
+  },
+  { prefix: '192.31.196.0/24', name: 'AS112-v4', rfc: 'RFC 7535', category: 'global', globallyReachable: true },
+  { prefix: '192.52.193.0/24', name: 'AMT', rfc: 'RFC 7450', category: 'global', globallyReachable: true },
+  {
+    prefix: '192.88.99.0/24',
+    name: 'Deprecated (6to4 Relay Anycast)',
+    rfc: 'RFC 7526',
+    category: 'reserved',
+    globallyReachable: null
+  },
+  { prefix: '192.168.0.0/16', name: 'Private-Use', rfc: 'RFC 1918', category: 'private', globallyReachable: false },
+  {
+    prefix: '192.175.48.0/24',
+    name: 'Direct Delegation AS112 Service',
+    rfc: 'RFC 7534',
+    category: 'global',
+    globallyReachable: true
+  },
+  { prefix: '198.18.0.0/15', name: 'Benchmarking', rfc: 'RFC 2544', category: 'reserved', globallyReachable: false },
+  {
+    prefix: '198.51.100.0/24',
+    name: 'Documentation (TEST-NET-2)',
+    rfc: 'RFC 5737',
+    category: 'documentation',
+    globallyReachable: false
+  },
+  {
+    prefix: '203.0.113.0/24',
+    name: 'Documentation (TEST-NET-3)',
+    rfc: 'RFC 5737',
+    category: 'documentation',
+    globallyReachable: false
+  },
+  { prefix: '224.0.0.0/4', name: 'Multicast', rfc: 'RFC 5771', category: 'multicast', globallyReachable: null },
+  { prefix: '240.0.0.0/4', name: 'Reserved', rfc: 'RFC 1112', category: 'reserved', globallyReachable: false },
+  {
+    prefix: '255.255.255.255/32',
+    name: 'Limited Broadcast',
+    rfc: 'RFC 919',
+    category: 'reserved',
+    globallyReachable: false
+  },
+
+  // IPv6
+  { prefix: '::1/128', name: 'Loopback Address', rfc: 'RFC 4291', category: 'loopback', globallyReachable: false },
+  { prefix: '::/128', name: 'Unspecified Address', rfc: 'RFC 4291', category: 'reserved', globallyReachable: false },
+  {
+    prefix: '::ffff:0:0/96',
+    name: 'IPv4-mapped Address',
+    rfc: 'RFC 4291',
+    category: 'reserved',
+    globallyReachable: false
+  },
+  { prefix: '64:ff9b::/96', name: 'IPv4-IPv6 Translat.', rfc: 'RFC 6052', category: 'global', globallyReachable: true },
+  {
+    prefix: '64:ff9b:1::/48',
+    name: 'IPv4-IPv6 Translat.',
+    rfc: 'RFC 8215',
+    category: 'reserved',
+    globallyReachable: false
+  },
+  {
+    prefix: '100::/64',
+    name: 'Discard-Only Address Block',
+    rfc: 'RFC 6666',
+    category: 'reserved',
+    globallyReachable: false
+  },
+  {
+    prefix: '2001::/23',
+    name: 'IETF Protocol Assignments',
+    rfc: 'RFC 2928',
+    category: 'reserved',
+    globallyReachable: false
+  },
+  { prefix: '2001::/32', name: 'TEREDO', rfc: 'RFC 4380', category: 'global', globallyReachable: null },
+  {
+    prefix: '2001:1::1/128',
+    name: 'Port Control Protocol Anycast',
+    rfc: 'RFC 7723',
+    category: 'global',
+    globallyReachable: true
+  },
+  {
+    prefix: '2001:1::2/128',
+    name: 'Traversal Using Relays around NAT Anycast',
+    rfc: 'RFC 8155',
+    category: 'global',
+    globallyReachable: true
+  },
+  { prefix: '2001:2::/48', name: 'Benchmarking', rfc: 'RFC 5180', category: 'reserved', globallyReachable: false },
+  { prefix: '2001:3::/32', name: 'AMT', rfc: 'RFC 7450', category: 'global', globallyReachable: true },
+  { prefix: '2001:4:112::/48', name: 'AS112-v6', rfc: 'RFC 7535', category: 'global', globallyReachable: true },
+  {
+    prefix: '2001:10::/28',
+    name: 'Deprecated (previously ORCHID)',
+    rfc: 'RFC 4843',
+    category: 'reserved',
+    globallyReachable: null
+  },
+  { prefix: '2001:20::/28', name: 'ORCHIDv2', rfc: 'RFC 7343', category: 'global', globallyReachable: true },
+  {
+    prefix: '2001:db8::/32',
+    name: 'Documentation',
+    rfc: 'RFC 3849',
+    category: 'documentation',
+    globallyReachable: false
+  },
+  { prefix: '2002::/16', name: '6to4', rfc: 'RFC 3056', category: 'global', globallyReachable: null },
+  {
+    prefix: '2620:4f:8000::/48',
+    name: 'Direct Delegation AS112 Service',
+    rfc: 'RFC 7534',
+    category: 'global',
+    globallyReachable: true
+  },
+  { prefix: 'fc00::/7', name: 'Unique-Local', rfc: 'RFC 4193', category: 'private', globallyReachable: false },
+  {
+    prefix: 'fe80::/10',
+    name: 'Link-Local Unicast',
+    rfc: 'RFC 4291',
+    category: 'link-local',
+    globallyReachable: false
+  },
+  { prefix: 'ff00::/8', name: 'Multicast', rfc: 'RFC 4291', category: 'multicast', globallyReachable: null }
+];
@@ -0,0 +1,97 @@
+/**
+ * Services' retry policies (see `retry` in @Service config), mapped onto BullMQ
+ *
+ * The server queues each task with `attempts` and `backoff` job options per its service's policy.
+ * Queue workers register custom backoff strategies for policies with jitter, which BullMQ's own
+ * strategies lack, and decide which failures are worth retrying.
+ */
+import { AdvancedOptions, JobsOptions } from 'bullmq';
+
+import { TaskCancelledError } from './CancellationSignal';
+import { PermanentTaskError, registeredServices, TaskServiceRetryPolicy } from './taskServices';
+
+/**
+ * Name of the custom backoff strategy for a service's tasks
+ */
+const backoffStrategyName = (serviceName: string): string => `jitter:${serviceName}`;
+
+/**
+ * Get a service's retry policy, if any
+ */
+const getRetryPolicy = (serviceName: string): TaskServiceRetryPolicy | undefined => {
+  const registeredService = registeredServices.find(item => item.name === serviceName);
+
+  return registeredService && registeredService.retry;
+};
+
+/**
+ * Get milliseconds to wait before retrying a task, after a number of attempts
+ *
+ * Same as BullMQ's 'fixed' and 'exponential' strategies, less up to `jitter` of the delay at random.
+ */
+export const getBackoffDelay = (
+  backoff: NonNullable<TaskServiceRetryPolicy['backoff']>,
+  attemptsMade: number
+): number => {
+  const { type, delay, jitter = 0 } = backoff;
+  const baseDelay = type === 'exponential' ? (Math.pow(2, attemptsMade) - 1) * delay : delay;
+
+  return Math.round(baseDelay * (1 - jitter * Math.random()));
+};
+
+/**
+ * Get BullMQ job options for retrying a service's tasks, per its retry policy
+ */
+export const getRetryJobOptions = (serviceName: string): Pick<JobsOptions, 'attempts' | 'backoff'> => {
+  const policy = getRetryPolicy(serviceName);
+
+  if (!policy) {
+    return {};
+  }
+
+  const { attempts, backoff } = policy;
+
+  if (!backoff) {
+    return { attempts };
+  }
+
+  return {
+    attempts,
+    backoff: backoff.jitter ? { type: backoffStrategyName(serviceName) } : { type: backoff.type, delay: backoff.delay }
+  };
+};
+
+/**
+ * Get custom BullMQ backoff strategies of services whose retry policies have jitter, for queue workers
+ */
+export const getBackoffStrategies = (): AdvancedOptions['backoffStrategies'] => {
+  const strategies: { [x: string]: (attemptsMade: number) => number } = {};
+
+  registeredServices.forEach(({ name, retry }) => {
+    if (retry && retry.backoff && retry.backoff.jitter) {
+      const { backoff } = retry;
+      strategies[backoffStrategyName(name)] = attemptsMade => getBackoffDelay(backoff, attemptsMade);
+    }
+  });
+
+  return strategies;
+};
+
+/**
+ * Whether an error thrown processing a service's task is worth retrying, per its retry policy
+ */
+export const isRetryableError = (serviceName: string, error: any): boolean => {
+  const policy = getRetryPolicy(serviceName);
+
+  if (!policy) {
+    return false;
+  }
+
+  const { retryable, permanent = [] } = policy;
+
+  if ([PermanentTaskError, TaskCancelledError, ...permanent].some(ErrorClass => error instanceof ErrorClass)) {
+    return false;
+  }
+
+  return !retryable || retryable.some(ErrorClass => error instanceof ErrorClass);
+};
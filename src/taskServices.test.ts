@@ -0,0 +1,115 @@
+import 'reflect-metadata';
+import { strict as assert } from 'assert';
+
+import { parseAddress } from './addressTypes';
+import './addresses';
+import './services';
+import {
+  findDependencyCycle,
+  getServiceDependencies,
+  hasRequiredData,
+  Service,
+  Task,
+  TaskResult,
+  TaskService,
+  TaskServiceDependency
+} from './taskServices';
+
+const dependency = (service: string, provides: string[] = []): TaskServiceDependency => ({
+  service,
+  provides,
+  data: () => null
+});
+
+/**
+ * Register a do-nothing service, throwing if the decorator does
+ */
+const registerService = (
+  name: string,
+  dependsOn?: TaskServiceDependency[],
+  requiredData?: { [x: string]: 'string' }
+): void => {
+  @Service({ name, description: `Test service ${name}`, returnType: 'string', dependsOn, requiredData })
+  class TestService extends TaskService {
+    protected processTask = (task: Task): Promise<TaskResult> =>
+      Promise.resolve(new TaskResult(task.id, task.requestId, 'done', { data: name }));
+  }
+
+  new TestService();
+};
+
+describe('taskServices', () => {
+  describe('findDependencyCycle', () => {
+    // cycle-a -> cycle-b -> cycle-c, with cycle-c not yet registered
+    before(() => {
+      registerService('cycle-b', [dependency('cycle-c')]);
+      registerService('cycle-a', [dependency('cycle-b')]);
+    });
+
+    it('finds services depending on themselves', () => {
+      assert.deepEqual(findDependencyCycle(['cycle-self'], [dependency('cycle-self')]), ['cycle-self', 'cycle-self']);
+    });
+
+    it('finds cycles through registered services', () => {
+      assert.deepEqual(findDependencyCycle(['cycle-c'], [dependency('cycle-a')]), [
+        'cycle-c',
+        'cycle-a',
+        'cycle-b',
+        'cycle-c'
+      ]);
+    });
+
+    it('finds no cycle in acyclic dependencies, including on unregistered services', () => {
+      assert.equal(findDependencyCycle(['cycle-d'], [dependency('cycle-a'), dependency('unregistered')]), null);
+    });
+
+    it('keeps @Service from registering services forming a cycle', () => {
+      assert.throws(
+        () => registerService('cycle-c', [dependency('cycle-a')]),
+        /passed dependencies forming a cycle: cycle-c -> cycle-a -> cycle-b -> cycle-c/
+      );
+    });
+  });
+
+  describe('getServiceDependencies', () => {
+    const addressData = (address: string) => (parseAddress(address) || { data: {} }).data;
+
+    // upstream-zone provides `ip`, given a `zone`; downstream-zone needs an `ip`
+    before(() => {
+      registerService('upstream-zone', [], { zone: 'string' });
+      registerService('downstream-zone', [dependency('upstream-zone', ['ip'])], { ip: 'string' });
+    });
+
+    it('depends on dns for the IP of a URL with a domain host', () => {
+      const data = addressData('https://example.com/');
+
+      assert.deepEqual(
+        getServiceDependencies('geoip', 'url', data).map(({ service }) => service),
+        ['dns']
+      );
+      assert.deepEqual(
+        getServiceDependencies('tls', 'url', data).map(({ service }) => service),
+        ['dns']
+      );
+    });
+
+    it("doesn't depend on dns for the IP of a URL with an IP host", () => {
+      const data = addressData('http://1.2.3.4/');
+
+      assert.deepEqual(getServiceDependencies('geoip', 'url', data), []);
+      assert.deepEqual(getServiceDependencies('tls', 'url', data), []);
+      assert.equal(hasRequiredData('geoip', 'url', data), true);
+    });
+
+    it("skips dependencies whose upstream doesn't have the data it requires", () => {
+      assert.deepEqual(
+        getServiceDependencies('downstream-zone', 'domain', { domain: 'example.com', zone: 'a' }).map(
+          ({ service }) => service
+        ),
+        ['upstream-zone']
+      );
+      assert.deepEqual(getServiceDependencies('downstream-zone', 'domain', { domain: 'example.com' }), []);
+      assert.equal(hasRequiredData('downstream-zone', 'domain', { domain: 'example.com' }), false);
+    });
+  });
+});
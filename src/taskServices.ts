@@ -7,6 +7,9 @@
  */
 const { defineMetadata, getMetadata, hasMetadata } = Reflect;
 
+import { DEFAULT_ADDRESS_TYPES } from './addressTypes';
+import CancellationSignal from './CancellationSignal';
+import { DataSchemaMap, findDataSchemaIssues, isOptionalDataSchema, validateData } from './dataSchema';
 import Debug from './debug';
 
 const debug = Debug.extend('service');
@@ -19,11 +22,17 @@ export interface Task {
   id: TaskId;
   requestId: RequestId;
   serviceName: string;
+  // Type of the address the task was requested for, e.g. 'ip' or 'url'
+  addressType?: string;
+  // Tasks whose results this task's data needs, per its service's `dependsOn`, if any
+  dependsOn?: TaskId[];
   data: { [x: string]: any };
 }
 
-export const TaskResultStatuses = ['done', 'fail', 'reject'];
-export type TaskResultStatus = 'done' | 'fail' | 'reject';
+// 'skip' and 'timeout' are only set by the server, for tasks whose upstream tasks didn't finish (see
+// dependsOn), and tasks that didn't finish in time
+export const TaskResultStatuses = ['done', 'fail', 'reject', 'skip', 'timeout'];
+export type TaskResultStatus = 'done' | 'fail' | 'reject' | 'skip' | 'timeout';
 
 /**
  * Object with data resulting from processing a Task
@@ -39,6 +48,8 @@ export class TaskResult {
     // Service-specific results from task processing, required when finished
     data?: { [x: string]: any };
   };
+  // Attempts the queue worker made at the task, per its service's retry policy, if it was queued
+  readonly attempts?: number;
 
   constructor(id: TaskId, requestId: RequestId, status: TaskResultStatus, result?: { [x: string]: any }) {
     // @TODO validate based on status
@@ -53,12 +64,59 @@ export class TaskResult {
   }
 }
 
+/**
+ * An error a task fails with however often it's retried, e.g. invalid data from upstream
+ */
+export class PermanentTaskError extends Error {}
+
+type ErrorClass = new (...args: any[]) => Error;
+
+/**
+ * How queue workers retry a service's failed tasks (see taskRetries.ts)
+ *
+ * Tasks are retried when processing throws a retryable error, or resolves with status 'fail'.
+ */
+export type TaskServiceRetryPolicy = {
+  attempts: number; // Most attempts at each task, including the first
+  // Delay before retries: `delay` ms for 'fixed', doubling from it for 'exponential'. `jitter` is the
+  // fraction (0-1) of each delay randomized, so tasks failing together aren't retried together
+  backoff?: { type: 'fixed' | 'exponential'; delay: number; jitter?: number };
+  retryable?: ErrorClass[]; // Errors worth retrying, if not any error
+  permanent?: ErrorClass[]; // Errors never retried, besides PermanentTaskError and TaskCancelledError
+};
+
+/**
+ * Example request for a service, for API user-facing documentation
+ */
+export type TaskServiceExample = {
+  address: string; // The `:address` param to request services for
+  data?: { [x: string]: any }; // request.body.data
+};
+
+/**
+ * Another service whose result a service needs, and the data to pass downstream from it
+ *
+ * Applies only to addresses the upstream service accepts; otherwise the request must provide the data.
+ */
+export type TaskServiceDependency = {
+  service: string; // Name of the upstream service
+  provides: string[]; // Data keys passed downstream, so requests needn't include them
+  // Build data from the upstream result's data, or null if there's none to pass
+  data: (upstreamData: { [x: string]: any }) => { [x: string]: any } | null;
+};
+
 // decorator configuration
 export type TaskServiceConfig = {
   name: string; // Unique name of the service
   description: string; // API user-facing description of provided service
-  returnType: string | { [x: string]: any }; //
-  requiredData?: { [x: string]: any }; // Data (params) required, if any
+  returnType: string | { [x: string]: any }; // Shape of result data when done; see typeToJSONSchema in openapi.ts
+  requiredData?: DataSchemaMap; // Schemas of data (params) taken, if any; see dataSchema.ts
+  addressTypes?: string[]; // Address types accepted, if not DEFAULT_ADDRESS_TYPES (see addressTypes.ts)
+  cacheTTL?: number; // Seconds to cache results for the same data, if at all
+  timeoutMs?: number; // Milliseconds requests wait for a task's result, if less than their own timeout
+  retry?: TaskServiceRetryPolicy; // How to retry failed tasks, if at all
+  dependsOn?: TaskServiceDependency[]; // Services to run first, whose results provide data
+  example?: TaskServiceExample; // Example request, if the generated one won't do
 };
 
 export abstract class TaskService {
@@ -68,36 +126,43 @@ export abstract class TaskService {
   }
 
   // service-specific task processing logic implementation
-  protected abstract processTask: (task: Task) => Promise<TaskResult>;
+  // The signal is cancelled once no request is waiting for the result, so long-running lookups can stop
+  protected abstract processTask: (task: Task, signal: CancellationSignal) => Promise<TaskResult>;
 
   //
   // Get metadata added by @Service decorator
   //
 
+  // Note: Metadata is stored on each decorated class, i.e. the instance's constructor
+
   protected getMetadataName = (): false | string => {
-    return getMetadata('name', TaskService.constructor);
+    return getMetadata('name', this.constructor);
+  };
+
+  protected getMetadataRequiredData = (): false | DataSchemaMap => {
+    return getMetadata('requiredData', this.constructor);
   };
 
-  protected getMetadataRequiredData = (): false | { [x: string]: string } => {
-    return getMetadata('requiredData', TaskService.constructor);
+  protected getMetadataAddressTypes = (): string[] => {
+    return getMetadata('addressTypes', this.constructor) || DEFAULT_ADDRESS_TYPES;
   };
 
   // Require @Service decorator use at instantiation time
   protected validateInstanceMetadata = (): void => {
     for (const key of ['name', 'description', 'returnType', 'requiredData']) {
-      if (!hasMetadata(key, TaskService.constructor)) {
+      if (!hasMetadata(key, this.constructor)) {
         throw new Error(`Class instance extending TaskService is missing metadata key ${key}.`);
       }
     }
   };
 
   /**
-   * Confirm Task is meant for this service, and has id and required data
+   * Confirm Task is meant for this service, and has id and data meeting `requiredData` schemas
    */
   protected validateTask = (task: Task): true | { taskIssues: string[] } => {
     const taskIssues: string[] = [];
     const thisService = this.getMetadataName();
-    const { id, data, requestId, serviceName } = task;
+    const { id, data, requestId, serviceName, addressType } = task;
 
     if (!id) {
       taskIssues.push(`Task missing id`);
@@ -111,38 +176,41 @@ export abstract class TaskService {
       taskIssues.push(`Task addressed to service ${serviceName} sent to incorrect service ${thisService}`);
     }
 
+    const addressTypes = this.getMetadataAddressTypes();
+    if (addressType && !addressTypes.includes(addressType)) {
+      taskIssues.push(`${thisService} doesn't accept ${addressType} addresses, only: ${addressTypes.join(', ')}`);
+    }
+
     const requiredData = this.getMetadataRequiredData();
     if (requiredData) {
-      for (const key in requiredData) {
-        if (!data[key]) {
-          taskIssues.push(`Task missing \`${key}\` data required by ${thisService}`);
-        }
-      }
+      validateData(data, requiredData).forEach(issue => taskIssues.push(`${issue} (for ${thisService})`));
     }
 
     return taskIssues.length ? { taskIssues } : true;
   };
 
   // Receive tasks to process from workers, return a Promise with the result
-  public do = (task: Task): Promise<TaskResult> => {
+  public do = (task: Task, signal: CancellationSignal = new CancellationSignal()): Promise<TaskResult> => {
     const debugService = debug.extend(this.getMetadataName() || 'unnamed');
     debugService(`handling task: ${JSON.stringify(task)}`);
 
     const { id, requestId } = task;
 
-    return new Promise(resolve => {
+    return new Promise((resolve, reject) => {
       const taskValidation = this.validateTask(task);
       if (taskValidation !== true) {
         debugService(`failed validation for task id ${id}`);
         resolve(new TaskResult(id, requestId, 'reject', { issues: taskValidation.taskIssues }));
+        return;
       }
 
-      this.processTask(task).then(result => {
+      // Rejections (and throws) are retried, or else failed, by the queue worker, per the retry policy
+      this.processTask(task, signal).then(result => {
         debugService(`promise resolving with result: ${JSON.stringify(result)}`);
 
         resolve(result);
         return result;
-      });
+      }, reject);
     });
   };
 }
@@ -153,46 +221,193 @@ type TaskServiceDecorator = <C extends TaskServiceConstructor>(target: C) => C |
 
 type TaskServiceDecoratorFactory = (config: TaskServiceConfig) => TaskServiceDecorator;
 
-export const registeredServices: Array<{ name: string; description: string; requiredData?: { [x: string]: any } }> = [];
+/**
+ * A registered service's configuration, as passed to @Service, with defaults applied
+ */
+export type RegisteredService = TaskServiceConfig & { addressTypes: string[] };
+
+export const registeredServices: Array<RegisteredService> = [];
+
+/**
+ * Whether a retry policy has a whole number of attempts, and a non-negative backoff with jitter of 0-1
+ */
+const isValidRetryPolicy = ({ attempts, backoff }: TaskServiceRetryPolicy): boolean => {
+  if (!Number.isInteger(attempts) || attempts < 1) {
+    return false;
+  }
+
+  if (!backoff) {
+    return true;
+  }
+
+  const { type, delay, jitter = 0 } = backoff;
+
+  return ['fixed', 'exponential'].includes(type) && delay >= 0 && jitter >= 0 && jitter <= 1;
+};
+
+/**
+ * Find a path of dependencies from a service back to itself, if registering it would form a cycle
+ *
+ * Registered services' dependencies are acyclic, so any cycle must pass through the new service.
+ *
+ * @param path {string[]} Services depending on each other so far, starting with the new service
+ * @param dependsOn {TaskServiceDependency[]} Dependencies of the last service in the path
+ */
+export const findDependencyCycle = (path: string[], dependsOn: TaskServiceDependency[]): string[] | null => {
+  for (const { service } of dependsOn) {
+    if (service === path[0]) {
+      return [...path, service];
+    }
+
+    const upstream = registeredServices.find(item => item.name === service);
+    const cycle =
+      upstream && !path.includes(service) && findDependencyCycle([...path, service], upstream.dependsOn || []);
+    if (cycle) {
+      return cycle;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Get a registered service's dependencies that apply to a request, i.e. whose upstream accepts its address
+ * type and has the data it requires, and that provide data the request doesn't include already
+ *
+ * E.g. a URL with an IP host has an `ip`, so services needing one don't depend on dns for it.
+ *
+ * @param serviceName {string} The downstream service
+ * @param addressType {string} Type of the address the request is for
+ * @param data {object} Request data, including data from the address
+ */
+export const getServiceDependencies = (
+  serviceName: string,
+  addressType: string,
+  data: { [x: string]: any }
+): TaskServiceDependency[] => {
+  const registeredService = registeredServices.find(item => item.name === serviceName);
+
+  return ((registeredService && registeredService.dependsOn) || []).filter(({ service, provides }) => {
+    const upstream = registeredServices.find(item => item.name === service);
+
+    return (
+      upstream &&
+      upstream.addressTypes.includes(addressType) &&
+      !provides.every(key => key in data) &&
+      hasRequiredData(service, addressType, data)
+    );
+  });
+};
+
+/**
+ * Get data keys a registered service's dependencies provide for a request, so it needn't include them
+ */
+export const getProvidedData = (serviceName: string, addressType: string, data: { [x: string]: any }): string[] =>
+  getServiceDependencies(serviceName, addressType, data).reduce(
+    (keys: string[], { provides }) => keys.concat(provides),
+    []
+  );
+
+/**
+ * Whether request data includes all non-optional data keys a registered service requires, but its
+ * dependencies don't provide
+ */
+export const hasRequiredData = (serviceName: string, addressType: string, data: { [x: string]: any }): boolean => {
+  const registeredService = registeredServices.find(item => item.name === serviceName);
+  const { requiredData = {} } = registeredService || {};
+  const providedData = getProvidedData(serviceName, addressType, data);
+
+  return Object.keys(requiredData).every(
+    key => key in data || providedData.includes(key) || isOptionalDataSchema(requiredData[key])
+  );
+};
 
 export const Service: TaskServiceDecoratorFactory = (config: TaskServiceConfig): TaskServiceDecorator => {
   return (target: TaskServiceConstructor): void => {
-    const { name, description, requiredData, returnType } = config;
+    const {
+      name,
+      description,
+      requiredData,
+      returnType,
+      example,
+      addressTypes = DEFAULT_ADDRESS_TYPES,
+      cacheTTL,
+      timeoutMs,
+      retry,
+      dependsOn
+    } = config;
 
     // Invalidate decorator usage if any required config strings are empty
-    if (!name || !description || !returnType) {
+    if (
+      !name ||
+      !description ||
+      !returnType ||
+      !addressTypes.length ||
+      (cacheTTL !== undefined && !(cacheTTL >= 0)) ||
+      (timeoutMs !== undefined && !(timeoutMs > 0)) ||
+      (retry && !isValidRetryPolicy(retry)) ||
+      (dependsOn && !dependsOn.every(dependency => dependency.service && typeof dependency.data === 'function'))
+    ) {
       throw new Error(`@Service decorator of ${target.name} passed invalid configuration.`);
     }
 
+    const requiredDataIssues = Object.keys(requiredData || {}).reduce(
+      (issues: string[], key) => issues.concat(findDataSchemaIssues((requiredData as DataSchemaMap)[key], key)),
+      []
+    );
+    if (requiredDataIssues.length) {
+      throw new Error(
+        `@Service decorator of ${target.name} passed invalid requiredData: ${requiredDataIssues.join('; ')}`
+      );
+    }
+
+    // Dependencies are run in order, so can't depend on each other
+    const cycle = dependsOn && findDependencyCycle([name], dependsOn);
+    if (cycle) {
+      throw new Error(
+        `@Service decorator of ${target.name} passed dependencies forming a cycle: ${cycle.join(' -> ')}`
+      );
+    }
+
     // Store class constructor metadata
-    defineMetadata('name', name, target.constructor);
-    defineMetadata('description', description, target.constructor);
-    defineMetadata('returnType', returnType, target.constructor);
-    defineMetadata('requiredData', requiredData, target.constructor);
+    defineMetadata('name', name, target);
+    defineMetadata('description', description, target);
+    defineMetadata('returnType', returnType, target);
+    defineMetadata('requiredData', requiredData, target);
+    defineMetadata('addressTypes', addressTypes, target);
 
     // Register service
     registeredServices.push({
       name,
       description,
-      requiredData
+      returnType,
+      requiredData,
+      addressTypes,
+      cacheTTL,
+      timeoutMs,
+      retry,
+      dependsOn,
+      example
     });
   };
 };
 
 /**
- * Get metadata for a TaskService
+ * Get metadata for a TaskService instance
  */
 export const getTaskServiceMetadata = (target: TaskService): TaskServiceConfig => {
   const name = getMetadata('name', target.constructor);
   const description = getMetadata('description', target.constructor);
   const returnType = getMetadata('returnType', target.constructor);
   const requiredData = getMetadata('requiredData', target.constructor);
+  const addressTypes = getMetadata('addressTypes', target.constructor);
 
   const metadata = {
     name,
     description,
     returnType,
-    requiredData: undefined
+    requiredData: undefined,
+    addressTypes
   };
 
   if (requiredData) {
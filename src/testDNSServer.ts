@@ -0,0 +1,135 @@
+/**
+ * A stand-in DNS server for tests, answering UDP queries from a fixture zone
+ */
+import { createSocket, Socket } from 'dgram';
+
+import { parseIP } from './ipAddress';
+
+/**
+ * Records for a name, by type, or the response code to answer every query for it with
+ *
+ * Names absent from a zone are NXDOMAIN; types absent from a name's records are NODATA.
+ */
+export interface TestDNSRecords {
+  A?: string[];
+  AAAA?: string[];
+  CNAME?: string[];
+  MX?: { priority: number; exchange: string }[];
+  NS?: string[];
+  PTR?: string[];
+  TXT?: string[][];
+  rcode?: 'SERVFAIL' | 'REFUSED';
+}
+
+export type TestDNSZone = { [name: string]: TestDNSRecords };
+
+const TYPE_CODES: { [x: number]: keyof TestDNSRecords } = {
+  1: 'A',
+  2: 'NS',
+  5: 'CNAME',
+  12: 'PTR',
+  15: 'MX',
+  16: 'TXT',
+  28: 'AAAA'
+};
+
+const RCODES = { NOERROR: 0, SERVFAIL: 2, NXDOMAIN: 3, REFUSED: 5 };
+
+/**
+ * Encode a domain name as DNS labels, uncompressed
+ */
+const encodeName = (name: string): Buffer =>
+  Buffer.concat([
+    ...name
+      .split('.')
+      .filter(label => label)
+      .map(label => Buffer.concat([Buffer.from([label.length]), Buffer.from(label)])),
+    Buffer.from([0])
+  ]);
+
+/**
+ * Encode a record's data (RDATA) for its type
+ */
+const encodeRecordData = (type: keyof TestDNSRecords, record: any): Buffer => {
+  switch (type) {
+    case 'A':
+    case 'AAAA': {
+      const parsed = parseIP(record);
+      return Buffer.from(parsed ? parsed.bytes : []);
+    }
+    case 'MX': {
+      const priority = Buffer.alloc(2);
+      priority.writeUInt16BE(record.priority);
+      return Buffer.concat([priority, encodeName(record.exchange)]);
+    }
+    case 'TXT':
+      return Buffer.concat(
+        (record as string[]).map(chunk => Buffer.concat([Buffer.from([chunk.length]), Buffer.from(chunk)]))
+      );
+    default:
+      return encodeName(record);
+  }
+};
+
+/**
+ * Build the response to a query message
+ */
+const answerQuery = (query: Buffer, zone: TestDNSZone): Buffer => {
+  // Question starts after the 12-byte header; its name ends at a zero-length label
+  let offset = 12;
+  const labels: string[] = [];
+  while (query[offset]) {
+    labels.push(query.toString('ascii', offset + 1, offset + 1 + query[offset]));
+    offset += query[offset] + 1;
+  }
+  const question = query.slice(12, offset + 5);
+  const typeCode = query.readUInt16BE(offset + 1);
+
+  const name = labels.join('.').toLowerCase();
+  const records = zone[name];
+  const type = TYPE_CODES[typeCode];
+
+  let rcode = RCODES.NOERROR;
+  let answers: Buffer[] = [];
+
+  if (!records) {
+    rcode = RCODES.NXDOMAIN;
+  } else if (records.rcode) {
+    rcode = RCODES[records.rcode];
+  } else if (type && records[type]) {
+    answers = (records[type] as any[]).map(record => {
+      const data = encodeRecordData(type, record);
+      const fields = Buffer.alloc(10);
+      fields.writeUInt16BE(typeCode, 0);
+      fields.writeUInt16BE(1, 2);
+      fields.writeUInt32BE(60, 4);
+      fields.writeUInt16BE(data.length, 8);
+      return Buffer.concat([encodeName(name), fields, data]);
+    });
+  }
+
+  const header = Buffer.alloc(12);
+  query.copy(header, 0, 0, 2);
+  // QR, copying RD, and RA
+  header[2] = 0x80 | (query[2] & 0x01);
+  header[3] = 0x80 | rcode;
+  header.writeUInt16BE(1, 4);
+  header.writeUInt16BE(answers.length, 6);
+
+  return Buffer.concat([header, question, ...answers]);
+};
+
+/**
+ * Start a DNS server answering from a zone on a local UDP port, resolving once it's listening
+ */
+export const startTestDNSServer = (port: number, zone: TestDNSZone): Promise<Socket> =>
+  new Promise((resolve, reject) => {
+    const server = createSocket('udp4');
+
+    server.on('message', (query, { address, port: clientPort }) => {
+      server.send(answerQuery(query, zone), clientPort, address);
+    });
+
+    server.once('error', reject);
+    server.bind(port, '127.0.0.1', () => resolve(server));
+  });
@@ -0,0 +1,44 @@
+/**
+ * Environment for tests, set before modules read their configuration at import (see `mocha` in package.json)
+ */
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+// Callbacks need a secret to be enabled, and go to local test servers, retrying quickly
+process.env.CALLBACK_SECRET = 'test-secret';
+process.env.CALLBACK_MAX_ATTEMPTS = '3';
+process.env.CALLBACK_BACKOFF_MS = '10';
+process.env.CALLBACK_ALLOW_PRIVATE_URLS = 'true';
+
+// Requests time out quickly, as the queue is faked (see endpoints/ip.test.ts)
+process.env.REQUEST_TIMEOUT_MS = '300';
+process.env.PENDING_REQUEST_TIMEOUT_MS = '300';
+
+// DNS queries go to a stand-in server (see testDNSServer.ts), failing fast
+export const TEST_DNS_PORT = 15353;
+process.env.DNS_RESOLVER_SERVERS = `127.0.0.1:${TEST_DNS_PORT}`;
+process.env.DNS_TIMEOUT_MS = '500';
+
+// RDAP queries go to a stand-in registry, bypassing the bootstrap
+export const TEST_RDAP_PORT = 15380;
+process.env.RDAP_BASE_URL = `http://127.0.0.1:${TEST_RDAP_PORT}/`;
+process.env.RDAP_TIMEOUT_MS = '1000';
+
+// TLS inspection connects to local test servers
+process.env.TLS_ALLOW_PRIVATE_TARGETS = 'true';
+
+// Local databases are fixture files tests write to a temporary directory, reloaded promptly when they change
+export const TEST_DATA_DIR = mkdtempSync(join(tmpdir(), 'ipinfo-test-'));
+export const TEST_GEOIP_DATABASE_PATH = join(TEST_DATA_DIR, 'geoip.mmdb');
+process.env.GEOIP_DATABASE_PATH = TEST_GEOIP_DATABASE_PATH;
+process.env.DATA_FILE_WATCH_INTERVAL_MS = '20';
+export const TEST_IP_REPUTATION_LIST_PATHS = ['spam.txt', 'botnet.list'].map(name => join(TEST_DATA_DIR, name));
+process.env.IP_REPUTATION_LISTS = TEST_IP_REPUTATION_LIST_PATHS.join(',');
+
+/**
+ * Root hooks, run once around all tests (see https://mochajs.org/#root-hook-plugins)
+ */
+export const mochaHooks = {
+  afterAll: (): void => rmSync(TEST_DATA_DIR, { recursive: true, force: true })
+};
@@ -0,0 +1,140 @@
+/**
+ * A writer of minimal MaxMind-format (.mmdb) databases for tests
+ *
+ * @see https://maxmind.github.io/MaxMind-DB/ for the format
+ */
+import { parseCIDR } from './ipAddress';
+
+/**
+ * A network in a database, and its record
+ */
+export interface TestMMDBNetwork {
+  cidr: string;
+  record: { [x: string]: any };
+}
+
+/**
+ * Data section types used, by their type number
+ */
+const TYPES = { string: 2, double: 3, uint32: 6, map: 7, array: 11, boolean: 14 };
+
+const METADATA_MARKER = Buffer.concat([Buffer.from([0xab, 0xcd, 0xef]), Buffer.from('MaxMind.com')]);
+
+/**
+ * Encode a field's control byte(s), for its type and payload size
+ */
+const encodeControl = (type: number, size: number): Buffer => {
+  // Types beyond 7 are "extended", with their type number (less 7) in the byte after
+  const control = type <= 7 ? [type << 5] : [0, type - 7];
+
+  if (size < 29) {
+    control[0] |= size;
+    return Buffer.from(control);
+  }
+
+  const sizeBytes = size < 285 ? [size - 29] : [(size - 285) >> 8, (size - 285) & 0xff];
+  control[0] |= size < 285 ? 29 : 30;
+  return Buffer.from([...control, ...sizeBytes]);
+};
+
+/**
+ * Encode a value in the data section format
+ *
+ * Whole numbers are unsigned 32-bit integers, and other numbers doubles.
+ */
+const encodeValue = (value: any): Buffer => {
+  if (typeof value === 'string') {
+    const bytes = Buffer.from(value);
+    return Buffer.concat([encodeControl(TYPES.string, bytes.length), bytes]);
+  }
+
+  if (typeof value === 'boolean') {
+    return encodeControl(TYPES.boolean, value ? 1 : 0);
+  }
+
+  if (typeof value === 'number' && Number.isInteger(value) && value >= 0) {
+    const bytes = Buffer.alloc(4);
+    bytes.writeUInt32BE(value);
+    return Buffer.concat([encodeControl(TYPES.uint32, 4), bytes]);
+  }
+
+  if (typeof value === 'number') {
+    const bytes = Buffer.alloc(8);
+    bytes.writeDoubleBE(value);
+    return Buffer.concat([encodeControl(TYPES.double, 8), bytes]);
+  }
+
+  if (Array.isArray(value)) {
+    return Buffer.concat([encodeControl(TYPES.array, value.length), ...value.map(encodeValue)]);
+  }
+
+  const keys = Object.keys(value);
+  return Buffer.concat([
+    encodeControl(TYPES.map, keys.length),
+    ...keys.map(key => Buffer.concat([encodeValue(key), encodeValue(value[key])]))
+  ]);
+};
+
+/**
+ * Build an IPv4 database with 24-bit records, holding a record for each network
+ */
+export const buildTestMMDB = (networks: TestMMDBNetwork[], databaseType: string, buildEpoch: Date): Buffer => {
+  // Each node has a left (0 bit) and right (1 bit) record, pointing to a node or data, or empty
+  const nodes: ({ node: number } | { data: number } | null)[][] = [[null, null]];
+  const data: Buffer[] = [];
+  let dataSize = 0;
+
+  networks.forEach(({ cidr, record }) => {
+    const parsed = parseCIDR(cidr);
+    if (!parsed || parsed.family !== 4) {
+      throw new Error(`Test databases hold IPv4 networks only, not '${cidr}'`);
+    }
+
+    const encoded = encodeValue(record);
+    const pointer = { data: dataSize };
+    data.push(encoded);
+    dataSize += encoded.length;
+
+    let node = 0;
+    for (let depth = 0; depth < parsed.prefixLength; depth++) {
+      const bit = (parsed.bytes[depth >> 3] >> (7 - (depth & 7))) & 1;
+
+      if (depth === parsed.prefixLength - 1) {
+        nodes[node][bit] = pointer;
+        break;
+      }
+
+      let next = nodes[node][bit];
+      if (!next || !('node' in next)) {
+        nodes.push([null, null]);
+        next = { node: nodes.length - 1 };
+        nodes[node][bit] = next;
+      }
+      node = next.node;
+    }
+  });
+
+  const nodeCount = nodes.length;
+  const tree = Buffer.alloc(nodeCount * 6);
+  nodes.forEach((records, i) =>
+    records.forEach((item, bit) => {
+      // Data pointers count from the start of the 16-byte separator after the tree
+      const value = !item ? nodeCount : 'node' in item ? item.node : nodeCount + 16 + item.data;
+      tree.writeUIntBE(value, i * 6 + bit * 3, 3);
+    })
+  );
+
+  const metadata = encodeValue({
+    node_count: nodeCount,
+    record_size: 24,
+    ip_version: 4,
+    database_type: databaseType,
+    languages: ['en'],
+    binary_format_major_version: 2,
+    binary_format_minor_version: 0,
+    build_epoch: Math.floor(buildEpoch.getTime() / 1000),
+    description: { en: 'Test database' }
+  });
+
+  return Buffer.concat([tree, Buffer.alloc(16), ...data, METADATA_MARKER, metadata]);
+};
@@ -1,5 +1,8 @@
 import { createHash } from 'crypto';
 
+import { parseDomain } from './domainName';
+import { parseIP } from './ipAddress';
+
 /**
  * Express the type of a instantiatable class that extends an abstract
  *
@@ -26,16 +29,18 @@ export interface Concrete<T> {
 }
 
 /**
- * Check whether a string is a valid IPv4 address
+ * Check whether a string is a valid IPv4 or IPv6 address
+ *
+ * @see parseIP for supported forms
  */
-export const isIPValid = (ip: string): boolean => !!ip.match(/^(?:[0-9]{1,3}\.){3}[0-9]{1,3}$/);
+export const isIPValid = (ip: string): boolean => !!parseIP(ip);
 
 /**
- * *NAIVE* domain address validation
+ * Check whether a string is a valid domain name, including internationalized domain names
  *
- * @TODO make this much better
+ * @see parseDomain for the rules applied
  */
-export const isDomainValid = (domain: string): boolean => !!domain.match(/[a-z0-9.]+/i);
+export const isDomainValid = (domain: string): boolean => !!parseDomain(domain);
 
 /**
  * Return a hexadecimal-encoded sha256 hash of an input string
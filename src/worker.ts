@@ -20,9 +20,12 @@
 import 'reflect-metadata';
 import throng, { ProcessCallback } from 'throng';
 import { Job, Worker } from 'bullmq';
+import IORedis from 'ioredis';
 
 import { getTaskServiceMetadata, Task, TaskResult, TaskService } from './taskServices';
-import { QUEUE } from './shared';
+import { getBackoffStrategies, isRetryableError } from './taskRetries';
+import { JOB_CANCEL_CHANNEL, QUEUE } from './shared';
+import CancellationSignal from './CancellationSignal';
 import Debug from './debug';
 import { AvailableServices } from './services';
 
@@ -43,23 +46,59 @@ const QUEUE_WORKER_MAX_JOBS =
 type ServiceDirectory = { [x: string]: TaskService };
 
 // Map of service names to their instances
+// Populated once per throng worker process, so services' own resources (e.g. loaded databases) are
+// shared by all of that process's queue workers, and not wastefully loaded in the throng master.
 // @TODO research: pros/cons to sharing this with all throngWorkers
 const serviceInstances: ServiceDirectory = {};
 
-AvailableServices.forEach(target => {
-  const instance = new target();
+// Cancellation signals of jobs this process is processing, by job ID
+const activeJobSignals: { [x: string]: CancellationSignal } = {};
 
-  const { name } = getTaskServiceMetadata((target as unknown) as TaskService);
+/**
+ * Instantiate each available service into `serviceInstances`
+ */
+const createServiceInstances = (): void => {
+  AvailableServices.forEach(target => {
+    const instance = new target();
 
-  serviceInstances[name] = instance;
+    const { name } = getTaskServiceMetadata(instance);
 
-  debug.extend('serviceInstances')(`added instance of ${name}`);
-});
+    serviceInstances[name] = instance;
+
+    debug.extend('serviceInstances')(`added instance of ${name}`);
+  });
+};
+
+/**
+ * Cancel active jobs the server abandons, e.g. when requests waiting for them time out
+ *
+ * Subscribing blocks a Redis connection, so each throng worker process has its own, shared by all of
+ * its queue workers.
+ */
+const subscribeToJobCancellations = (): void => {
+  const debugCancel = debug.extend('cancel-job');
+  const subscriber = new IORedis(QUEUE.CONFIG.connection);
+
+  subscriber.subscribe(JOB_CANCEL_CHANNEL).catch(e => debugCancel(`failed to subscribe: ${e}`));
+  subscriber.on('message', (channel: string, jobId: string) => {
+    const signal = activeJobSignals[jobId];
+
+    if (channel !== JOB_CANCEL_CHANNEL || !signal) {
+      return;
+    }
+
+    debugCancel(`cancelling job ${jobId}`);
+    signal.cancel('Cancelled because no request is waiting for the result');
+  });
+};
 
 /**
  * Worker (Heroku process) routine
  */
 const work = (throngWorkerId: Number) => {
+  createServiceInstances();
+  subscribeToJobCancellations();
+
   // Create a new queue worker & start it processing jobs
   const createWorker = (serial: Number): void => {
     const name = `${throngWorkerId}-${serial}`;
@@ -70,6 +109,10 @@ const work = (throngWorkerId: Number) => {
      * Process a job from the queue
      *
      * This is passed a Job by the Queue
+     *
+     * Throwing fails the attempt, for the queue to retry per the job's options (see taskRetries.ts).
+     * On the last attempt, or for errors not worth retrying, errors resolve as failed results instead,
+     * so clients still see how many attempts were made. Cancelled jobs are never retried.
      */
     const processJob = async (job: Job): Promise<TaskResult> => {
       debugWorker(`processing job ${job.name}`);
@@ -78,7 +121,7 @@ const work = (throngWorkerId: Number) => {
       const { data: task } = job;
       // const task = JSON.parse(data);
 
-      const { serviceName } = task as Task;
+      const { id, requestId, serviceName } = task as Task;
 
       const service = serviceInstances[serviceName];
 
@@ -88,18 +131,43 @@ const work = (throngWorkerId: Number) => {
 
       debugWorker(`delegating job to ${serviceName} service: ${JSON.stringify(task)}`);
 
-      // We need to return a Promise
-      // 'await' here is just for debugging
-      const result = await service.do(task);
+      // attemptsMade counts failed attempts so far
+      const attempts = job.attemptsMade + 1;
+      const isLastAttempt = attempts >= (job.opts.attempts || 1);
+
+      // Job IDs are task IDs (see IPServicesController #queueTaskBatch)
+      const signal = new CancellationSignal();
+      activeJobSignals[id] = signal;
+
+      let result: TaskResult;
+      try {
+        result = await service.do(task, signal);
+      } catch (e) {
+        if (!isLastAttempt && !signal.isCancelled() && isRetryableError(serviceName, e)) {
+          debugWorker(`attempt ${attempts} at job ${job.name} threw; retrying: ${e.message}`);
+          throw e;
+        }
+
+        result = new TaskResult(id, requestId, 'fail', { issues: [e.message] });
+      } finally {
+        delete activeJobSignals[id];
+      }
+
+      // Failures are due to upstream issues, so may not recur; unless the job was cancelled
+      if (result.status === 'fail' && !isLastAttempt && !signal.isCancelled()) {
+        debugWorker(`attempt ${attempts} at job ${job.name} failed; retrying`);
+        throw new Error((result.resultData.issues || []).join(' '));
+      }
 
       debugWorker(`returning job: ${JSON.stringify(result)}`);
 
-      return Promise.resolve(result);
+      return { ...result, attempts };
     };
 
     const concurrency = QUEUE_WORKER_MAX_JOBS;
+    const settings = { backoffStrategies: getBackoffStrategies() };
 
-    new Worker(QUEUE.NAME, processJob, { ...QUEUE.CONFIG, concurrency });
+    new Worker(QUEUE.NAME, processJob, { ...QUEUE.CONFIG, concurrency, settings });
     debugWorker(`Worker created`);
   };
 